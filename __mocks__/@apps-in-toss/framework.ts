@@ -0,0 +1,15 @@
+// In-memory stand-in for the Apps-in-Toss native storage in tests
+const items = new Map<string, string>();
+
+export const Storage = {
+  getItem: jest.fn(async (key: string) => items.get(key) ?? null),
+  setItem: jest.fn(async (key: string, value: string) => {
+    items.set(key, value);
+  }),
+  removeItem: jest.fn(async (key: string) => {
+    items.delete(key);
+  }),
+  clearItems: jest.fn(async () => {
+    items.clear();
+  }),
+};
@@ -0,0 +1 @@
+export { Route } from '../src/pages/Login';
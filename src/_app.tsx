@@ -1,12 +1,16 @@
 import { AppsInToss } from '@apps-in-toss/framework';
 import type { InitialProps } from '@granite-js/react-native';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
-import type { PropsWithChildren } from 'react';
+import { type PropsWithChildren, useEffect } from 'react';
 import { context } from '../require.context';
+import { startUploadQueueSync } from './services/uploadQueue';
 
 const queryClient = new QueryClient();
 
 function AppContainer({ children }: PropsWithChildren<InitialProps>) {
+  // Replay log writes that were queued while offline
+  useEffect(() => startUploadQueueSync(), []);
+
   return (
     <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
   );
@@ -1,4 +1,5 @@
 import { apiConfig } from '../config';
+import { authorizedFetch, requireUserKey } from '../services/session';
 import type {
   CreateUserPayload,
   CreateUserResponse,
@@ -6,25 +7,88 @@ import type {
   LogExerciseResponse,
   LogFoodPayload,
   LogFoodResponse,
+  UpdateExercisePayload,
+  UpdateExerciseResponse,
+  UpdateFoodPayload,
+  UpdateFoodResponse,
 } from '../types/api';
 
-const post = async <T, P>(endpoint: string, payload: P): Promise<T> => {
-  const bodyString = JSON.stringify(payload);
-  console.log(`🚀 POST ${endpoint}`);
-  console.log('🚀 Request body:', bodyString);
-  
-  const response = await fetch(`${apiConfig.baseUrl}${endpoint}`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: bodyString,
-  });
+export class ApiRequestError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public isNetworkError = false,
+  ) {
+    super(message);
+    this.name = 'ApiRequestError';
+  }
+
+  // Network failures, timeouts, throttling and server errors may succeed later
+  get isRetryable(): boolean {
+    if (this.isNetworkError || this.statusCode === undefined) {
+      return true;
+    }
+    return (
+      this.statusCode >= 500 ||
+      this.statusCode === 408 ||
+      this.statusCode === 429
+    );
+  }
+}
+
+interface RequestOptions {
+  // Lets the backend drop duplicates when a write is replayed
+  idempotencyKey?: string;
+}
+
+type HttpMethod = 'POST' | 'PATCH' | 'DELETE';
+
+const request = async <T, P = undefined>(
+  method: HttpMethod,
+  endpoint: string,
+  payload?: P,
+  options: RequestOptions = {},
+): Promise<T> => {
+  const bodyString =
+    payload === undefined ? undefined : JSON.stringify(payload);
+  console.log(`🚀 ${method} ${endpoint}`);
+  if (bodyString) {
+    console.log('🚀 Request body:', bodyString);
+  }
+
+  let response: Response;
+  try {
+    response = await authorizedFetch(`${apiConfig.baseUrl}${endpoint}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(options.idempotencyKey
+          ? { 'Idempotency-Key': options.idempotencyKey }
+          : {}),
+      },
+      body: bodyString,
+    });
+  } catch (error) {
+    console.error('❌ Network Error:', error);
+    throw new ApiRequestError(
+      error instanceof Error ? error.message : 'Network request failed',
+      undefined,
+      true,
+    );
+  }
 
   if (!response.ok) {
-    const error = await response.json();
+    const error = await response.json().catch(() => ({}));
     console.error('❌ API Error:', error);
-    throw new Error(error.detail || 'API request failed');
+    throw new ApiRequestError(
+      error.detail || 'API request failed',
+      response.status,
+    );
+  }
+
+  // DELETE answers 204 without a body
+  if (response.status === 204) {
+    return undefined as T;
   }
 
   const result = await response.json();
@@ -32,19 +96,74 @@ const post = async <T, P>(endpoint: string, payload: P): Promise<T> => {
   return result;
 };
 
+const post = <T, P>(endpoint: string, payload: P, options?: RequestOptions) =>
+  request<T, P>('POST', endpoint, payload, options);
+
+const patch = <T, P>(endpoint: string, payload: P) =>
+  request<T, P>('PATCH', endpoint, payload);
+
+const remove = async (endpoint: string): Promise<void> => {
+  try {
+    await request<void>('DELETE', endpoint);
+  } catch (error) {
+    // Already deleted (e.g. on another device): the outcome is the same
+    if (error instanceof ApiRequestError && error.statusCode === 404) {
+      return;
+    }
+    throw error;
+  }
+};
+
 export const createUser = (payload: CreateUserPayload) => {
   return post<CreateUserResponse, CreateUserPayload>('/api/users', payload);
 };
 
-export const logExercise = (payload: LogExercisePayload) => {
+export const logExercise = (
+  payload: LogExercisePayload,
+  options?: RequestOptions,
+) => {
   return post<LogExerciseResponse, LogExercisePayload>(
     '/api/log/exercise',
     payload,
+    options,
   );
 };
 
-export const logFood = (payload: LogFoodPayload) => {
-  console.log('🌐 API Client - logFood payload:', JSON.stringify(payload, null, 2));
+export const logFood = (payload: LogFoodPayload, options?: RequestOptions) => {
+  console.log(
+    '🌐 API Client - logFood payload:',
+    JSON.stringify(payload, null, 2),
+  );
   console.log('🌐 API Client - ingredients:', payload.ingredients);
-  return post<LogFoodResponse, LogFoodPayload>('/api/log/food', payload);
+  return post<LogFoodResponse, LogFoodPayload>(
+    '/api/log/food',
+    payload,
+    options,
+  );
+};
+
+export const updateExercise = (id: string, payload: UpdateExercisePayload) => {
+  return patch<UpdateExerciseResponse, UpdateExercisePayload>(
+    `/api/log/exercise/${encodeURIComponent(id)}`,
+    payload,
+  );
+};
+
+export const updateFood = (id: string, payload: UpdateFoodPayload) => {
+  return patch<UpdateFoodResponse, UpdateFoodPayload>(
+    `/api/log/food/${encodeURIComponent(id)}`,
+    payload,
+  );
+};
+
+export const deleteExercise = (id: string, userKey = requireUserKey()) => {
+  return remove(
+    `/api/log/exercise/${encodeURIComponent(id)}?userKey=${encodeURIComponent(userKey)}`,
+  );
+};
+
+export const deleteFood = (id: string, userKey = requireUserKey()) => {
+  return remove(
+    `/api/log/food/${encodeURIComponent(id)}?userKey=${encodeURIComponent(userKey)}`,
+  );
 };
@@ -0,0 +1,65 @@
+import { StyleSheet, Text, View } from 'react-native';
+import type { AchievementProgress } from '../utils/goals';
+
+interface AchievementListProps {
+  achievements: AchievementProgress[];
+}
+
+export function AchievementList({ achievements }: AchievementListProps) {
+  return (
+    <View style={styles.container}>
+      {achievements.map((achievement) => (
+        <View
+          key={achievement.id}
+          style={[styles.item, !achievement.isUnlocked && styles.itemLocked]}
+        >
+          <Text style={styles.emoji}>
+            {achievement.isUnlocked ? achievement.emoji : '🔒'}
+          </Text>
+          <View style={styles.text}>
+            <Text style={styles.title}>{achievement.title}</Text>
+            <Text style={styles.description}>
+              {achievement.isUnlocked
+                ? achievement.description
+                : `${achievement.progress} / ${achievement.target}`}
+            </Text>
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    gap: 12,
+  },
+  itemLocked: {
+    opacity: 0.5,
+  },
+  emoji: {
+    fontSize: 28,
+  },
+  text: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1A202C',
+  },
+  description: {
+    fontSize: 13,
+    color: '#718096',
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,133 @@
+import { forwardRef } from 'react';
+import { Image, StyleSheet, Text, View } from 'react-native';
+import {
+  type ShareCardContent,
+  buildShareCardMessage,
+} from '../utils/shareCard';
+
+interface CertificationShareCardProps {
+  // The photo the analysis was made from
+  imageUri: string;
+  content: ShareCardContent;
+}
+
+/**
+ * The certification as one card: photo, confirmed fields, date and streak
+ * The ref points at the card's root view so it can be captured as an image
+ */
+export const CertificationShareCard = forwardRef<
+  View,
+  CertificationShareCardProps
+>(function CertificationShareCard({ imageUri, content }, ref) {
+  return (
+    // Android drops views it considers layout-only, which breaks capture
+    <View
+      ref={ref}
+      style={styles.card}
+      collapsable={false}
+      accessible
+      accessibilityLabel={buildShareCardMessage(content)}
+    >
+      <Image
+        source={{ uri: imageUri }}
+        style={StyleSheet.absoluteFill}
+        resizeMode="cover"
+      />
+      <View style={styles.overlay} />
+
+      <View style={styles.header}>
+        <Text style={styles.title}>{content.title}</Text>
+        <Text style={styles.date}>{content.dateLabel}</Text>
+      </View>
+
+      <View style={styles.fields}>
+        {content.fields.map((field) => (
+          <View key={field.key} style={styles.field}>
+            <Text style={styles.fieldLabel}>{field.label}</Text>
+            <Text style={styles.fieldValue}>{field.value}</Text>
+          </View>
+        ))}
+      </View>
+
+      {content.streakLabel && (
+        <View style={styles.streakBadge}>
+          <Text style={styles.streakText}>{content.streakLabel}</Text>
+        </View>
+      )}
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  card: {
+    width: '100%',
+    aspectRatio: 4 / 5,
+    borderRadius: 20,
+    overflow: 'hidden',
+    backgroundColor: '#1A202C',
+    padding: 20,
+    justifyContent: 'space-between',
+  },
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.3)',
+  },
+  header: {
+    gap: 4,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    textShadowColor: 'rgba(0, 0, 0, 0.8)',
+    textShadowOffset: { width: 1, height: 1 },
+    textShadowRadius: 3,
+  },
+  date: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#E2E8F0',
+  },
+  fields: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 10,
+  },
+  // Same bubble as FloatingTextItem, without the edit affordances
+  field: {
+    backgroundColor: 'rgba(0, 0, 0, 0.75)',
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.3)',
+    minWidth: 120,
+    maxWidth: '100%',
+    alignItems: 'center',
+  },
+  fieldLabel: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: '#CBD5E0',
+    marginBottom: 2,
+  },
+  fieldValue: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    textAlign: 'center',
+  },
+  streakBadge: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#3182F6',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  streakText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
+});
@@ -1,6 +1,10 @@
 import React, { useMemo, useState } from 'react';
 import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
-import type { GeminiExerciseResponse, GeminiFoodResponse } from '../types';
+import type {
+  GeminiExerciseResponse,
+  GeminiFoodResponse,
+  UserProfile,
+} from '../types';
 import {
   getEditableFields,
   mapAnalysisToFloatingText,
@@ -20,6 +24,10 @@ interface FloatingAnalysisResultsProps {
   onItemEdit: (key: string, value: string) => void;
   isEditing: boolean;
   onValidationError?: (error: string) => void;
+  // Low-confidence fields not yet reviewed; highlighted until edited
+  uncertainFields?: string[];
+  // Personalizes the reference calorie estimate
+  profile?: UserProfile;
 }
 
 export function FloatingAnalysisResults({
@@ -28,6 +36,8 @@ export function FloatingAnalysisResults({
   onItemEdit,
   isEditing,
   onValidationError,
+  uncertainFields = [],
+  profile,
 }: FloatingAnalysisResultsProps) {
   // State for edit modal
   const [isEditModalVisible, setIsEditModalVisible] = useState(false);
@@ -42,10 +52,10 @@ export function FloatingAnalysisResults({
   const textItems = useMemo(() => {
     console.log('🎨 FloatingAnalysisResults - Entry Type:', entryType);
     console.log('🎨 FloatingAnalysisResults - Analysis Data:', JSON.stringify(analysisData, null, 2));
-    const items = mapAnalysisToFloatingText(analysisData, entryType);
+    const items = mapAnalysisToFloatingText(analysisData, entryType, profile);
     console.log('🎨 FloatingAnalysisResults - Mapped Items:', JSON.stringify(items, null, 2));
     return items;
-  }, [analysisData, entryType]);
+  }, [analysisData, entryType, profile]);
 
   // Get editable fields for this entry type
   const editableFields = useMemo(() => {
@@ -108,23 +118,44 @@ export function FloatingAnalysisResults({
     <>
       <View style={styles.container}>
         <View style={styles.listContainer}>
-          {textItems.map((item) => (
-            <TouchableOpacity
-              key={item.key}
-              style={styles.resultItem}
-              onPress={() => handleItemPress(item.key, item.value)}
-              disabled={!isEditing || !editableFields.includes(item.key)}
-              activeOpacity={1}
-            >
-              <Text style={styles.label}>{item.label}</Text>
-              <Text style={styles.value}>{item.value}</Text>
-              {isEditing && editableFields.includes(item.key) && (
-                <View style={styles.editIndicator}>
-                  <Text style={styles.editIcon}>✏️</Text>
-                </View>
-              )}
-            </TouchableOpacity>
-          ))}
+          {textItems.map((item) => {
+            const isUncertain = uncertainFields.includes(item.key);
+            return (
+              <TouchableOpacity
+                key={item.key}
+                style={[
+                  styles.resultItem,
+                  isUncertain && styles.resultItemUncertain,
+                ]}
+                onPress={() => handleItemPress(item.key, item.value)}
+                disabled={!isEditing || !editableFields.includes(item.key)}
+                activeOpacity={1}
+              >
+                <Text style={styles.label}>{item.label}</Text>
+                <Text style={styles.value}>{item.value}</Text>
+                {item.note && (
+                  <Text
+                    style={[
+                      styles.note,
+                      item.needsReview && styles.noteWarning,
+                    ]}
+                  >
+                    {item.note}
+                  </Text>
+                )}
+                {isUncertain && (
+                  <Text style={styles.uncertainHint}>
+                    정확하지 않을 수 있어요. 눌러서 확인해주세요
+                  </Text>
+                )}
+                {isEditing && editableFields.includes(item.key) && (
+                  <View style={styles.editIndicator}>
+                    <Text style={styles.editIcon}>✏️</Text>
+                  </View>
+                )}
+              </TouchableOpacity>
+            );
+          })}
         </View>
       </View>
 
@@ -172,10 +203,14 @@ const styles = StyleSheet.create({
     elevation: 8,
     alignItems: 'center',
     minHeight: 70,
-    maxHeight: 120, // 2줄 텍스트를 위한 최대 높이
+    maxHeight: 150, // 2줄 텍스트와 안내 문구를 위한 최대 높이
     justifyContent: 'center',
     width: '100%',
   },
+  resultItemUncertain: {
+    borderWidth: 2,
+    borderColor: '#F6AD55',
+  },
   // Removed editing visual effects
   label: {
     fontSize: 14,
@@ -196,6 +231,22 @@ const styles = StyleSheet.create({
     flexWrap: 'wrap',
     maxWidth: '100%',
   },
+  note: {
+    fontSize: 12,
+    color: '#CBD5E0',
+    marginTop: 2,
+    textAlign: 'center',
+  },
+  noteWarning: {
+    color: '#F6AD55',
+    fontWeight: '600',
+  },
+  uncertainHint: {
+    fontSize: 12,
+    color: '#F6AD55',
+    marginTop: 4,
+    textAlign: 'center',
+  },
   editIndicator: {
     position: 'absolute',
     top: 8,
@@ -0,0 +1,115 @@
+import { StyleSheet, Text, View } from 'react-native';
+import type { StreakStats } from '../types';
+import type { GoalProgress, WeeklyGoalProgress } from '../utils/goals';
+
+interface GoalProgressCardProps {
+  progress: WeeklyGoalProgress;
+  streaks: StreakStats;
+}
+
+interface GoalRowProps {
+  label: string;
+  goal: GoalProgress;
+  unit: string;
+}
+
+function GoalRow({ label, goal, unit }: GoalRowProps) {
+  return (
+    <View style={styles.goalRow}>
+      <View style={styles.goalHeader}>
+        <Text style={styles.goalLabel}>{label}</Text>
+        <Text style={[styles.goalValue, goal.isMet && styles.goalValueMet]}>
+          {goal.value.toLocaleString()} / {goal.target.toLocaleString()}
+          {unit}
+        </Text>
+      </View>
+      <View style={styles.bar}>
+        <View
+          style={[
+            styles.barFill,
+            goal.isMet && styles.barFillMet,
+            { flex: goal.ratio },
+          ]}
+        />
+        <View style={{ flex: 1 - goal.ratio }} />
+      </View>
+    </View>
+  );
+}
+
+export function GoalProgressCard({ progress, streaks }: GoalProgressCardProps) {
+  return (
+    <View style={styles.container}>
+      <View style={styles.streakRow}>
+        <View style={styles.streakItem}>
+          <Text style={styles.streakValue}>🔥 {streaks.current}일</Text>
+          <Text style={styles.streakLabel}>연속 인증</Text>
+        </View>
+        <View style={styles.streakItem}>
+          <Text style={styles.streakValue}>{streaks.longest}일</Text>
+          <Text style={styles.streakLabel}>최장 기록</Text>
+        </View>
+      </View>
+      <GoalRow label="운동 시간" goal={progress.exerciseMinutes} unit="분" />
+      <GoalRow label="건강한 식단" goal={progress.healthyMeals} unit="회" />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 16,
+    gap: 14,
+  },
+  streakRow: {
+    flexDirection: 'row',
+  },
+  streakItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  streakValue: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1A202C',
+  },
+  streakLabel: {
+    fontSize: 12,
+    color: '#718096',
+    marginTop: 2,
+  },
+  goalRow: {
+    gap: 6,
+  },
+  goalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  goalLabel: {
+    fontSize: 14,
+    color: '#4A5568',
+  },
+  goalValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1A202C',
+  },
+  goalValueMet: {
+    color: '#38A169',
+  },
+  bar: {
+    flexDirection: 'row',
+    height: 8,
+    borderRadius: 4,
+    overflow: 'hidden',
+    backgroundColor: '#EDF2F7',
+  },
+  barFill: {
+    backgroundColor: '#3182F6',
+  },
+  barFillMet: {
+    backgroundColor: '#38A169',
+  },
+});
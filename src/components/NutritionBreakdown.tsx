@@ -0,0 +1,169 @@
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import type { GeminiFoodResponse } from '../types';
+import {
+  MAX_PORTION,
+  MIN_PORTION,
+  PORTION_STEP,
+  clampPortion,
+} from '../utils/nutrition';
+
+interface NutritionBreakdownProps {
+  // Analysis already scaled to the portion
+  food: GeminiFoodResponse;
+  portion: number;
+  onPortionChange: (portion: number) => void;
+}
+
+const MACRO_LABELS = [
+  { key: 'protein', label: '단백질' },
+  { key: 'carbs', label: '탄수화물' },
+  { key: 'fat', label: '지방' },
+] as const;
+
+const formatIngredientAmount = (grams?: number, calories?: number): string =>
+  [
+    grams !== undefined ? `${grams}g` : null,
+    calories !== undefined ? `${calories}kcal` : null,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+export function NutritionBreakdown({
+  food,
+  portion,
+  onPortionChange,
+}: NutritionBreakdownProps) {
+  const ingredientsWithAmounts = food.ingredients.filter(
+    (ingredient) =>
+      ingredient.grams !== undefined || ingredient.calories !== undefined,
+  );
+
+  const changePortion = (delta: number) => {
+    onPortionChange(clampPortion(portion + delta));
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.portionRow}>
+        <Text style={styles.label}>먹은 양</Text>
+        <View style={styles.stepper}>
+          <TouchableOpacity
+            style={styles.stepButton}
+            onPress={() => changePortion(-PORTION_STEP)}
+            disabled={portion <= MIN_PORTION}
+          >
+            <Text style={styles.stepButtonText}>−</Text>
+          </TouchableOpacity>
+          <Text style={styles.portionValue}>× {portion}</Text>
+          <TouchableOpacity
+            style={styles.stepButton}
+            onPress={() => changePortion(PORTION_STEP)}
+            disabled={portion >= MAX_PORTION}
+          >
+            <Text style={styles.stepButtonText}>+</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {food.macros && (
+        <View style={styles.macroRow}>
+          {MACRO_LABELS.map(({ key, label }) => (
+            <View key={key} style={styles.macroItem}>
+              <Text style={styles.macroValue}>{food.macros?.[key]}g</Text>
+              <Text style={styles.label}>{label}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {ingredientsWithAmounts.length > 0 && (
+        <View style={styles.ingredientList}>
+          {ingredientsWithAmounts.map((ingredient) => (
+            <View key={ingredient.name} style={styles.ingredientRow}>
+              <Text style={styles.ingredientName}>{ingredient.name}</Text>
+              <Text style={styles.ingredientAmount}>
+                {formatIngredientAmount(ingredient.grams, ingredient.calories)}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    backgroundColor: 'rgba(0, 0, 0, 0.75)',
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    marginTop: 16,
+    gap: 12,
+  },
+  portionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#CBD5E0',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  stepButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#3182F6',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepButtonText: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
+  portionValue: {
+    minWidth: 48,
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    textAlign: 'center',
+  },
+  macroRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  macroItem: {
+    alignItems: 'center',
+  },
+  macroValue: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
+  ingredientList: {
+    gap: 6,
+  },
+  ingredientRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  ingredientName: {
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  ingredientAmount: {
+    fontSize: 14,
+    color: '#CBD5E0',
+  },
+});
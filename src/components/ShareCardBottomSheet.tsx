@@ -0,0 +1,115 @@
+import type React from 'react';
+import {
+  Dimensions,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import type { ShareCardContent } from '../utils/shareCard';
+import { BottomSheet } from './BottomSheet';
+import { CertificationShareCard } from './CertificationShareCard';
+
+interface ShareCardBottomSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  imageUri: string;
+  content: ShareCardContent | null;
+  cardRef: React.RefObject<View>;
+  onSave: () => void;
+  isSaving: boolean;
+}
+
+const { height: screenHeight } = Dimensions.get('window');
+
+/**
+ * Preview of the certification card, saved to the device as an image
+ */
+export function ShareCardBottomSheet({
+  visible,
+  onClose,
+  imageUri,
+  content,
+  cardRef,
+  onSave,
+  isSaving,
+}: ShareCardBottomSheetProps) {
+  if (!content) return null;
+
+  return (
+    <BottomSheet
+      visible={visible}
+      onClose={onClose}
+      height={screenHeight * 0.85}
+    >
+      <View style={styles.container}>
+        <Text style={styles.title}>인증 카드</Text>
+        <CertificationShareCard
+          ref={cardRef}
+          imageUri={imageUri}
+          content={content}
+        />
+
+        <View style={styles.buttonContainer}>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Text style={styles.closeButtonText}>닫기</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.saveButton, isSaving && styles.saveButtonDisabled]}
+            onPress={onSave}
+            disabled={isSaving}
+          >
+            <Text style={styles.saveButtonText}>
+              {isSaving ? '저장 중...' : '이미지로 저장하기'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </BottomSheet>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+    gap: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#1A202C',
+    textAlign: 'center',
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  closeButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: '#EDF2F7',
+  },
+  closeButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#4A5568',
+  },
+  saveButton: {
+    flex: 2,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: '#3182F6',
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,70 @@
+import { StyleSheet, View } from 'react-native';
+import { ChartFrame } from './ChartFrame';
+import { getScaleMax } from './chartScale';
+import type { ChartProps } from './types';
+
+/**
+ * Bars grouped per label, one bar per series
+ */
+export function BarChart({
+  labels,
+  series,
+  height = 140,
+  maxValue,
+  formatValue = String,
+}: ChartProps) {
+  const max = getScaleMax(
+    series.flatMap((item) => item.values),
+    maxValue,
+  );
+
+  return (
+    <ChartFrame
+      labels={labels}
+      series={series}
+      height={height}
+      maxLabel={formatValue(max)}
+    >
+      <View style={styles.columns}>
+        {labels.map((label, index) => (
+          <View key={label} style={styles.column}>
+            {series.map((item) => (
+              <View
+                key={item.label}
+                style={[
+                  styles.bar,
+                  {
+                    height:
+                      (Math.min(item.values[index] ?? 0, max) / max) * height,
+                    backgroundColor: item.color,
+                  },
+                ]}
+              />
+            ))}
+          </View>
+        ))}
+      </View>
+    </ChartFrame>
+  );
+}
+
+const styles = StyleSheet.create({
+  columns: {
+    flex: 1,
+    flexDirection: 'row',
+  },
+  column: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    justifyContent: 'center',
+    gap: 1,
+    paddingHorizontal: 1,
+  },
+  bar: {
+    flex: 1,
+    maxWidth: 12,
+    borderTopLeftRadius: 2,
+    borderTopRightRadius: 2,
+  },
+});
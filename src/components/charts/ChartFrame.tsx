@@ -0,0 +1,91 @@
+import type React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { isLabelVisible } from './chartScale';
+import type { ChartSeries } from './types';
+
+interface ChartFrameProps {
+  labels: string[];
+  series: ChartSeries[];
+  height: number;
+  maxLabel: string;
+  children: React.ReactNode;
+}
+
+/**
+ * Axis labels and legend shared by every chart
+ */
+export function ChartFrame({
+  labels,
+  series,
+  height,
+  maxLabel,
+  children,
+}: ChartFrameProps) {
+  return (
+    <View>
+      <Text style={styles.axisLabel}>{maxLabel}</Text>
+      <View style={[styles.plot, { height }]}>{children}</View>
+      <View style={styles.labelRow}>
+        {labels.map((label, index) => (
+          <Text key={label} style={styles.label} numberOfLines={1}>
+            {isLabelVisible(index, labels.length) ? label : ''}
+          </Text>
+        ))}
+      </View>
+      {series.length > 1 && (
+        <View style={styles.legend}>
+          {series.map((item) => (
+            <View key={item.label} style={styles.legendItem}>
+              <View
+                style={[styles.legendDot, { backgroundColor: item.color }]}
+              />
+              <Text style={styles.legendText}>{item.label}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  axisLabel: {
+    fontSize: 11,
+    color: '#A0AEC0',
+    marginBottom: 4,
+  },
+  plot: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  labelRow: {
+    flexDirection: 'row',
+    marginTop: 4,
+  },
+  label: {
+    flex: 1,
+    fontSize: 10,
+    color: '#718096',
+    textAlign: 'center',
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginTop: 10,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  legendDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#4A5568',
+  },
+});
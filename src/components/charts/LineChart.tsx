@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { StyleSheet, View } from 'react-native';
+import { ChartFrame } from './ChartFrame';
+import { getScaleMax } from './chartScale';
+import type { ChartProps } from './types';
+
+const DOT_SIZE = 6;
+const LINE_WIDTH = 2;
+
+/**
+ * Lines through each series; points sit at the centre of their label, and
+ * NaN values leave a gap
+ */
+export function LineChart({
+  labels,
+  series,
+  height = 140,
+  maxValue,
+  formatValue = String,
+}: ChartProps) {
+  // Segments are positioned in pixels, so the plot width has to be measured
+  const [width, setWidth] = useState(0);
+  const max = getScaleMax(
+    series.flatMap((item) => item.values.filter(Number.isFinite)),
+    maxValue,
+  );
+  const step = labels.length > 0 ? width / labels.length : 0;
+
+  const toPoint = (value: number, index: number) => ({
+    x: step * (index + 0.5),
+    y: height - (Math.min(value, max) / max) * height,
+  });
+
+  return (
+    <ChartFrame
+      labels={labels}
+      series={series}
+      height={height}
+      maxLabel={formatValue(max)}
+    >
+      <View
+        style={styles.plot}
+        onLayout={(event) => setWidth(event.nativeEvent.layout.width)}
+      >
+        {width > 0 &&
+          series.map((item) =>
+            item.values.map((value, index) => {
+              if (!Number.isFinite(value)) {
+                return null;
+              }
+              const point = toPoint(value, index);
+              const nextValue = item.values[index + 1];
+              const next =
+                nextValue !== undefined && Number.isFinite(nextValue)
+                  ? toPoint(nextValue, index + 1)
+                  : null;
+              const key = `${item.label}-${labels[index]}`;
+
+              return (
+                <View key={key} style={StyleSheet.absoluteFill}>
+                  {next && (
+                    <View
+                      style={[
+                        styles.segment,
+                        getSegmentStyle(point, next),
+                        { backgroundColor: item.color },
+                      ]}
+                    />
+                  )}
+                  <View
+                    style={[
+                      styles.dot,
+                      {
+                        left: point.x - DOT_SIZE / 2,
+                        top: point.y - DOT_SIZE / 2,
+                        backgroundColor: item.color,
+                      },
+                    ]}
+                  />
+                </View>
+              );
+            }),
+          )}
+      </View>
+    </ChartFrame>
+  );
+}
+
+type Point = { x: number; y: number };
+
+// A thin view centred between the points and rotated to join them
+const getSegmentStyle = (from: Point, to: Point) => {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const length = Math.sqrt(dx * dx + dy * dy);
+  return {
+    width: length,
+    left: (from.x + to.x) / 2 - length / 2,
+    top: (from.y + to.y) / 2 - LINE_WIDTH / 2,
+    transform: [{ rotate: `${Math.atan2(dy, dx)}rad` }],
+  };
+};
+
+const styles = StyleSheet.create({
+  plot: {
+    flex: 1,
+  },
+  segment: {
+    position: 'absolute',
+    height: LINE_WIDTH,
+  },
+  dot: {
+    position: 'absolute',
+    width: DOT_SIZE,
+    height: DOT_SIZE,
+    borderRadius: DOT_SIZE / 2,
+  },
+});
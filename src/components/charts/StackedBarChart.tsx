@@ -0,0 +1,65 @@
+import { StyleSheet, View } from 'react-native';
+import { ChartFrame } from './ChartFrame';
+import { getScaleMax } from './chartScale';
+import type { ChartProps } from './types';
+
+/**
+ * One bar per label with the series stacked bottom to top
+ */
+export function StackedBarChart({
+  labels,
+  series,
+  height = 140,
+  maxValue,
+  formatValue = String,
+}: ChartProps) {
+  const totals = labels.map((_, index) =>
+    series.reduce((sum, item) => sum + (item.values[index] ?? 0), 0),
+  );
+  const max = getScaleMax(totals, maxValue);
+
+  return (
+    <ChartFrame
+      labels={labels}
+      series={series}
+      height={height}
+      maxLabel={formatValue(max)}
+    >
+      <View style={styles.columns}>
+        {labels.map((label, index) => (
+          <View key={label} style={styles.column}>
+            {series.map((item) => {
+              const value = item.values[index] ?? 0;
+              return value > 0 ? (
+                <View
+                  key={item.label}
+                  style={{
+                    height: (value / max) * height,
+                    backgroundColor: item.color,
+                  }}
+                />
+              ) : null;
+            })}
+          </View>
+        ))}
+      </View>
+    </ChartFrame>
+  );
+}
+
+const styles = StyleSheet.create({
+  columns: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+  },
+  column: {
+    flex: 1,
+    maxWidth: 24,
+    marginHorizontal: 1,
+    flexDirection: 'column-reverse',
+    alignSelf: 'stretch',
+    alignItems: 'stretch',
+    overflow: 'hidden',
+  },
+});
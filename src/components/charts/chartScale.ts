@@ -0,0 +1,28 @@
+// Most x-axis labels that fit under a phone-width chart
+const MAX_VISIBLE_LABELS = 7;
+
+/**
+ * Rounds the largest value up to 1, 2 or 5 × 10ⁿ so the axis reads cleanly
+ */
+export const getNiceMax = (value: number): number => {
+  if (value <= 0) {
+    return 1;
+  }
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step =
+    [1, 2, 5, 10].find((factor) => value <= factor * magnitude) ?? 10;
+  return step * magnitude;
+};
+
+export const getScaleMax = (
+  totals: number[],
+  maxValue: number | undefined,
+): number => maxValue ?? getNiceMax(Math.max(0, ...totals));
+
+/**
+ * Whether the x-axis label at this index is shown; the last one always is
+ */
+export const isLabelVisible = (index: number, count: number): boolean => {
+  const every = Math.ceil(count / MAX_VISIBLE_LABELS);
+  return index === count - 1 || (count - 1 - index) % every === 0;
+};
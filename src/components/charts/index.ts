@@ -0,0 +1,4 @@
+export { BarChart } from './BarChart';
+export { LineChart } from './LineChart';
+export { StackedBarChart } from './StackedBarChart';
+export type { ChartProps, ChartSeries } from './types';
@@ -0,0 +1,14 @@
+export interface ChartSeries {
+  label: string;
+  color: string;
+  values: number[]; // one value per label
+}
+
+export interface ChartProps {
+  labels: string[];
+  series: ChartSeries[];
+  height?: number;
+  // Top of the value axis; derived from the data when omitted
+  maxValue?: number;
+  formatValue?: (value: number) => string;
+}
@@ -5,5 +5,11 @@ export { ErrorBoundary } from './ErrorBoundary';
 export { ImageBackgroundContainer } from './ImageBackgroundContainer';
 export { FloatingTextItem } from './FloatingTextItem';
 export { FloatingAnalysisResults } from './FloatingAnalysisResults';
+export { NutritionBreakdown } from './NutritionBreakdown';
+export { GoalProgressCard } from './GoalProgressCard';
+export { AchievementList } from './AchievementList';
+export { CertificationShareCard } from './CertificationShareCard';
+export { ShareCardBottomSheet } from './ShareCardBottomSheet';
 export { EditableTextOverlay } from './EditableTextOverlay';
+export * from './charts';
 export * from './feedback';
@@ -0,0 +1,67 @@
+import {
+  type AppConfig,
+  ConfigError,
+  appConfig,
+  getAnalysisMode,
+  validateConfig,
+} from '../index';
+
+const buildConfig = (overrides: Partial<AppConfig>): AppConfig => ({
+  ...appConfig,
+  GEMINI_API_KEY: '',
+  USE_BACKEND_ANALYSIS: true,
+  USE_MOCK_ANALYSIS: false,
+  ...overrides,
+});
+
+describe('getAnalysisMode', () => {
+  it('should let the mock flag win over the backend flag', () => {
+    expect(
+      getAnalysisMode({ USE_BACKEND_ANALYSIS: true, USE_MOCK_ANALYSIS: true }),
+    ).toBe('mock');
+    expect(
+      getAnalysisMode({
+        USE_BACKEND_ANALYSIS: false,
+        USE_MOCK_ANALYSIS: false,
+      }),
+    ).toBe('direct');
+  });
+});
+
+describe('validateConfig', () => {
+  it('should allow any analysis mode in development', () => {
+    expect(() =>
+      validateConfig(
+        buildConfig({ APP_ENV: 'development', USE_BACKEND_ANALYSIS: false }),
+        'dev-key',
+      ),
+    ).not.toThrow();
+  });
+
+  it('should accept proxy-only analysis in production', () => {
+    expect(() =>
+      validateConfig(buildConfig({ APP_ENV: 'production' }), undefined),
+    ).not.toThrow();
+  });
+
+  it('should refuse a bundled Gemini key outside development', () => {
+    expect(() =>
+      validateConfig(buildConfig({ APP_ENV: 'staging' }), 'leaked-key'),
+    ).toThrow(ConfigError);
+  });
+
+  it('should refuse direct or mock analysis outside development', () => {
+    expect(() =>
+      validateConfig(
+        buildConfig({ APP_ENV: 'production', USE_BACKEND_ANALYSIS: false }),
+        undefined,
+      ),
+    ).toThrow('direct analysis is only allowed in development');
+    expect(() =>
+      validateConfig(
+        buildConfig({ APP_ENV: 'production', USE_MOCK_ANALYSIS: true }),
+        undefined,
+      ),
+    ).toThrow('mock analysis is only allowed in development');
+  });
+});
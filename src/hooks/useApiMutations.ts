@@ -1,10 +1,19 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import * as apiClient from '../api/apiClient';
+import { useHealthTrackerStore } from '../store/healthTracker';
+import type { FoodEntryChanges, IngredientNutrition } from '../types';
 import type {
   CreateUserPayload,
+  EntryDeleteRequest,
+  EntryUpdateRequest,
+  IdempotentRequest,
   LogExercisePayload,
   LogFoodPayload,
+  UpdateExerciseResponse,
+  UpdateFoodPayload,
+  UpdateFoodResponse,
 } from '../types/api';
+import { toFoodIngredients } from '../utils/nutrition';
 
 export const useCreateUserMutation = () => {
   const queryClient = useQueryClient();
@@ -20,7 +29,11 @@ export const useCreateUserMutation = () => {
 export const useLogExerciseMutation = () => {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: (payload: LogExercisePayload) => apiClient.logExercise(payload),
+    mutationFn: ({
+      payload,
+      idempotencyKey,
+    }: IdempotentRequest<LogExercisePayload>) =>
+      apiClient.logExercise(payload, { idempotencyKey }),
     onSuccess: (data) => {
       // Invalidate and refetch exercise logs for the user
       queryClient.invalidateQueries({
@@ -33,10 +46,107 @@ export const useLogExerciseMutation = () => {
 export const useLogFoodMutation = () => {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: (payload: LogFoodPayload) => apiClient.logFood(payload),
+    mutationFn: ({
+      payload,
+      idempotencyKey,
+    }: IdempotentRequest<LogFoodPayload>) =>
+      apiClient.logFood(payload, { idempotencyKey }),
     onSuccess: (data) => {
       // Invalidate and refetch food logs for the user
       queryClient.invalidateQueries({ queryKey: ['foodLogs', data.userKey] });
     },
   });
 };
+
+const toUpdateFoodPayload = (
+  userKey: string,
+  { mainIngredients, ...changes }: FoodEntryChanges,
+  storedIngredients?: IngredientNutrition[],
+): UpdateFoodPayload => ({
+  userKey,
+  ...changes,
+  // Kept ingredients keep their colors and amounts; new names are neutral
+  ...(mainIngredients
+    ? { ingredients: toFoodIngredients(mainIngredients, storedIngredients) }
+    : {}),
+});
+
+const getStoredIngredients = (
+  id: string,
+): IngredientNutrition[] | undefined => {
+  const entry = useHealthTrackerStore
+    .getState()
+    .entries.find((stored) => stored.id === id);
+  return entry?.type === 'food' ? entry.ingredientNutrition : undefined;
+};
+
+/**
+ * Corrects a saved entry; the local copy changes immediately and rolls back on failure
+ */
+export const useUpdateEntryMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (
+      request: EntryUpdateRequest,
+    ): Promise<UpdateExerciseResponse | UpdateFoodResponse> =>
+      request.type === 'exercise'
+        ? apiClient.updateExercise(request.id, {
+            userKey: request.userKey,
+            ...request.changes,
+          })
+        : apiClient.updateFood(
+            request.id,
+            toUpdateFoodPayload(
+              request.userKey,
+              request.changes,
+              getStoredIngredients(request.id),
+            ),
+          ),
+    onMutate: (request) => {
+      const { entries, updateEntry } = useHealthTrackerStore.getState();
+      const previous = entries.find((entry) => entry.id === request.id);
+      updateEntry(request.id, request.changes);
+      return { previous };
+    },
+    onError: (_error, _request, context) => {
+      if (context?.previous) {
+        useHealthTrackerStore.getState().restoreEntry(context.previous);
+      }
+    },
+    onSuccess: (_data, request) => {
+      queryClient.invalidateQueries({
+        queryKey: [
+          request.type === 'exercise' ? 'exerciseLogs' : 'foodLogs',
+          request.userKey,
+        ],
+      });
+    },
+  });
+};
+
+/**
+ * Deletes a saved entry; it disappears immediately and comes back on failure
+ */
+export const useDeleteEntryMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ entry, userKey }: EntryDeleteRequest) =>
+      entry.type === 'exercise'
+        ? apiClient.deleteExercise(entry.id, userKey)
+        : apiClient.deleteFood(entry.id, userKey),
+    onMutate: ({ entry }) => {
+      useHealthTrackerStore.getState().removeEntry(entry.id);
+    },
+    onError: (_error, { entry }) => {
+      useHealthTrackerStore.getState().restoreEntry(entry);
+    },
+    onSuccess: (_data, { entry, userKey }) => {
+      queryClient.invalidateQueries({
+        queryKey: [
+          entry.type === 'exercise' ? 'exerciseLogs' : 'foodLogs',
+          userKey,
+        ],
+      });
+    },
+  });
+};
@@ -0,0 +1,45 @@
+import { useEffect, useMemo } from 'react';
+import { useGoalsStore } from '../store/goals';
+import { useHealthTrackerStore } from '../store/healthTracker';
+import { formatLocalDate, getWeekStart } from '../utils/dataTransformers';
+import {
+  calculateStreaks,
+  calculateWeeklyGoalProgress,
+  getAchievementProgress,
+} from '../utils/goals';
+
+/**
+ * Streaks, weekly goal progress and achievements from the stored entries
+ * Newly reached achievements are recorded so they stay unlocked
+ */
+export const useGoals = (weekStart: string = getWeekStart()) => {
+  const entries = useHealthTrackerStore((state) => state.entries);
+  const goals = useGoalsStore((state) => state.goals);
+  const unlockedAchievements = useGoalsStore(
+    (state) => state.unlockedAchievements,
+  );
+  const recordUnlocks = useGoalsStore((state) => state.recordUnlocks);
+
+  const streaks = useMemo(() => calculateStreaks(entries), [entries]);
+  const weeklyProgress = useMemo(
+    () => calculateWeeklyGoalProgress(entries, goals, weekStart),
+    [entries, goals, weekStart],
+  );
+  const achievements = useMemo(
+    () => getAchievementProgress(entries, unlockedAchievements, streaks),
+    [entries, unlockedAchievements, streaks],
+  );
+
+  useEffect(() => {
+    const reached = achievements
+      .filter(
+        (achievement) => achievement.isUnlocked && !achievement.unlockedAt,
+      )
+      .map((achievement) => achievement.id);
+    if (reached.length > 0) {
+      recordUnlocks(reached, formatLocalDate(new Date()));
+    }
+  }, [achievements, recordUnlocks]);
+
+  return { goals, streaks, weeklyProgress, achievements };
+};
@@ -0,0 +1,10 @@
+import { resolveUserKey } from '../services/session';
+import { useAuthStore } from '../store/authStore';
+
+/**
+ * User key of the current session, or null when nobody is signed in
+ */
+export const useSessionUserKey = (): string | null => {
+  const userKey = useAuthStore((state) => state.userKey);
+  return resolveUserKey(userKey);
+};
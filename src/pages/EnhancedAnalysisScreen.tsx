@@ -2,9 +2,10 @@ import { createRoute, useNavigation } from '@granite-js/react-native';
 import React from 'react';
 import { useAnalysisNavigationStore } from '../store/analysisNavigation';
 import { EnhancedAnalysisScreen } from './enhanced-analysis/EnhancedAnalysisScreen';
+import { withSession } from './login/withSession';
 
 export const Route = createRoute('/enhanced-analysis', {
-  component: EnhancedAnalysisPage,
+  component: withSession(EnhancedAnalysisPage),
 });
 
 function EnhancedAnalysisPage() {
@@ -21,13 +21,14 @@ import { useImageMemoryMonitor } from '../hooks/useImageProcessing';
 import { useImageSelection } from '../hooks/useImageSelection';
 import { getAnalysisService } from '../services/AnalysisServiceFactory';
 import { useAnalysisNavigationStore } from '../store/analysisNavigation';
-import type { GeminiExerciseResponse } from '../types';
+import type { GeminiExerciseListResponse } from '../types';
 import { ErrorHandlingUtils, type AppError } from '../utils/errorHandling';
 import { compressImage } from '../utils/imageCompression';
+import { withSession } from './login/withSession';
 
 // @ts-ignore - Granite routing type issue
 export const Route = createRoute('/exercise-upload', {
-  component: ExerciseUploadScreen,
+  component: withSession(ExerciseUploadScreen),
 });
 
 function ExerciseUploadScreen() {
@@ -57,13 +58,13 @@ function ExerciseUploadScreen() {
   // Remove health tracker store usage since save logic moved to enhanced analysis screen
 
   // Image analysis with progress tracking
-  const imageUpload = useAsyncOperation<GeminiExerciseResponse>(
+  const imageUpload = useAsyncOperation<GeminiExerciseListResponse>(
     async (imageUri: string) => {
       const result = await getAnalysisService().analyzeExerciseScreenshot(imageUri);
       return result;
     },
     {
-      onSuccess: (result: GeminiExerciseResponse) => {
+      onSuccess: (result: GeminiExerciseListResponse) => {
         // Store navigation data and navigate to enhanced analysis screen
         setNavigationData({
           imageUri: selectedImage!,
@@ -1,9 +1,10 @@
 import { createRoute } from '@granite-js/react-native';
 import { FoodUploadScreen } from './food-upload/FoodUploadScreen';
+import { withSession } from './login/withSession';
 
 export const Route = createRoute('/food-upload', {
-  component: () => {
+  component: withSession(() => {
     const navigation = Route.useNavigation();
     return <FoodUploadScreen navigation={navigation} />;
-  },
+  }),
 });
@@ -0,0 +1,7 @@
+import { createRoute } from '@granite-js/react-native';
+import { HistoryScreen } from './history/HistoryScreen';
+import { withSession } from './login/withSession';
+
+export const Route = createRoute('/history', {
+  component: withSession(HistoryScreen),
+});
@@ -1,9 +1,28 @@
 import { createRoute } from '@granite-js/react-native';
+import { useEffect } from 'react';
+import { useSessionUserKey } from '../hooks/useSession';
+import { useAuthRedirectStore } from '../store/authRedirect';
+import { useAuthStore } from '../store/authStore';
 import { LoginScreen } from './login/LoginScreen';
 
-export const Route = createRoute('/food-upload', {
-  component: () => {
-    const navigation = Route.useNavigation();
-    return <LoginScreen navigation={navigation} />;
-  },
+function LoginRoute() {
+  const navigation = Route.useNavigation();
+  const userKey = useSessionUserKey();
+  const hasHydrated = useAuthStore((state) => state.hasHydrated);
+
+  // Return to the route that sent the user here, or home
+  useEffect(() => {
+    if (!hasHydrated || !userKey) {
+      return;
+    }
+    const { pendingRoute, clearPendingRoute } = useAuthRedirectStore.getState();
+    clearPendingRoute();
+    navigation.replace(pendingRoute?.path ?? '/', pendingRoute?.params);
+  }, [hasHydrated, userKey, navigation]);
+
+  return <LoginScreen />;
+}
+
+export const Route = createRoute('/login', {
+  component: LoginRoute,
 });
@@ -0,0 +1,7 @@
+import { createRoute } from '@granite-js/react-native';
+import { withSession } from './login/withSession';
+import { ProfileScreen } from './profile/ProfileScreen';
+
+export const Route = createRoute('/profile', {
+  component: withSession(ProfileScreen),
+});
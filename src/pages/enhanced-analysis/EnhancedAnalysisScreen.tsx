@@ -1,23 +1,59 @@
-import React, { useState } from 'react';
+import { saveBase64Data } from '@apps-in-toss/framework';
+import React, { useMemo, useRef, useState } from 'react';
 import {
+  Alert,
   StatusBar,
   Text,
   TouchableOpacity,
   View,
 } from 'react-native';
+import { captureRef } from 'react-native-view-shot';
 import {
   ConfirmationDialog,
   ErrorMessage,
   FloatingAnalysisResults,
   ImageBackgroundContainer,
+  NutritionBreakdown,
+  ShareCardBottomSheet,
   SuccessMessage,
 } from '../../components';
 import {
   useLogExerciseMutation,
   useLogFoodMutation,
 } from '../../hooks/useApiMutations';
-import type { GeminiExerciseResponse, GeminiFoodResponse } from '../../types';
+import { requireUserKey } from '../../services/session';
+import {
+  isRetryableUploadError,
+  queueExerciseUpload,
+  queueFoodUpload,
+} from '../../services/uploadQueue';
+import { useHealthTrackerStore } from '../../store/healthTracker';
+import { useProfileStore } from '../../store/profile';
+import type {
+  GeminiExerciseListResponse,
+  GeminiExerciseResponse,
+  GeminiFoodResponse,
+  UserProfile,
+} from '../../types';
+import type { LogExercisePayload, LogFoodPayload } from '../../types/api';
+import { getEditableFields } from '../../utils/analysisDataMapper';
+import { getLowConfidenceFields } from '../../utils/apiValidation';
+import {
+  estimateWorkoutCalories,
+  getCalorieCheck,
+  getCalorieField,
+} from '../../utils/calorieReference';
+import {
+  generateEntryId,
+  getCurrentDate,
+} from '../../utils/dataTransformers';
 import { ErrorHandlingUtils } from '../../utils/errorHandling';
+import { calculateStreaks } from '../../utils/goals';
+import { scaleFoodAnalysis } from '../../utils/nutrition';
+import {
+  type ShareCardContent,
+  buildShareCardContent,
+} from '../../utils/shareCard';
 import { styles } from './styles';
 
 interface EnhancedAnalysisScreenProps {
@@ -25,12 +61,31 @@ interface EnhancedAnalysisScreenProps {
   route: {
     params: {
       imageUri: string;
-      analysisResult: GeminiFoodResponse | GeminiExerciseResponse;
+      analysisResult: GeminiFoodResponse | GeminiExerciseListResponse;
       entryType: 'food' | 'exercise';
     };
   };
 }
 
+type AnalysisItem = GeminiFoodResponse | GeminiExerciseResponse;
+
+// Editing these recalculates calories the user has not entered by hand
+const CALORIE_INPUT_FIELDS = ['exerciseType', 'duration', 'distance'];
+
+// Screenshots without a calorie figure come back as 0; the app computes it instead
+const fillMissingCalories = (
+  workout: GeminiExerciseResponse,
+  profile: UserProfile,
+): GeminiExerciseResponse =>
+  workout.calories > 0
+    ? workout
+    : { ...workout, calories: estimateWorkoutCalories(workout, profile) };
+
+// A confirmed entry waiting to be sent, keyed for deduplication
+type PendingUpload =
+  | { index: number; idempotencyKey: string; food: LogFoodPayload }
+  | { index: number; idempotencyKey: string; exercise: LogExercisePayload };
+
 export function EnhancedAnalysisScreen({
   navigation,
   route,
@@ -47,15 +102,94 @@ export function EnhancedAnalysisScreen({
   const foodMutation = useLogFoodMutation();
   const exerciseMutation = useLogExerciseMutation();
 
+  // A food photo is one entry; an exercise screenshot may hold several workouts
+  const initialItems = useMemo<AnalysisItem[]>(
+    () =>
+      entryType === 'food'
+        ? [analysisResult as GeminiFoodResponse]
+        : (analysisResult as GeminiExerciseListResponse).workouts,
+    [analysisResult, entryType],
+  );
+  const profile = useProfileStore((state) => state.profile);
+  const [items, setItems] = useState<AnalysisItem[]>(() =>
+    entryType === 'food'
+      ? initialItems
+      : initialItems.map((item) =>
+          fillMissingCalories(item as GeminiExerciseResponse, profile),
+        ),
+  );
+  // Workouts whose calories the user typed in; those are never recalculated
+  const [manualCalorieIndexes, setManualCalorieIndexes] = useState<number[]>(
+    [],
+  );
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [excludedIndexes, setExcludedIndexes] = useState<number[]>([]);
+  const modifiedData = items[activeIndex] ?? initialItems[0];
+  const isMultiple = items.length > 1;
+  // Portion multiplier of a food analysis; items keep the analyzed serving
+  const [portion, setPortion] = useState(1);
+  const displayData =
+    entryType === 'food' && modifiedData
+      ? scaleFoodAnalysis(modifiedData as GeminiFoodResponse, portion)
+      : modifiedData;
+  const selectedCount = items.length - excludedIndexes.length;
+
+  // Fields the analysis was unsure about, calories far from the offline
+  // reference and calories the app filled in must be reviewed before saving;
+  // tracked as "<item index>:<field>"
+  const lowConfidenceFields = useMemo(
+    () =>
+      initialItems.map((item) => {
+        const fields = getLowConfidenceFields(
+          item,
+          getEditableFields(entryType),
+        );
+        const calorieField = getCalorieField(entryType);
+        const isMissing =
+          entryType === 'exercise' &&
+          (item as GeminiExerciseResponse).calories <= 0;
+        const isImplausible =
+          getCalorieCheck(item, entryType, profile)?.isPlausible === false;
+        return (isMissing || isImplausible) && !fields.includes(calorieField)
+          ? [...fields, calorieField]
+          : fields;
+      }),
+    [initialItems, entryType, profile],
+  );
+  const [reviewedFields, setReviewedFields] = useState<string[]>([]);
+  const getUncertainFields = (index: number) =>
+    (lowConfidenceFields[index] ?? []).filter(
+      (field) => !reviewedFields.includes(`${index}:${field}`),
+    );
+  const uncertainFields = excludedIndexes.includes(activeIndex)
+    ? []
+    : getUncertainFields(activeIndex);
+  // Deselected workouts are not saved, so they need no review
+  const unreviewedIndex = items.findIndex(
+    (_, index) =>
+      !excludedIndexes.includes(index) && getUncertainFields(index).length > 0,
+  );
+
   // State for editing mode and modified data
-  const [isEditing, setIsEditing] = useState(false);
-  const [modifiedData, setModifiedData] = useState<
-    GeminiFoodResponse | GeminiExerciseResponse
-  >(analysisResult);
+  const [isEditing, setIsEditing] = useState(
+    lowConfidenceFields.some((fields) => fields.length > 0),
+  );
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [showSuccessMessage, setShowSuccessMessage] = useState(false);
   const [showExitConfirmation, setShowExitConfirmation] = useState(false);
   const [showSaveConfirmation, setShowSaveConfirmation] = useState(false);
+  const [savedOffline, setSavedOffline] = useState(false);
+  const [shareCardContent, setShareCardContent] =
+    useState<ShareCardContent | null>(null);
+  const [isSavingShareCard, setIsSavingShareCard] = useState(false);
+  const shareCardRef = useRef<View>(null);
+  const navigateHomeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(
+    null,
+  );
+  // One key per confirmed entry so retries and offline replays are deduplicated
+  const idempotencyKeysRef = useRef(initialItems.map(() => generateEntryId()));
+  // Entries already stored, skipped when a failed bulk save is retried
+  const savedIndexesRef = useRef<number[]>([]);
 
   const handleGoBack = () => {
     if (
@@ -79,6 +213,17 @@ export function EnhancedAnalysisScreen({
   };
 
   const handleSaveClick = () => {
+    // Send the user back to the values that still need a look
+    if (unreviewedIndex !== -1) {
+      setActiveIndex(unreviewedIndex);
+      setIsEditing(true);
+      return;
+    }
+
+    if (selectedCount === 0) {
+      return;
+    }
+
     // Show confirmation dialog before saving
     setShowSaveConfirmation(true);
   };
@@ -88,61 +233,190 @@ export function EnhancedAnalysisScreen({
 
     if (foodMutation.isPending || exerciseMutation.isPending) return;
 
-    // A static userKey for now, this should come from user session state
-    const userKey = '9af9778d-cf8f-4ebd-807c-f6d4873b5fcc';
+    // Get today's date in YYYY-MM-DD format (Korean timezone)
+    const now = new Date();
+    const koreanDate = new Date(now.getTime() + (9 * 60 * 60 * 1000)); // UTC+9
+    const todayDate = koreanDate.toISOString().split('T')[0] as string;
+    const uploads: PendingUpload[] = [];
 
     try {
-      // Get today's date in YYYY-MM-DD format (Korean timezone)
-      const now = new Date();
-      const koreanDate = new Date(now.getTime() + (9 * 60 * 60 * 1000)); // UTC+9
-      const todayDate = koreanDate.toISOString().split('T')[0] as string;
-
-      if (entryType === 'food') {
-        const foodData = modifiedData as GeminiFoodResponse;
-        const payload = {
-          userKey,
-          isHealthy: foodData.isHealthy,
-          ingredients: foodData.ingredients,
-          estimatedCalories: foodData.estimatedCalories,
-          mealType: foodData.mealType,
-          date: todayDate,
-        };
-        console.log('💾 Saving food data - Modified Data:', JSON.stringify(foodData, null, 2));
-        console.log('💾 Saving food data - Ingredients:', foodData.ingredients);
-        console.log('💾 Saving food data - Payload:', JSON.stringify(payload, null, 2));
-        await foodMutation.mutateAsync(payload);
-      } else {
-        const exerciseData = modifiedData as GeminiExerciseResponse;
-        await exerciseMutation.mutateAsync({
-          userKey,
-          exerciseType: exerciseData.exerciseType,
-          duration: exerciseData.duration,
-          calories: exerciseData.calories,
-          distance: exerciseData.distance,
-          date: todayDate,
-        });
+      const userKey = requireUserKey();
+
+      items.forEach((item, index) => {
+        if (
+          excludedIndexes.includes(index) ||
+          savedIndexesRef.current.includes(index)
+        ) {
+          return;
+        }
+        const idempotencyKey =
+          idempotencyKeysRef.current[index] ?? generateEntryId();
+
+        if (entryType === 'food') {
+          const foodData = scaleFoodAnalysis(
+            item as GeminiFoodResponse,
+            portion,
+          );
+          uploads.push({
+            index,
+            idempotencyKey,
+            food: {
+              userKey,
+              isHealthy: foodData.isHealthy,
+              ingredients: foodData.ingredients,
+              estimatedCalories: foodData.estimatedCalories,
+              ...(foodData.macros ? { macros: foodData.macros } : {}),
+              portion,
+              mealType: foodData.mealType,
+              date: todayDate,
+            },
+          });
+        } else {
+          const exerciseData = item as GeminiExerciseResponse;
+          uploads.push({
+            index,
+            idempotencyKey,
+            exercise: {
+              userKey,
+              exerciseType: exerciseData.exerciseType,
+              duration: exerciseData.duration,
+              calories: exerciseData.calories,
+              distance: exerciseData.distance,
+              date: todayDate,
+            },
+          });
+        }
+      });
+    } catch (error) {
+      reportSaveError(error);
+      return;
+    }
+
+    for (const [position, upload] of uploads.entries()) {
+      try {
+        if ('food' in upload) {
+          await foodMutation.mutateAsync({
+            payload: upload.food,
+            idempotencyKey: upload.idempotencyKey,
+          });
+        } else {
+          await exerciseMutation.mutateAsync({
+            payload: upload.exercise,
+            idempotencyKey: upload.idempotencyKey,
+          });
+        }
+        savedIndexesRef.current.push(upload.index);
+      } catch (error) {
+        // Keep this and every remaining entry in the outbox when the connection is the problem
+        if (isRetryableUploadError(error)) {
+          for (const pending of uploads.slice(position)) {
+            if ('food' in pending) {
+              queueFoodUpload(pending.food, pending.idempotencyKey);
+            } else {
+              queueExerciseUpload(pending.exercise, pending.idempotencyKey);
+            }
+          }
+          foodMutation.reset();
+          exerciseMutation.reset();
+          completeSave(true);
+          return;
+        }
+
+        reportSaveError(error);
+        return;
       }
+    }
+
+    completeSave(false);
+  };
+
+  const reportSaveError = (error: unknown) => {
+    const appError = ErrorHandlingUtils.handleProcessingError(
+      error instanceof Error ? error : new Error(String(error)),
+      'Enhanced analysis save',
+    );
+    ErrorHandlingUtils.logError(appError, 'Enhanced analysis save');
+  };
+
+  const completeSave = (isOffline: boolean) => {
+    setHasUnsavedChanges(false);
+    setSavedOffline(isOffline);
+    setShowSuccessMessage(true);
+
+    // Auto-hide success message and navigate back
+    navigateHomeTimerRef.current = setTimeout(() => {
+      setShowSuccessMessage(false);
+      navigateHome();
+    }, 2000);
+  };
+
+  const navigateHome = () => {
+    navigation.reset({
+      index: 0,
+      routes: [{ name: '/' }],
+    });
+  };
 
-      setHasUnsavedChanges(false);
-      setShowSuccessMessage(true);
-
-      // Auto-hide success message and navigate back
-      setTimeout(() => {
-        setShowSuccessMessage(false);
-        navigation.reset({
-          index: 0,
-          routes: [{ name: '/' }],
-        });
-      }, 2000);
+  // Stays on the screen until the card is closed, then goes home as usual
+  const openShareCard = () => {
+    if (navigateHomeTimerRef.current) {
+      clearTimeout(navigateHomeTimerRef.current);
+      navigateHomeTimerRef.current = null;
+    }
+    setShowSuccessMessage(false);
+
+    // The card shows the current item when it was saved, otherwise the first saved one
+    const savedIndex = savedIndexesRef.current.includes(activeIndex)
+      ? activeIndex
+      : (savedIndexesRef.current[0] ?? activeIndex);
+    const savedItem =
+      savedIndex === activeIndex ? displayData : items[savedIndex];
+    if (!savedItem) {
+      navigateHome();
+      return;
+    }
+    const { entries } = useHealthTrackerStore.getState();
+    setShareCardContent(
+      buildShareCardContent(
+        savedItem,
+        entryType,
+        getCurrentDate(),
+        calculateStreaks(entries).current,
+      ),
+    );
+  };
+
+  // Captures the card as shown in the sheet and hands the PNG to the device
+  const handleSaveShareCard = async () => {
+    if (!shareCardContent || isSavingShareCard) return;
+    setIsSavingShareCard(true);
+    try {
+      const data = await captureRef(shareCardRef, {
+        format: 'png',
+        result: 'base64',
+      });
+      await saveBase64Data({
+        data,
+        fileName: `certification-${getCurrentDate()}.png`,
+        mimeType: 'image/png',
+      });
+      Alert.alert('저장 완료', '인증 카드 이미지를 저장했어요.');
     } catch (error) {
-      const appError = ErrorHandlingUtils.handleProcessingError(
-        error instanceof Error ? error : new Error(String(error)),
-        'Enhanced analysis save',
+      console.error('Save share card failed:', error);
+      Alert.alert(
+        '오류',
+        '인증 카드 이미지를 저장하지 못했어요. 다시 시도해주세요.',
       );
-      ErrorHandlingUtils.logError(appError, 'Enhanced analysis save');
+    } finally {
+      setIsSavingShareCard(false);
     }
   };
 
+  const closeShareCard = () => {
+    setShareCardContent(null);
+    navigateHome();
+  };
+
   const handleEditFromDialog = () => {
     setShowSaveConfirmation(false);
     setIsEditing(true);
@@ -151,42 +425,84 @@ export function EnhancedAnalysisScreen({
 
 
   const handleItemEdit = (key: string, value: string) => {
-    // Update the modified data with the new value
-    setModifiedData((prevData) => {
-      const newData = { ...prevData };
-
-      // Handle different field types based on the key
-      if (
-        key === 'estimatedCalories' ||
-        key === 'calories' ||
-        key === 'duration'
-      ) {
-        // Extract numeric value from strings like "250kcal" or "30분"
-        const numericMatch = value.match(/(\d+)/);
-        const numericValue = numericMatch ? Number(numericMatch[1]) : 0;
-        (newData as GeminiFoodResponse & GeminiExerciseResponse)[key] =
-          numericValue;
-      } else if (key === 'distance') {
-        // Extract numeric value from strings like "5.2km"
-        const numericMatch = value.match(/(\d+(?:\.\d+)?)/);
-        const numericValue = numericMatch ? Number(numericMatch[1]) : 0;
-        (newData as GeminiFoodResponse & GeminiExerciseResponse)[key] =
-          numericValue;
-      } else if (key === 'ingredients') {
-        const ingredientNames = value.split(',').map((item) => item.trim());
-        (newData as GeminiFoodResponse & GeminiExerciseResponse)[key] =
-          ingredientNames.map((name) => ({ name, color: 'teal' }));
-      } else if (key === 'isHealthy') {
-        (newData as GeminiFoodResponse & GeminiExerciseResponse)[key] =
-          value.toLowerCase() === 'true' || value === '건강함';
-      } else {
-        // Handle other string fields like mealType, exerciseType, date, etc.
-        (newData as any)[key] = value;
-      }
+    const index = activeIndex;
+    const recalculatesCalories =
+      entryType === 'exercise' &&
+      CALORIE_INPUT_FIELDS.includes(key) &&
+      !manualCalorieIndexes.includes(index);
 
-      return newData;
-    });
+    // Update the modified data with the new value
+    setItems((prevItems) =>
+      prevItems.map((prevData, itemIndex) => {
+        if (itemIndex !== index) {
+          return prevData;
+        }
+
+        const newData = { ...prevData };
+
+        // Handle different field types based on the key
+        if (
+          key === 'estimatedCalories' ||
+          key === 'calories' ||
+          key === 'duration'
+        ) {
+          // Extract numeric value from strings like "250kcal" or "30분"
+          const numericMatch = value.match(/(\d+)/);
+          const numericValue = numericMatch ? Number(numericMatch[1]) : 0;
+          // Food totals are edited at the shown portion; store the analyzed serving
+          (newData as GeminiFoodResponse & GeminiExerciseResponse)[key] =
+            entryType === 'food' ? numericValue / portion : numericValue;
+        } else if (key === 'distance') {
+          // Extract numeric value from strings like "5.2km"
+          const numericMatch = value.match(/(\d+(?:\.\d+)?)/);
+          const numericValue = numericMatch ? Number(numericMatch[1]) : 0;
+          (newData as GeminiFoodResponse & GeminiExerciseResponse)[key] =
+            numericValue;
+        } else if (key === 'ingredients') {
+          const ingredientNames = value
+            .split(',')
+            .map((item) => item.trim());
+          // Renamed or added ingredients lose their estimated amounts
+          const previous = (prevData as GeminiFoodResponse).ingredients ?? [];
+          (newData as GeminiFoodResponse & GeminiExerciseResponse)[key] =
+            ingredientNames.map(
+              (name) =>
+                previous.find((ingredient) => ingredient.name === name) ?? {
+                  name,
+                  color: 'teal',
+                },
+            );
+        } else if (key === 'isHealthy') {
+          (newData as GeminiFoodResponse & GeminiExerciseResponse)[key] =
+            value.toLowerCase() === 'true' || value === '건강함';
+        } else {
+          // Handle other string fields like mealType, exerciseType, date, etc.
+          (newData as any)[key] = value;
+        }
+
+        if (recalculatesCalories) {
+          const workout = newData as GeminiExerciseResponse;
+          workout.calories = estimateWorkoutCalories(workout, profile);
+        }
+
+        return newData;
+      }),
+    );
+
+    if (entryType === 'exercise' && key === 'calories') {
+      setManualCalorieIndexes((prev) =>
+        prev.includes(index) ? prev : [...prev, index],
+      );
+    }
 
+    // Recalculated calories follow from the values the user just checked
+    const reviewKeys = recalculatesCalories
+      ? [`${index}:${key}`, `${index}:calories`]
+      : [`${index}:${key}`];
+    setReviewedFields((prev) => [
+      ...prev,
+      ...reviewKeys.filter((reviewKey) => !prev.includes(reviewKey)),
+    ]);
     setHasUnsavedChanges(true);
   };
 
@@ -194,6 +510,20 @@ export function EnhancedAnalysisScreen({
     setIsEditing(!isEditing);
   };
 
+  const toggleActiveIncluded = () => {
+    setExcludedIndexes((prev) =>
+      prev.includes(activeIndex)
+        ? prev.filter((index) => index !== activeIndex)
+        : [...prev, activeIndex],
+    );
+    setHasUnsavedChanges(true);
+  };
+
+  const resetMutations = () => {
+    foodMutation.reset();
+    exerciseMutation.reset();
+  };
+
   const mutationError = foodMutation.error || exerciseMutation.error;
   const isSaving = foodMutation.isPending || exerciseMutation.isPending;
 
@@ -236,29 +566,98 @@ export function EnhancedAnalysisScreen({
 
       {/* Analysis Results Container */}
       <View style={styles.analysisContainer}>
-        <FloatingAnalysisResults
-          analysisData={modifiedData}
-          entryType={entryType}
-          onItemEdit={handleItemEdit}
-          isEditing={isEditing}
-        />
+        {uncertainFields.length > 0 && (
+          <View style={styles.reviewNotice}>
+            <Text style={styles.reviewNoticeText}>
+              확인이 필요한 항목이 {uncertainFields.length}개 있어요. 표시된
+              항목을 눌러 확인하거나 수정해주세요.
+            </Text>
+          </View>
+        )}
+        {isMultiple && (
+          <View style={styles.workoutTabs}>
+            {items.map((item, index) => {
+              const isExcluded = excludedIndexes.includes(index);
+              return (
+                <TouchableOpacity
+                  key={idempotencyKeysRef.current[index]}
+                  style={[
+                    styles.workoutTab,
+                    index === activeIndex && styles.workoutTabActive,
+                    isExcluded && styles.workoutTabExcluded,
+                  ]}
+                  onPress={() => setActiveIndex(index)}
+                >
+                  <Text
+                    style={[
+                      styles.workoutTabText,
+                      isExcluded && styles.workoutTabTextExcluded,
+                    ]}
+                  >
+                    {(item as GeminiExerciseResponse).exerciseType}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
+        {displayData && (
+          <FloatingAnalysisResults
+            analysisData={displayData}
+            entryType={entryType}
+            onItemEdit={handleItemEdit}
+            isEditing={isEditing}
+            uncertainFields={uncertainFields}
+            profile={profile}
+          />
+        )}
+        {entryType === 'food' && displayData && (
+          <NutritionBreakdown
+            food={displayData as GeminiFoodResponse}
+            portion={portion}
+            onPortionChange={(nextPortion) => {
+              setPortion(nextPortion);
+              setHasUnsavedChanges(true);
+            }}
+          />
+        )}
+        {isMultiple && (
+          <TouchableOpacity
+            style={styles.includeToggle}
+            onPress={toggleActiveIncluded}
+          >
+            <Text style={styles.includeToggleText}>
+              {excludedIndexes.includes(activeIndex)
+                ? '이 운동도 저장하기'
+                : '이 운동은 저장하지 않기'}
+            </Text>
+          </TouchableOpacity>
+        )}
       </View>
 
       {/* Action Footer - Fixed at bottom */}
       <View style={styles.footer}>
         <View style={styles.footerContent}>
           <TouchableOpacity
-            style={[styles.saveButton, isSaving && styles.saveButtonDisabled]}
+            style={[
+              styles.saveButton,
+              (isSaving || selectedCount === 0) && styles.saveButtonDisabled,
+            ]}
             onPress={handleSaveClick}
-            disabled={isSaving}
+            disabled={isSaving || selectedCount === 0}
           >
             <Text
               style={[
                 styles.saveButtonText,
-                isSaving && styles.saveButtonTextDisabled,
+                (isSaving || selectedCount === 0) &&
+                  styles.saveButtonTextDisabled,
               ]}
             >
-              {isSaving ? '저장 중...' : '저장하기'}
+              {isSaving
+                ? '저장 중...'
+                : isMultiple
+                  ? `${selectedCount}개 저장하기`
+                  : '저장하기'}
             </Text>
           </TouchableOpacity>
         </View>
@@ -269,32 +668,44 @@ export function EnhancedAnalysisScreen({
       {showSuccessMessage && (
         <View style={styles.successOverlay}>
           <SuccessMessage
-            message="분석 결과가 저장되었습니다!"
+            message={
+              savedOffline
+                ? '연결이 불안정해 기기에 먼저 저장했어요. 연결되면 자동으로 동기화됩니다.'
+                : isMultiple
+                  ? `${selectedCount}개의 운동이 저장되었습니다!`
+                  : '분석 결과가 저장되었습니다!'
+            }
             style={styles.successMessage}
           />
+          <TouchableOpacity
+            style={styles.shareCardButton}
+            onPress={openShareCard}
+          >
+            <Text style={styles.shareCardButtonText}>인증 카드 만들기</Text>
+          </TouchableOpacity>
         </View>
       )}
 
+      <ShareCardBottomSheet
+        visible={shareCardContent !== null}
+        onClose={closeShareCard}
+        imageUri={imageUri}
+        content={shareCardContent}
+        cardRef={shareCardRef}
+        onSave={handleSaveShareCard}
+        isSaving={isSavingShareCard}
+      />
+
       {/* Error Message */}
       {mutationError && (
         <View style={styles.errorOverlay}>
           <ErrorMessage
             error={ErrorHandlingUtils.handleApiError(mutationError)}
             onRetry={() => {
-              if (entryType === 'food') {
-                foodMutation.reset();
-              } else {
-                exerciseMutation.reset();
-              }
+              resetMutations();
               handleConfirmSave();
             }}
-            onDismiss={() => {
-              if (entryType === 'food') {
-                foodMutation.reset();
-              } else {
-                exerciseMutation.reset();
-              }
-            }}
+            onDismiss={resetMutations}
             style={styles.errorMessage}
           />
         </View>
@@ -11,6 +11,62 @@ export const styles = StyleSheet.create({
     paddingTop: 60, // Header 높이만큼 여백
     paddingBottom: 220, // Footer 높이만큼 여백
   },
+  reviewNotice: {
+    width: '100%',
+    backgroundColor: 'rgba(246, 173, 85, 0.9)',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginBottom: 16,
+  },
+  reviewNoticeText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1A202C',
+    textAlign: 'center',
+  },
+  workoutTabs: {
+    width: '100%',
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  workoutTab: {
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.3)',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  workoutTabActive: {
+    backgroundColor: '#3182F6',
+    borderColor: '#3182F6',
+  },
+  workoutTabExcluded: {
+    opacity: 0.5,
+  },
+  workoutTabText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  workoutTabTextExcluded: {
+    textDecorationLine: 'line-through',
+  },
+  includeToggle: {
+    alignSelf: 'flex-end',
+    marginTop: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  includeToggleText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    textDecorationLine: 'underline',
+  },
   header: {
     backgroundColor: 'rgba(0, 0, 0, 0.4)',
     borderBottomWidth: 1,
@@ -131,6 +187,19 @@ export const styles = StyleSheet.create({
   successMessage: {
     marginHorizontal: 20,
   },
+  shareCardButton: {
+    alignSelf: 'center',
+    marginTop: 12,
+    backgroundColor: '#3182F6',
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderRadius: 12,
+  },
+  shareCardButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
   errorOverlay: {
     position: 'absolute',
     top: 100,
@@ -0,0 +1,77 @@
+import { Text, TouchableOpacity, View } from 'react-native';
+import { type DaySummary, buildMonthGrid } from '../../utils/calendar';
+import { styles } from './styles';
+
+interface CalendarMonthProps {
+  month: string; // YYYY-MM
+  summary: Record<string, DaySummary>;
+  selectedDate: string | null;
+  today: string;
+  onSelectDate: (date: string) => void;
+}
+
+const WEEKDAYS = ['월', '화', '수', '목', '금', '토', '일'];
+
+export function CalendarMonth({
+  month,
+  summary,
+  selectedDate,
+  today,
+  onSelectDate,
+}: CalendarMonthProps) {
+  const weeks = buildMonthGrid(month);
+
+  return (
+    <View style={styles.calendar}>
+      <View style={styles.weekRow}>
+        {WEEKDAYS.map((weekday) => (
+          <Text key={weekday} style={styles.weekdayLabel}>
+            {weekday}
+          </Text>
+        ))}
+      </View>
+      {weeks.map((week) => (
+        <View key={week.find(Boolean)} style={styles.weekRow}>
+          {week.map((date, index) => {
+            if (!date) {
+              return <View key={WEEKDAYS[index]} style={styles.dayCell} />;
+            }
+            const day = summary[date];
+            const isFuture = date > today;
+            return (
+              <TouchableOpacity
+                key={date}
+                style={[
+                  styles.dayCell,
+                  date === selectedDate && styles.dayCellSelected,
+                ]}
+                onPress={() => onSelectDate(date)}
+                disabled={isFuture}
+              >
+                <Text
+                  style={[
+                    styles.dayNumber,
+                    date === today && styles.dayNumberToday,
+                    isFuture && styles.dayNumberFuture,
+                  ]}
+                >
+                  {Number(date.slice(8))}
+                </Text>
+                <View style={styles.dayIndicators}>
+                  {day && day.exerciseCount > 0 && (
+                    <View
+                      style={[styles.indicator, styles.exerciseIndicator]}
+                    />
+                  )}
+                  {day && day.foodCount > 0 && (
+                    <View style={[styles.indicator, styles.foodIndicator]} />
+                  )}
+                </View>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      ))}
+    </View>
+  );
+}
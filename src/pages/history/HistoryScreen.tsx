@@ -0,0 +1,194 @@
+import { Result } from '@toss/tds-react-native';
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import { ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import { InlineError } from '../../components/feedback';
+import { useSessionUserKey } from '../../hooks/useSession';
+import { useHealthTrackerStore } from '../../store/healthTracker';
+import type { AuthenticationEntry } from '../../types';
+import {
+  addMonths,
+  getMonthOf,
+  getMonthRange,
+  summarizeMonth,
+} from '../../utils/calendar';
+import {
+  formatLocalDate,
+  getEntriesByDateRange,
+  sortEntriesByDate,
+} from '../../utils/dataTransformers';
+import type { AppError } from '../../utils/errorHandling';
+import { RecentEntryItem } from '../main/RecentEntryItem';
+import { CalendarMonth } from './CalendarMonth';
+import { styles } from './styles';
+
+const formatMonth = (month: string): string => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return `${year}년 ${monthIndex}월`;
+};
+
+const formatDay = (date: string): string => {
+  const [, month, day] = date.split('-').map(Number);
+  return `${month}월 ${day}일`;
+};
+
+export function HistoryScreen() {
+  const entries = useHealthTrackerStore((state) => state.entries);
+  const isLoading = useHealthTrackerStore((state) => state.isLoading);
+  const storeError = useHealthTrackerStore((state) => state.error);
+  const clearError = useHealthTrackerStore((state) => state.clearError);
+  const syncEntries = useHealthTrackerStore((state) => state.syncEntries);
+  const userKey = useSessionUserKey();
+
+  const today = formatLocalDate(new Date());
+  const currentMonth = getMonthOf(today);
+  const [month, setMonth] = useState(currentMonth);
+  const [selectedDate, setSelectedDate] = useState<string | null>(today);
+  const [expandedEntryId, setExpandedEntryId] = useState<string | null>(null);
+  // Months already pulled from the server while this screen is open
+  const loadedMonthsRef = useRef(new Set<string>());
+
+  const loadMonth = useCallback(
+    (targetMonth: string) => {
+      if (!userKey) return;
+      loadedMonthsRef.current.add(targetMonth);
+      syncEntries(userKey, getMonthRange(targetMonth));
+    },
+    [syncEntries, userKey],
+  );
+
+  // Older months are not part of the main screen's sync; load them on demand
+  useEffect(() => {
+    if (!loadedMonthsRef.current.has(month)) {
+      loadMonth(month);
+    }
+  }, [loadMonth, month]);
+
+  const summary = useMemo(
+    () => summarizeMonth(entries, month),
+    [entries, month],
+  );
+
+  const dayEntries = useMemo(
+    () =>
+      selectedDate
+        ? sortEntriesByDate(
+            getEntriesByDateRange(entries, selectedDate, selectedDate),
+          )
+        : [],
+    [entries, selectedDate],
+  );
+
+  const changeMonth = (months: number) => {
+    const nextMonth = addMonths(month, months);
+    setMonth(nextMonth);
+    setSelectedDate(nextMonth === currentMonth ? today : null);
+    setExpandedEntryId(null);
+  };
+
+  const retryLoad = () => {
+    clearError();
+    loadMonth(month);
+  };
+
+  const isCurrentMonth = month === currentMonth;
+  const syncError: AppError | null = storeError
+    ? { type: 'network', message: storeError.message, shouldRetry: true }
+    : null;
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.content}>
+        <View style={styles.header}>
+          <Text style={styles.title}>기록 달력</Text>
+          <Text style={styles.subtitle}>
+            날짜를 눌러 그날의 인증 기록을 확인해보세요
+          </Text>
+        </View>
+
+        {syncError && <InlineError error={syncError} onRetry={retryLoad} />}
+
+        <View style={styles.monthNavigator}>
+          <TouchableOpacity
+            style={styles.monthNavButton}
+            onPress={() => changeMonth(-1)}
+          >
+            <Text style={styles.monthNavButtonText}>◀</Text>
+          </TouchableOpacity>
+          <Text style={styles.monthTitle}>
+            {formatMonth(month)}
+            {isLoading ? ' ·' : ''}
+          </Text>
+          <TouchableOpacity
+            style={styles.monthNavButton}
+            onPress={() => changeMonth(1)}
+            disabled={isCurrentMonth}
+          >
+            <Text
+              style={[
+                styles.monthNavButtonText,
+                isCurrentMonth && styles.monthNavButtonTextDisabled,
+              ]}
+            >
+              ▶
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        <CalendarMonth
+          month={month}
+          summary={summary}
+          selectedDate={selectedDate}
+          today={today}
+          onSelectDate={(date) => {
+            setSelectedDate(date);
+            setExpandedEntryId(null);
+          }}
+        />
+
+        <View style={styles.legend}>
+          <View style={[styles.indicator, styles.exerciseIndicator]} />
+          <Text style={styles.legendText}>운동</Text>
+          <View style={[styles.indicator, styles.foodIndicator]} />
+          <Text style={styles.legendText}>식단</Text>
+        </View>
+
+        {selectedDate && (
+          <View style={styles.daySection}>
+            <Text style={styles.sectionTitle}>{formatDay(selectedDate)}</Text>
+            {dayEntries.length > 0 ? (
+              <View style={styles.entryList}>
+                {dayEntries.map((entry: AuthenticationEntry, index: number) => (
+                  <RecentEntryItem
+                    key={entry.id}
+                    entry={entry}
+                    isLast={index === dayEntries.length - 1}
+                    isExpanded={expandedEntryId === entry.id}
+                    onToggle={() =>
+                      setExpandedEntryId(
+                        expandedEntryId === entry.id ? null : entry.id,
+                      )
+                    }
+                  />
+                ))}
+              </View>
+            ) : (
+              <View style={styles.emptyState}>
+                <Result
+                  style={{ backgroundColor: 'white' }}
+                  figure={<Text style={styles.emptyStateIcon}>🗓️</Text>}
+                  title="이 날에는 인증 기록이 없어요"
+                />
+              </View>
+            )}
+          </View>
+        )}
+      </View>
+    </ScrollView>
+  );
+}
@@ -0,0 +1,141 @@
+import { StyleSheet } from 'react-native';
+
+export const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F7FAFC',
+  },
+  content: {
+    padding: 20,
+  },
+  header: {
+    marginBottom: 24,
+    paddingTop: 20,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#1A202C',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#4A5568',
+  },
+  monthNavigator: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 8,
+    marginBottom: 12,
+  },
+  monthNavButton: {
+    minWidth: 44,
+    minHeight: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  monthNavButtonText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#3182F6',
+  },
+  monthNavButtonTextDisabled: {
+    color: '#CBD5E0',
+  },
+  monthTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1A202C',
+  },
+  calendar: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 8,
+  },
+  weekRow: {
+    flexDirection: 'row',
+  },
+  weekdayLabel: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 12,
+    color: '#718096',
+    paddingVertical: 6,
+  },
+  dayCell: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderRadius: 8,
+    minHeight: 48,
+  },
+  dayCellSelected: {
+    backgroundColor: '#EBF4FF',
+  },
+  dayNumber: {
+    fontSize: 14,
+    color: '#1A202C',
+  },
+  dayNumberToday: {
+    fontWeight: 'bold',
+    color: '#3182F6',
+  },
+  dayNumberFuture: {
+    color: '#CBD5E0',
+  },
+  dayIndicators: {
+    flexDirection: 'row',
+    gap: 3,
+    marginTop: 4,
+    minHeight: 6,
+  },
+  indicator: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+  },
+  exerciseIndicator: {
+    backgroundColor: '#3182F6',
+  },
+  foodIndicator: {
+    backgroundColor: '#F6AD55',
+  },
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#718096',
+    marginRight: 8,
+  },
+  daySection: {
+    marginTop: 24,
+    marginBottom: 40,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1A202C',
+    marginBottom: 12,
+  },
+  entryList: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+  },
+  emptyState: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 32,
+    alignItems: 'center',
+  },
+  emptyStateIcon: {
+    fontSize: 48,
+    marginBottom: 16,
+  },
+});
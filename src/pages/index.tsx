@@ -1,20 +1,21 @@
 import { createRoute } from "@granite-js/react-native";
-import { useState } from "react";
-import { LoginScreen } from "./login/LoginScreen";
+import { LoadingIndicator } from "../components/feedback";
+import { useHealthTrackerStore } from "../store/healthTracker";
+import { withSession } from "./login/withSession";
 import { MainUploadScreen } from "./main/MainUploadScreen";
 
+// Set DEV_USER_KEY in development to skip Toss login
 function App() {
-  // TODO: Set to false for production
-  // Currently set to true to bypass login for development of other features
-  const [isLoggedIn, setIsLoggedIn] = useState(true);
+  const hasHydrated = useHealthTrackerStore((state) => state.hasHydrated);
 
-  if (!isLoggedIn) {
-    return <LoginScreen onLoginSuccess={() => setIsLoggedIn(true)} />;
+  // Wait for persisted entries so the main screen never flashes an empty list
+  if (!hasHydrated) {
+    return <LoadingIndicator message="기록을 불러오는 중..." />;
   }
 
   return <MainUploadScreen />;
 }
 
 export const Route = createRoute("/", {
-  component: App,
+  component: withSession(App),
 });
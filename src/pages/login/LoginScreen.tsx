@@ -2,6 +2,7 @@ import { appLogin, appsInTossSignTossCert } from '@apps-in-toss/framework';
 import { Button, Text } from '@toss/tds-react-native';
 import { useState } from 'react';
 import { ActivityIndicator, Linking, ScrollView, StyleSheet, View } from 'react-native';
+import { completeLogin } from '../../services/sessionLifecycle';
 import { tossAuthClient } from '../../services/tossAuthClient';
 import { useAuthStore } from '../../store/authStore';
 
@@ -12,7 +13,7 @@ export function LoginScreen({ onLoginSuccess }: { onLoginSuccess?: () => void })
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   
-  const { user, authStatus, setAuthenticating, setWaitingForUser, setPolling, setUser, setError: setAuthError, clearAuth } = useAuthStore();
+  const { user, authStatus, setAuthenticating, setWaitingForUser, setPolling, setError: setAuthError, clearAuth } = useAuthStore();
 
   async function handleLogin() {
     try {
@@ -93,7 +94,7 @@ export function LoginScreen({ onLoginSuccess }: { onLoginSuccess?: () => void })
         
         console.log('✅ Auth completed successfully!');
         console.log('📦 User data received:', JSON.stringify(authResult.userData, null, 2));
-        setUser(authResult.userData, authResult.txId);
+        await completeLogin(authResult);
         
         // Navigate to main screen after short delay
         if (onLoginSuccess) {
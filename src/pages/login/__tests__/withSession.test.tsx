@@ -0,0 +1,70 @@
+import { render, screen } from '@testing-library/react-native';
+import { Text } from 'react-native';
+import { Route as LoginRoute } from '../../../../pages/Login';
+import { useAuthRedirectStore } from '../../../store/authRedirect';
+import { useAuthStore } from '../../../store/authStore';
+import { withSession } from '../withSession';
+
+const mockReplace = jest.fn();
+
+// The real router needs the native stack, so routes only record their path
+jest.mock('@granite-js/react-native', () => ({
+  createRoute: (path: string) => ({ _path: path }),
+  useNavigation: () => ({ replace: mockReplace }),
+}));
+
+// TDS components cannot load under jest
+jest.mock('../LoginScreen', () => ({ LoginScreen: () => null }));
+jest.mock('../../../components/feedback', () => ({
+  LoadingIndicator: () => null,
+}));
+
+jest.mock('@react-navigation/native', () => ({
+  useRoute: () => ({ name: '/reports', params: { week: '2024-W03' } }),
+}));
+
+const ProtectedReports = withSession(() => <Text>reports</Text>);
+
+describe('withSession', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    mockReplace.mockClear();
+    useAuthStore.getState().reset();
+    useAuthStore.setState({ hasHydrated: true });
+    useAuthRedirectStore.getState().clearPendingRoute();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should send a signed-out user to the registered login page', () => {
+    render(<ProtectedReports />);
+
+    expect(mockReplace).toHaveBeenCalledWith('/login');
+    expect(LoginRoute._path).toBe('/login');
+    expect(useAuthRedirectStore.getState().pendingRoute).toEqual({
+      path: '/reports',
+      params: { week: '2024-W03' },
+    });
+    expect(screen.queryByText('reports')).toBeNull();
+  });
+
+  it('should render the screen once a session is stored', () => {
+    useAuthStore.getState().setSession({
+      user: { name: '홍길동' },
+      txId: 'tx-1',
+      userKey: 'user-123',
+      tokens: {
+        accessToken: 'access',
+        refreshToken: 'refresh',
+        expiresIn: 3600,
+      },
+    });
+
+    render(<ProtectedReports />);
+
+    expect(mockReplace).not.toHaveBeenCalled();
+    expect(screen.getByText('reports')).toBeTruthy();
+  });
+});
@@ -0,0 +1,47 @@
+import { useNavigation } from '@granite-js/react-native';
+import { useRoute } from '@react-navigation/native';
+import { type ComponentType, useEffect } from 'react';
+import { LoadingIndicator } from '../../components/feedback';
+import { useSessionUserKey } from '../../hooks/useSession';
+import { useAuthRedirectStore } from '../../store/authRedirect';
+import { useAuthStore } from '../../store/authStore';
+
+/**
+ * Route guard for createRoute screens
+ * Without a session, remembers the requested route and replaces it with /login;
+ * the login route navigates back once a user key is stored
+ */
+export function withSession<P extends object>(Screen: ComponentType<P>) {
+  function ProtectedScreen(props: P) {
+    const navigation = useNavigation();
+    const route = useRoute();
+    const userKey = useSessionUserKey();
+    const hasHydrated = useAuthStore((state) => state.hasHydrated);
+    const setPendingRoute = useAuthRedirectStore(
+      (state) => state.setPendingRoute,
+    );
+    const isSignedOut = hasHydrated && !userKey;
+
+    useEffect(() => {
+      if (!isSignedOut) {
+        return;
+      }
+      setPendingRoute({ path: route.name, params: route.params });
+      navigation.replace('/login');
+    }, [isSignedOut, navigation, route.name, route.params, setPendingRoute]);
+
+    // The stored session is restored asynchronously on launch
+    if (!hasHydrated) {
+      return <LoadingIndicator message="로그인 정보를 확인하는 중..." />;
+    }
+
+    if (!userKey) {
+      return null;
+    }
+
+    return <Screen {...props} />;
+  }
+
+  ProtectedScreen.displayName = `withSession(${Screen.displayName ?? Screen.name})`;
+  return ProtectedScreen;
+}
@@ -0,0 +1,72 @@
+import React from 'react';
+import { Text, View } from 'react-native';
+import type { DailyBudget } from '../../utils/calorieBudget';
+import { styles } from './styles';
+
+interface DailyBudgetCardProps {
+  budget: DailyBudget;
+}
+
+const formatCalories = (calories: number): string =>
+  `${calories.toLocaleString()}kcal`;
+
+export function DailyBudgetCard({ budget }: DailyBudgetCardProps) {
+  const isOverBudget = budget.remaining < 0;
+  // Burned calories enlarge the budget, so the bar fills against both
+  const available = budget.target + budget.burned;
+  const consumedRatio =
+    available > 0 ? Math.min(budget.consumed / available, 1) : 1;
+
+  return (
+    <View style={styles.budgetCard}>
+      <View style={styles.budgetSummary}>
+        <View>
+          <Text style={styles.budgetLabel}>
+            {isOverBudget ? '오늘 초과한 칼로리' : '오늘 남은 칼로리'}
+          </Text>
+          <Text
+            style={[
+              styles.budgetRemaining,
+              isOverBudget && styles.budgetRemainingOver,
+            ]}
+          >
+            {formatCalories(Math.abs(budget.remaining))}
+          </Text>
+        </View>
+        <View style={styles.budgetNet}>
+          <Text style={styles.budgetLabel}>순 에너지</Text>
+          <Text style={styles.budgetNetValue}>
+            {budget.netEnergy > 0 ? '+' : ''}
+            {formatCalories(budget.netEnergy)}
+          </Text>
+        </View>
+      </View>
+
+      <View style={styles.budgetBar}>
+        <View
+          style={[
+            styles.budgetBarFill,
+            isOverBudget && styles.budgetBarFillOver,
+            { flex: consumedRatio },
+          ]}
+        />
+        <View style={{ flex: 1 - consumedRatio }} />
+      </View>
+      <Text style={styles.budgetCaption}>
+        목표 {formatCalories(budget.target)} · 섭취{' '}
+        {formatCalories(budget.consumed)} · 운동 {formatCalories(budget.burned)}
+      </Text>
+
+      <View style={styles.mealRow}>
+        {budget.meals.map((meal) => (
+          <View key={meal.slot} style={styles.mealItem}>
+            <Text style={styles.mealLabel}>{meal.label}</Text>
+            <Text style={styles.mealCalories}>
+              {meal.count > 0 ? meal.calories.toLocaleString() : '-'}
+            </Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
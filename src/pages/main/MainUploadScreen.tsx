@@ -1,12 +1,28 @@
 import { useNavigation } from "@granite-js/react-native";
 import { Result } from "@toss/tds-react-native";
 import React, { useCallback, useMemo, useState } from "react";
-import { ScrollView, Text, TouchableOpacity, View } from "react-native";
+import { Alert, ScrollView, Text, TouchableOpacity, View } from "react-native";
 import { useFocusEffect } from "@react-navigation/native";
+import { GoalProgressCard } from "../../components/GoalProgressCard";
 import { InlineError } from "../../components/feedback";
+import {
+  useDeleteEntryMutation,
+  useUpdateEntryMutation,
+} from "../../hooks/useApiMutations";
+import { useGoals } from "../../hooks/useGoals";
+import { useSessionUserKey } from "../../hooks/useSession";
+import { logout } from "../../services/sessionLifecycle";
+import { discardUpload } from "../../services/uploadQueue";
 import { useHealthTrackerStore } from "../../store/healthTracker";
-import type { AuthenticationEntry } from "../../types";
+import { useProfileStore } from "../../store/profile";
+import type { AuthenticationEntry, EntryEdit } from "../../types";
+import type { EntryUpdateRequest } from "../../types/api";
+import {
+  calculateDailyBudget,
+  getDailyCalorieTarget,
+} from "../../utils/calorieBudget";
 import { ErrorHandlingUtils, type AppError } from "../../utils/errorHandling";
+import { DailyBudgetCard } from "./DailyBudgetCard";
 import { RecentEntryItem } from "./RecentEntryItem";
 import { styles } from "./styles";
 
@@ -15,20 +31,23 @@ export function MainUploadScreen() {
     entries,
     error: storeError,
     clearError,
-    fetchTodayExerciseLogs,
-    fetchTodayFoodLogs,
+    syncEntries,
   } = useHealthTrackerStore();
   const [navigationError, setNavigationError] = useState<AppError | null>(null);
   const [expandedEntryId, setExpandedEntryId] = useState<string | null>(null);
+  const [entryError, setEntryError] = useState<AppError | null>(null);
+  const updateEntryMutation = useUpdateEntryMutation();
+  const deleteEntryMutation = useDeleteEntryMutation();
 
-  const userKey = "9af9778d-cf8f-4ebd-807c-f6d4873b5fcc";
+  const userKey = useSessionUserKey();
 
-  // 화면이 포커스될 때마다 당일 운동 및 식단 기록 불러오기
+  // 화면이 포커스될 때마다 서버 기록과 동기화 (마지막 동기화 이후 변경분만)
   useFocusEffect(
     useCallback(() => {
-      fetchTodayExerciseLogs(userKey);
-      fetchTodayFoodLogs(userKey);
-    }, [fetchTodayExerciseLogs, fetchTodayFoodLogs, userKey])
+      if (userKey) {
+        syncEntries(userKey);
+      }
+    }, [syncEntries, userKey])
   );
 
   // Get recent entries (last 5)
@@ -41,6 +60,14 @@ export function MainUploadScreen() {
       .slice(0, 5);
   }, [entries]);
 
+  const profile = useProfileStore((state) => state.profile);
+  const dailyBudget = useMemo(
+    () => calculateDailyBudget(entries, getDailyCalorieTarget(profile)),
+    [entries, profile]
+  );
+
+  const { streaks, weeklyProgress } = useGoals();
+
   const navigation = useNavigation();
 
   const navigateToExerciseUpload = () => {
@@ -71,15 +98,107 @@ export function MainUploadScreen() {
     }
   };
 
+  const navigateToReports = () => {
+    try {
+      setNavigationError(null);
+      navigation.push("/reports");
+    } catch (error) {
+      const appError = ErrorHandlingUtils.handleProcessingError(
+        error instanceof Error ? error : new Error("Navigation failed"),
+        "Navigate to Reports"
+      );
+      ErrorHandlingUtils.logError(appError, "navigateToReports", error);
+      setNavigationError(appError);
+    }
+  };
+
+  const navigateToHistory = () => {
+    try {
+      setNavigationError(null);
+      navigation.push("/history");
+    } catch (error) {
+      const appError = ErrorHandlingUtils.handleProcessingError(
+        error instanceof Error ? error : new Error("Navigation failed"),
+        "Navigate to History"
+      );
+      ErrorHandlingUtils.logError(appError, "navigateToHistory", error);
+      setNavigationError(appError);
+    }
+  };
+
+  const navigateToProfile = () => {
+    try {
+      setNavigationError(null);
+      navigation.push("/profile");
+    } catch (error) {
+      const appError = ErrorHandlingUtils.handleProcessingError(
+        error instanceof Error ? error : new Error("Navigation failed"),
+        "Navigate to Profile"
+      );
+      ErrorHandlingUtils.logError(appError, "navigateToProfile", error);
+      setNavigationError(appError);
+    }
+  };
+
+  const handleEntryMutationError = (context: string) => (error: Error) => {
+    const appError = ErrorHandlingUtils.handleApiError(error);
+    ErrorHandlingUtils.logError(appError, context, error);
+    setEntryError(appError);
+  };
+
+  const updateEntry = (entry: AuthenticationEntry, edit: EntryEdit) => {
+    if (!userKey) return;
+    setEntryError(null);
+    const request: EntryUpdateRequest =
+      edit.type === "exercise"
+        ? { type: "exercise", id: entry.id, userKey, changes: edit.changes }
+        : { type: "food", id: entry.id, userKey, changes: edit.changes };
+    updateEntryMutation.mutate(request, {
+      onError: handleEntryMutationError("updateEntry"),
+    });
+  };
+
+  const deleteEntry = (entry: AuthenticationEntry) => {
+    if (!userKey) return;
+    setEntryError(null);
+    setExpandedEntryId(null);
+    // Entries the server never stored only exist locally
+    if (entry.syncStatus) {
+      discardUpload(entry.id);
+      return;
+    }
+    deleteEntryMutation.mutate(
+      { entry, userKey },
+      { onError: handleEntryMutationError("deleteEntry") }
+    );
+  };
+
   const retryNavigation = () => {
     setNavigationError(null);
   };
 
+  const handleLogout = () => {
+    Alert.alert("로그아웃", "이 기기에 저장된 기록도 함께 삭제돼요.", [
+      { text: "취소", style: "cancel" },
+      {
+        text: "로그아웃",
+        style: "destructive",
+        onPress: () => {
+          logout();
+        },
+      },
+    ]);
+  };
+
   return (
     <ScrollView style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.title}>00님,</Text>
         <Text style={styles.title}>오늘의 인증을 작성해볼까요?</Text>
+        <TouchableOpacity style={styles.logoutButton} onPress={handleLogout}>
+          <Text style={styles.logoutText}>로그아웃</Text>
+        </TouchableOpacity>
+        <DailyBudgetCard budget={dailyBudget} />
       </View>
 
       {navigationError && (
@@ -88,6 +207,10 @@ export function MainUploadScreen() {
 
       {storeError && <InlineError error={storeError} onRetry={clearError} />}
 
+      {entryError && (
+        <InlineError error={entryError} onRetry={() => setEntryError(null)} />
+      )}
+
       <View style={styles.actionSection}>
         <TouchableOpacity
           style={styles.actionButton}
@@ -108,6 +231,11 @@ export function MainUploadScreen() {
         </TouchableOpacity>
       </View>
 
+      <View style={styles.goalSection}>
+        <Text style={styles.sectionTitle}>이번 주 목표</Text>
+        <GoalProgressCard progress={weeklyProgress} streaks={streaks} />
+      </View>
+
       <View style={styles.recentEntriesSection}>
         <Text style={styles.sectionTitle}>최근 기록</Text>
         {recentEntries.length > 0 ? (
@@ -119,6 +247,8 @@ export function MainUploadScreen() {
                 isLast={index === recentEntries.length - 1}
                 isExpanded={expandedEntryId === entry.id}
                 onToggle={() => setExpandedEntryId(expandedEntryId === entry.id ? null : entry.id)}
+                onUpdate={(edit) => updateEntry(entry, edit)}
+                onDelete={() => deleteEntry(entry)}
               />
             ))}
           </View>
@@ -133,6 +263,18 @@ export function MainUploadScreen() {
           </View>
         )}
       </View>
+
+      <TouchableOpacity style={styles.reportLinkButton} onPress={navigateToReports}>
+        <Text style={styles.reportLinkText}>📊 주간 리포트 보기</Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity style={styles.reportLinkButton} onPress={navigateToHistory}>
+        <Text style={styles.reportLinkText}>📅 기록 달력 보기</Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity style={styles.profileLinkButton} onPress={navigateToProfile}>
+        <Text style={styles.reportLinkText}>👤 내 정보와 목표</Text>
+      </TouchableOpacity>
     </ScrollView>
   );
 }
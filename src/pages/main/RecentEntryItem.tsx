@@ -1,6 +1,16 @@
-import React from "react";
-import { Text, TouchableOpacity, View } from "react-native";
-import type { AuthenticationEntry } from "../../types";
+import React, { useState } from "react";
+import { Alert, Text, TouchableOpacity, View } from "react-native";
+import { EditableTextOverlay } from "../../components/EditableTextOverlay";
+import type { AuthenticationEntry, EntryEdit } from "../../types";
+import { getFieldConfig } from "../../utils/analysisDataMapper";
+import {
+  getFieldLabel,
+  getFieldOptions,
+  getFieldType,
+  getSavedEntryEditableFields,
+  toEntryChanges,
+  validateEditedField,
+} from "../../utils/editValidation";
 import { styles } from "./styles";
 
 interface RecentEntryItemProps {
@@ -8,9 +18,31 @@ interface RecentEntryItemProps {
   isLast?: boolean;
   isExpanded: boolean;
   onToggle: () => void;
+  onUpdate?: (edit: EntryEdit) => void;
+  onDelete?: () => void;
 }
 
-export function RecentEntryItem({ entry, isLast = false, isExpanded, onToggle }: RecentEntryItemProps) {
+interface EditingField {
+  key: string;
+  value: string;
+  label: string;
+  unit?: string;
+}
+
+export function RecentEntryItem({
+  entry,
+  isLast = false,
+  isExpanded,
+  onToggle,
+  onUpdate,
+  onDelete,
+}: RecentEntryItemProps) {
+  const [editingField, setEditingField] = useState<EditingField | null>(null);
+
+  // Only entries the server has confirmed can be corrected
+  const canEdit = !entry.syncStatus && Boolean(onUpdate);
+  // Pending entries may still be replaying; failed ones can be discarded
+  const canDelete = entry.syncStatus !== "pending" && Boolean(onDelete);
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -50,50 +82,145 @@ export function RecentEntryItem({ entry, isLast = false, isExpanded, onToggle }:
     }
   };
 
+  // Current value in the form the edit overlay and validators expect
+  const getEditValue = (entry: AuthenticationEntry, key: string) => {
+    if (entry.type === "exercise") {
+      switch (key) {
+        case "exerciseType":
+          return entry.exerciseType;
+        case "duration":
+          return String(entry.duration ?? 0);
+        case "calories":
+          return String(entry.calories ?? 0);
+        case "distance":
+          return String(entry.distance ?? 0);
+      }
+      return "";
+    }
+    switch (key) {
+      case "mealType":
+        return entry.mealType;
+      case "mainIngredients":
+        return entry.mainIngredients.join(", ");
+      case "estimatedCalories":
+        return String(entry.estimatedCalories ?? 0);
+      case "isHealthy":
+        return entry.isHealthy ? "건강함" : "건강하지 않음";
+    }
+    return "";
+  };
+
+  const handleFieldPress = (key: string) => {
+    if (!canEdit || !getSavedEntryEditableFields(entry.type).includes(key)) return;
+
+    setEditingField({
+      key,
+      value: getEditValue(entry, key),
+      label: getFieldLabel(key),
+      unit: getFieldConfig(key, entry.type)?.unit,
+    });
+  };
+
+  const handleEditSave = (newValue: string) => {
+    if (!editingField || !onUpdate) return;
+
+    const validation = validateEditedField(editingField.key, newValue, entry.type);
+    if (!validation.isValid) {
+      // Keep the overlay open so the value can be corrected
+      Alert.alert("입력 확인", validation.error ?? "값을 확인해주세요.");
+      return;
+    }
+
+    const edit = toEntryChanges(
+      editingField.key,
+      validation.sanitizedValue || newValue,
+      entry.type
+    );
+    setEditingField(null);
+    if (edit) {
+      onUpdate(edit);
+    }
+  };
+
+  const handleDeletePress = () => {
+    if (!onDelete) return;
+
+    Alert.alert("기록 삭제", "이 기록을 삭제할까요? 삭제한 기록은 되돌릴 수 없어요.", [
+      { text: "취소", style: "cancel" },
+      { text: "삭제", style: "destructive", onPress: onDelete },
+    ]);
+  };
+
+  const renderDetailRow = (key: string, label: string, value: string) => (
+    <TouchableOpacity
+      key={key}
+      onPress={() => handleFieldPress(key)}
+      disabled={!canEdit}
+      activeOpacity={0.7}
+    >
+      <Text style={styles.detailLabel}>
+        {label}: <Text style={styles.detailValue}>{value}</Text>
+        {canEdit && <Text style={styles.detailEditIcon}> ✏️</Text>}
+      </Text>
+    </TouchableOpacity>
+  );
+
   const getEntryDetails = (entry: AuthenticationEntry) => {
     if (entry.type === "exercise") {
       const duration = entry.duration ?? 0;
       const calories = entry.calories ?? 0;
       const distance = entry.distance;
-      
+
       return (
-        <View style={styles.detailsContainer}>
-          <Text style={styles.detailLabel}>
-            운동 시간: <Text style={styles.detailValue}>{duration}분</Text>
-          </Text>
-          <Text style={styles.detailLabel}>
-            소모 칼로리: <Text style={styles.detailValue}>{calories}kcal</Text>
-          </Text>
-          {distance != null && distance > 0 && (
-            <Text style={styles.detailLabel}>
-              거리: <Text style={styles.detailValue}>{distance}km</Text>
-            </Text>
-          )}
-        </View>
+        <>
+          {renderDetailRow("exerciseType", "운동 종류", entry.exerciseType)}
+          {renderDetailRow("duration", "운동 시간", `${duration}분`)}
+          {renderDetailRow("calories", "소모 칼로리", `${calories}kcal`)}
+          {/* An empty distance is still editable so it can be added later */}
+          {(canEdit || (distance != null && distance > 0)) &&
+            renderDetailRow("distance", "거리", `${distance ?? 0}km`)}
+        </>
       );
     } else {
       const calories = entry.estimatedCalories ?? 0;
       const healthStatus = entry.isHealthy ? "건강함 ✅" : "주의 필요 ⚠️";
       const ingredients = entry.mainIngredients?.filter(Boolean) ?? [];
-      
+
       return (
-        <View style={styles.detailsContainer}>
-          <Text style={styles.detailLabel}>
-            칼로리: <Text style={styles.detailValue}>{calories}kcal</Text>
-          </Text>
-          <Text style={styles.detailLabel}>
-            건강도: <Text style={styles.detailValue}>{healthStatus}</Text>
-          </Text>
-          {ingredients.length > 0 && (
-            <Text style={styles.detailLabel}>
-              주요 재료: <Text style={styles.detailValue}>{ingredients.join(", ")}</Text>
-            </Text>
-          )}
-        </View>
+        <>
+          {renderDetailRow("mealType", "식사 종류", entry.mealType)}
+          {renderDetailRow("estimatedCalories", "칼로리", `${calories}kcal`)}
+          {renderDetailRow("isHealthy", "건강도", healthStatus)}
+          {entry.macros &&
+            renderDetailRow(
+              "macros",
+              "탄단지",
+              `단백질 ${entry.macros.protein}g • 탄수화물 ${entry.macros.carbs}g • 지방 ${entry.macros.fat}g`
+            )}
+          {entry.portion !== undefined &&
+            entry.portion !== 1 &&
+            renderDetailRow("portion", "먹은 양", `× ${entry.portion}`)}
+          {(canEdit || ingredients.length > 0) &&
+            renderDetailRow("mainIngredients", "주요 재료", ingredients.join(", "))}
+        </>
       );
     }
   };
 
+  const renderExpandedView = () => (
+    <View style={styles.detailsContainer}>
+      {getEntryDetails(entry)}
+      {entry.syncStatus === "pending" && (
+        <Text style={styles.detailHintText}>동기화가 끝나면 수정할 수 있어요</Text>
+      )}
+      {canDelete && (
+        <TouchableOpacity style={styles.deleteEntryButton} onPress={handleDeletePress}>
+          <Text style={styles.deleteEntryText}>기록 삭제</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
   return (
     <View style={[styles.recentEntryItem, isLast && styles.recentEntryItemLast]}>
       <TouchableOpacity
@@ -108,10 +235,35 @@ export function RecentEntryItem({ entry, isLast = false, isExpanded, onToggle }:
         </View>
         <View style={styles.entryRightSection}>
           <Text style={styles.recentEntryDate}>{formatDate(entry.createdAt)}</Text>
+          {entry.syncStatus && (
+            <Text
+              style={[
+                styles.syncBadge,
+                entry.syncStatus === "failed" && styles.syncBadgeFailed,
+              ]}
+            >
+              {entry.syncStatus === "pending" ? "동기화 대기" : "동기화 실패"}
+            </Text>
+          )}
         </View>
         <Text style={styles.toggleIndicator}>{isExpanded ? "▲" : "▼"}</Text>
       </TouchableOpacity>
-      {isExpanded && getEntryDetails(entry)}
+      {isExpanded && renderExpandedView()}
+
+      {editingField && (
+        <EditableTextOverlay
+          visible={true}
+          initialValue={editingField.value}
+          fieldType={getFieldType(editingField.key)}
+          fieldLabel={editingField.label}
+          fieldKey={editingField.key}
+          unit={editingField.unit}
+          options={getFieldOptions(editingField.key, entry.type)}
+          onSave={handleEditSave}
+          onCancel={() => setEditingField(null)}
+          placeholder={`새로운 ${editingField.label} 입력`}
+        />
+      )}
     </View>
   );
 }
@@ -16,6 +16,91 @@ export const styles = StyleSheet.create({
     fontWeight: "bold",
     color: "#1A202C",
   },
+  budgetCard: {
+    alignSelf: "stretch",
+    backgroundColor: "white",
+    borderRadius: 8,
+    padding: 16,
+    marginTop: 16,
+  },
+  budgetSummary: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-end",
+  },
+  budgetLabel: {
+    fontSize: 13,
+    color: "#718096",
+    marginBottom: 4,
+  },
+  budgetRemaining: {
+    fontSize: 24,
+    fontWeight: "bold",
+    color: "#3182F6",
+  },
+  budgetRemainingOver: {
+    color: "#E53E3E",
+  },
+  budgetNet: {
+    alignItems: "flex-end",
+  },
+  budgetNetValue: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#1A202C",
+  },
+  budgetBar: {
+    flexDirection: "row",
+    height: 8,
+    borderRadius: 4,
+    overflow: "hidden",
+    backgroundColor: "#EDF2F7",
+    marginTop: 12,
+  },
+  budgetBarFill: {
+    backgroundColor: "#3182F6",
+  },
+  budgetBarFillOver: {
+    backgroundColor: "#E53E3E",
+  },
+  budgetCaption: {
+    fontSize: 12,
+    color: "#718096",
+    marginTop: 6,
+  },
+  mealRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    borderTopWidth: 1,
+    borderTopColor: "#EDF2F7",
+    marginTop: 12,
+    paddingTop: 12,
+  },
+  mealItem: {
+    flex: 1,
+    alignItems: "center",
+  },
+  mealLabel: {
+    fontSize: 12,
+    color: "#718096",
+    marginBottom: 2,
+  },
+  mealCalories: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1A202C",
+  },
+  logoutButton: {
+    position: "absolute",
+    top: 20,
+    right: 0,
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+  },
+  logoutText: {
+    fontSize: 14,
+    color: "#718096",
+  },
   actionSection: {
     marginBottom: 24,
     flexDirection: "row",
@@ -51,6 +136,9 @@ export const styles = StyleSheet.create({
     fontSize: 64,
     alignSelf: "flex-end",
   },
+  goalSection: {
+    marginBottom: 24,
+  },
   recentEntriesSection: {
     marginBottom: 24,
   },
@@ -97,6 +185,21 @@ export const styles = StyleSheet.create({
     color: "#718096",
     textAlign: "right",
   },
+  syncBadge: {
+    marginTop: 4,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    overflow: "hidden",
+    fontSize: 11,
+    fontWeight: "600",
+    color: "#B7791F",
+    backgroundColor: "#FEFCBF",
+  },
+  syncBadgeFailed: {
+    color: "#C53030",
+    backgroundColor: "#FED7D7",
+  },
   toggleIndicator: {
     fontSize: 12,
     color: "#A0AEC0",
@@ -118,6 +221,46 @@ export const styles = StyleSheet.create({
     fontWeight: "600",
     color: "#1A202C",
   },
+  detailEditIcon: {
+    fontSize: 12,
+  },
+  detailHintText: {
+    fontSize: 12,
+    color: "#A0AEC0",
+    marginTop: 4,
+  },
+  deleteEntryButton: {
+    alignSelf: "flex-start",
+    marginTop: 8,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 6,
+    backgroundColor: "#FED7D7",
+  },
+  deleteEntryText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#C53030",
+  },
+  reportLinkButton: {
+    backgroundColor: "white",
+    borderRadius: 8,
+    padding: 16,
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  profileLinkButton: {
+    backgroundColor: "white",
+    borderRadius: 8,
+    padding: 16,
+    alignItems: "center",
+    marginBottom: 40,
+  },
+  reportLinkText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#3182F6",
+  },
   emptyState: {
     backgroundColor: "white",
     borderRadius: 8,
@@ -0,0 +1,240 @@
+import { useNavigation } from '@granite-js/react-native';
+import React, { useState } from 'react';
+import {
+  ScrollView,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useGoalsStore } from '../../store/goals';
+import { useProfileStore } from '../../store/profile';
+import type { UserProfile, WeeklyGoals } from '../../types';
+import { getDailyCalorieTarget } from '../../utils/calorieBudget';
+import {
+  validateProfileField,
+  validateWeeklyGoalField,
+} from '../../utils/editValidation';
+import { styles } from './styles';
+
+type ProfileField =
+  | 'weightKg'
+  | 'heightCm'
+  | 'birthYear'
+  | 'dailyCalorieTarget';
+type GoalField = keyof WeeklyGoals;
+type FormField = ProfileField | GoalField;
+
+const BODY_FIELDS: Array<{
+  key: ProfileField;
+  label: string;
+  unit: string;
+  placeholder: string;
+}> = [
+  { key: 'weightKg', label: '체중', unit: 'kg', placeholder: '65' },
+  { key: 'heightCm', label: '키', unit: 'cm', placeholder: '170' },
+  { key: 'birthYear', label: '출생연도', unit: '년', placeholder: '1990' },
+];
+
+const PROFILE_FIELDS: ProfileField[] = [
+  ...BODY_FIELDS.map((field) => field.key),
+  'dailyCalorieTarget',
+];
+
+const GOAL_FIELDS: Array<{ key: GoalField; label: string; unit: string }> = [
+  { key: 'exerciseMinutes', label: '주간 운동 시간', unit: '분' },
+  { key: 'healthyMeals', label: '주간 건강한 식단', unit: '회' },
+];
+
+const GENDER_OPTIONS: Array<{
+  value: NonNullable<UserProfile['gender']>;
+  label: string;
+}> = [
+  { value: 'female', label: '여성' },
+  { value: 'male', label: '남성' },
+  { value: 'other', label: '선택 안 함' },
+];
+
+const toInputValue = (value?: number): string =>
+  value === undefined ? '' : String(value);
+
+interface NumberFieldProps {
+  label: string;
+  unit: string;
+  value: string;
+  placeholder?: string;
+  error?: string;
+  onChangeText: (text: string) => void;
+}
+
+function NumberField({
+  label,
+  unit,
+  value,
+  placeholder,
+  error,
+  onChangeText,
+}: NumberFieldProps) {
+  return (
+    <View style={styles.field}>
+      <Text style={styles.label}>{label}</Text>
+      <View style={styles.inputRow}>
+        <TextInput
+          style={[styles.input, !!error && styles.inputError]}
+          value={value}
+          onChangeText={onChangeText}
+          placeholder={placeholder}
+          keyboardType="numeric"
+        />
+        <Text style={styles.unit}>{unit}</Text>
+      </View>
+      {error && <Text style={styles.errorText}>{error}</Text>}
+    </View>
+  );
+}
+
+export function ProfileScreen() {
+  const navigation = useNavigation();
+  const profile = useProfileStore((state) => state.profile);
+  const setProfile = useProfileStore((state) => state.setProfile);
+  const goals = useGoalsStore((state) => state.goals);
+  const setGoals = useGoalsStore((state) => state.setGoals);
+
+  const [values, setValues] = useState<Record<FormField, string>>({
+    weightKg: toInputValue(profile.weightKg),
+    heightCm: toInputValue(profile.heightCm),
+    birthYear: toInputValue(profile.birthYear),
+    dailyCalorieTarget: toInputValue(profile.dailyCalorieTarget),
+    exerciseMinutes: String(goals.exerciseMinutes),
+    healthyMeals: String(goals.healthyMeals),
+  });
+  const [gender, setGender] = useState(profile.gender);
+  const [errors, setErrors] = useState<Partial<Record<FormField, string>>>({});
+
+  const changeValue = (key: FormField) => (text: string) =>
+    setValues((prev) => ({ ...prev, [key]: text }));
+
+  const handleSave = () => {
+    const nextErrors: Partial<Record<FormField, string>> = {};
+    const nextProfile: UserProfile = { gender };
+    const nextGoals: Partial<WeeklyGoals> = {};
+
+    for (const key of PROFILE_FIELDS) {
+      const result = validateProfileField(key, values[key]);
+      if (!result.isValid) {
+        nextErrors[key] = result.error;
+      } else if (result.sanitizedValue) {
+        nextProfile[key] = Number(result.sanitizedValue);
+      }
+    }
+    for (const { key } of GOAL_FIELDS) {
+      const result = validateWeeklyGoalField(key, values[key]);
+      if (!result.isValid) {
+        nextErrors[key] = result.error;
+      } else {
+        nextGoals[key] = Number(result.sanitizedValue);
+      }
+    }
+
+    setErrors(nextErrors);
+    if (Object.keys(nextErrors).length > 0) {
+      return;
+    }
+    setProfile(nextProfile);
+    setGoals(nextGoals);
+    navigation.goBack();
+  };
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.content}>
+        <View style={styles.header}>
+          <Text style={styles.title}>내 정보와 목표</Text>
+          <Text style={styles.subtitle}>
+            입력한 정보로 운동 소모 칼로리를 더 정확하게 계산해요
+          </Text>
+        </View>
+
+        <View style={styles.card}>
+          {BODY_FIELDS.map(({ key, label, unit, placeholder }) => (
+            <NumberField
+              key={key}
+              label={label}
+              unit={unit}
+              value={values[key]}
+              placeholder={placeholder}
+              error={errors[key]}
+              onChangeText={changeValue(key)}
+            />
+          ))}
+
+          <View style={styles.field}>
+            <Text style={styles.label}>성별</Text>
+            <View style={styles.optionRow}>
+              {GENDER_OPTIONS.map((option) => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[
+                    styles.option,
+                    gender === option.value && styles.optionSelected,
+                  ]}
+                  onPress={() => setGender(option.value)}
+                >
+                  <Text
+                    style={[
+                      styles.optionText,
+                      gender === option.value && styles.optionTextSelected,
+                    ]}
+                  >
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        </View>
+
+        <Text style={styles.hint}>
+          비워둔 항목은 평균 체형(65kg) 기준으로 계산해요
+        </Text>
+
+        <View style={[styles.card, styles.targetCard]}>
+          <NumberField
+            label="하루 목표 섭취 칼로리"
+            unit="kcal"
+            value={values.dailyCalorieTarget}
+            placeholder={String(
+              getDailyCalorieTarget({
+                ...profile,
+                dailyCalorieTarget: undefined,
+              }),
+            )}
+            error={errors.dailyCalorieTarget}
+            onChangeText={changeValue('dailyCalorieTarget')}
+          />
+        </View>
+
+        <Text style={styles.hint}>
+          비워두면 신체 정보로 계산한 권장량을 목표로 써요
+        </Text>
+
+        <View style={[styles.card, styles.targetCard]}>
+          {GOAL_FIELDS.map(({ key, label, unit }) => (
+            <NumberField
+              key={key}
+              label={label}
+              unit={unit}
+              value={values[key]}
+              error={errors[key]}
+              onChangeText={changeValue(key)}
+            />
+          ))}
+        </View>
+
+        <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
+          <Text style={styles.saveButtonText}>저장</Text>
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+}
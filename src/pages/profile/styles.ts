@@ -0,0 +1,111 @@
+import { StyleSheet } from 'react-native';
+
+export const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F7FAFC',
+  },
+  content: {
+    padding: 20,
+  },
+  header: {
+    marginBottom: 24,
+    paddingTop: 20,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#1A202C',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#4A5568',
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 18,
+    gap: 18,
+  },
+  targetCard: {
+    marginTop: 24,
+  },
+  field: {
+    gap: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4A5568',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#1A202C',
+  },
+  inputError: {
+    borderColor: '#E53E3E',
+  },
+  unit: {
+    minWidth: 28,
+    fontSize: 14,
+    color: '#718096',
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#E53E3E',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  option: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  optionSelected: {
+    borderColor: '#3182F6',
+    backgroundColor: '#EBF4FF',
+  },
+  optionText: {
+    fontSize: 14,
+    color: '#4A5568',
+  },
+  optionTextSelected: {
+    color: '#3182F6',
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#718096',
+    marginTop: 12,
+  },
+  saveButton: {
+    backgroundColor: '#3182F6',
+    borderRadius: 8,
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginTop: 24,
+    marginBottom: 40,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: 'white',
+  },
+});
@@ -0,0 +1,123 @@
+import { share } from '@apps-in-toss/framework';
+import React, { useMemo, useState } from 'react';
+import { Alert, Text, TouchableOpacity, View } from 'react-native';
+import type { AuthenticationEntry } from '../../types';
+import {
+  type ExportFile,
+  type ExportFormat,
+  buildExportFiles,
+  buildHealthDataExport,
+} from '../../utils/dataExport';
+import { addDaysToDate, getCurrentDate } from '../../utils/dataTransformers';
+import type { DateRange } from '../../utils/statistics';
+import { styles } from './styles';
+
+interface ExportSectionProps {
+  entries: AuthenticationEntry[];
+}
+
+// Days back from today; null exports the whole history
+const EXPORT_RANGES = [7, 30, 90, null] as const;
+type ExportRange = (typeof EXPORT_RANGES)[number];
+
+const EXPORT_FORMATS: Array<{ format: ExportFormat; label: string }> = [
+  { format: 'csv', label: 'CSV (표)' },
+  { format: 'json', label: 'JSON (백업)' },
+];
+
+const toDateRange = (days: ExportRange): DateRange | null => {
+  if (days === null) {
+    return null;
+  }
+  const today = getCurrentDate();
+  return { startDate: addDaysToDate(today, -(days - 1)), endDate: today };
+};
+
+export function ExportSection({ entries }: ExportSectionProps) {
+  const [days, setDays] = useState<ExportRange>(30);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+
+  const exportData = useMemo(
+    () => buildHealthDataExport(entries, toDateRange(days)),
+    [entries, days],
+  );
+  const entryCount = exportData.exercise.length + exportData.food.length;
+
+  const shareFile = async (file: ExportFile) => {
+    try {
+      await share({ message: file.content });
+    } catch (error) {
+      console.error('Export share failed:', error);
+      Alert.alert('오류', '기록을 공유하지 못했어요. 다시 시도해주세요.');
+    }
+  };
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>기록 내보내기</Text>
+
+      <View style={styles.rangeSelector}>
+        {EXPORT_RANGES.map((option) => (
+          <TouchableOpacity
+            key={option ?? 'all'}
+            style={[
+              styles.rangeButton,
+              days === option && styles.rangeButtonSelected,
+            ]}
+            onPress={() => setDays(option)}
+          >
+            <Text
+              style={[
+                styles.rangeButtonText,
+                days === option && styles.rangeButtonTextSelected,
+              ]}
+            >
+              {option === null ? '전체' : `${option}일`}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.rangeSelector}>
+        {EXPORT_FORMATS.map((option) => (
+          <TouchableOpacity
+            key={option.format}
+            style={[
+              styles.rangeButton,
+              format === option.format && styles.rangeButtonSelected,
+            ]}
+            onPress={() => setFormat(option.format)}
+          >
+            <Text
+              style={[
+                styles.rangeButtonText,
+                format === option.format && styles.rangeButtonTextSelected,
+              ]}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.chartCard}>
+        <Text style={styles.exportSummary}>
+          운동 {exportData.exercise.length}건 · 식단 {exportData.food.length}건
+        </Text>
+        {buildExportFiles(exportData, format).map((file) => (
+          <TouchableOpacity
+            key={file.fileName}
+            style={[
+              styles.exportButton,
+              entryCount === 0 && styles.exportButtonDisabled,
+            ]}
+            onPress={() => shareFile(file)}
+            disabled={entryCount === 0}
+          >
+            <Text style={styles.exportButtonText}>{file.label} 공유하기</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,85 @@
+import { getClipboardText } from '@apps-in-toss/framework';
+import React, { useState } from 'react';
+import { Alert, Text, TouchableOpacity, View } from 'react-native';
+import { importHistory } from '../../services/historyImport';
+import type { ImportResult, ImportSource } from '../../utils/dataImport';
+import { styles } from './styles';
+
+const SOURCE_LABELS: Record<ImportSource, string> = {
+  'app-json': '백업 파일',
+  'app-csv': '내보낸 표',
+  'samsung-health': '삼성 헬스',
+  'apple-health': 'Apple 건강',
+};
+
+// Skipped rows listed before the rest are summarized as a count
+const MAX_SKIPPED_SHOWN = 5;
+
+export function ImportSection() {
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const importFromClipboard = async () => {
+    setIsImporting(true);
+    try {
+      const text = await getClipboardText();
+      setResult(importHistory(text));
+    } catch (error) {
+      console.error('History import failed:', error);
+      Alert.alert(
+        '가져오기 실패',
+        '내보낸 기록이나 삼성 헬스·Apple 건강 내보내기 파일의 내용을 복사한 뒤 다시 시도해주세요.',
+      );
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const hiddenSkippedCount = result
+    ? result.skipped.length - MAX_SKIPPED_SHOWN
+    : 0;
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>기록 가져오기</Text>
+
+      <View style={styles.chartCard}>
+        <Text style={styles.exportSummary}>
+          이 앱의 백업, 삼성 헬스 운동 CSV나 Apple 건강 export.xml의 내용을
+          복사한 뒤 가져오세요. 이미 있는 기록은 건너뛰어요.
+        </Text>
+        <TouchableOpacity
+          style={[
+            styles.exportButton,
+            isImporting && styles.exportButtonDisabled,
+          ]}
+          onPress={importFromClipboard}
+          disabled={isImporting}
+        >
+          <Text style={styles.exportButtonText}>클립보드에서 가져오기</Text>
+        </TouchableOpacity>
+
+        {result && (
+          <View style={styles.importResult}>
+            <Text style={styles.importResultTitle}>
+              {SOURCE_LABELS[result.source]}에서 {result.entries.length}건을
+              가져왔어요
+              {result.skipped.length > 0 &&
+                ` · ${result.skipped.length}건 건너뜀`}
+            </Text>
+            {result.skipped.slice(0, MAX_SKIPPED_SHOWN).map((row) => (
+              <Text key={row.location} style={styles.importSkippedRow}>
+                {row.location}: {row.reason}
+              </Text>
+            ))}
+            {hiddenSkippedCount > 0 && (
+              <Text style={styles.importSkippedRow}>
+                외 {hiddenSkippedCount}건
+              </Text>
+            )}
+          </View>
+        )}
+      </View>
+    </View>
+  );
+}
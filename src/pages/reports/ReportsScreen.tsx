@@ -0,0 +1,177 @@
+import { Result } from '@toss/tds-react-native';
+import React, { useMemo, useState } from 'react';
+import { ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import { AchievementList } from '../../components/AchievementList';
+import { GoalProgressCard } from '../../components/GoalProgressCard';
+import { useGoals } from '../../hooks/useGoals';
+import { useHealthTrackerStore } from '../../store/healthTracker';
+import calculateWeeklyStats, {
+  addDaysToDate,
+  compareWeeklyStats,
+  getWeekStart,
+} from '../../utils/dataTransformers';
+import { ExportSection } from './ExportSection';
+import { ImportSection } from './ImportSection';
+import { TrendSection } from './TrendSection';
+import { WeeklyStatCard } from './WeeklyStatCard';
+import { styles } from './styles';
+
+const formatMonthDay = (dateString: string): string => {
+  const [, month, day] = dateString.split('-').map(Number);
+  return `${month}월 ${day}일`;
+};
+
+const getWeekLabel = (weekOffset: number): string => {
+  if (weekOffset === 0) {
+    return '이번 주';
+  }
+  if (weekOffset === -1) {
+    return '지난 주';
+  }
+  return `${Math.abs(weekOffset)}주 전`;
+};
+
+export function ReportsScreen() {
+  const entries = useHealthTrackerStore((state) => state.entries);
+  // 0은 이번 주, 음수는 과거 주
+  const [weekOffset, setWeekOffset] = useState(0);
+
+  const comparison = useMemo(() => {
+    const weekStart = addDaysToDate(getWeekStart(), weekOffset * 7);
+    const previousWeekStart = addDaysToDate(weekStart, -7);
+    return compareWeeklyStats(
+      calculateWeeklyStats(entries, weekStart),
+      calculateWeeklyStats(entries, previousWeekStart),
+    );
+  }, [entries, weekOffset]);
+
+  const { current } = comparison;
+  const { streaks, weeklyProgress, achievements } = useGoals(current.weekStart);
+  const hasEntries = current.exerciseCount + current.foodCount > 0;
+  const isCurrentWeek = weekOffset === 0;
+
+  const totalCalories =
+    current.totalCaloriesBurned + current.totalCaloriesConsumed;
+  const burnedRatio =
+    totalCalories > 0 ? current.totalCaloriesBurned / totalCalories : 0;
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.content}>
+        <View style={styles.header}>
+          <Text style={styles.title}>주간 리포트</Text>
+          <Text style={styles.subtitle}>
+            한 주 동안의 인증 기록을 지난주와 비교해보세요
+          </Text>
+        </View>
+
+        <View style={styles.weekNavigator}>
+          <TouchableOpacity
+            style={styles.weekNavButton}
+            onPress={() => setWeekOffset(weekOffset - 1)}
+          >
+            <Text style={styles.weekNavButtonText}>◀</Text>
+          </TouchableOpacity>
+          <View style={styles.weekRange}>
+            <Text style={styles.weekRangeTitle}>
+              {getWeekLabel(weekOffset)}
+            </Text>
+            <Text style={styles.weekRangeSubtitle}>
+              {formatMonthDay(current.weekStart)} -{' '}
+              {formatMonthDay(current.weekEnd)}
+            </Text>
+          </View>
+          <TouchableOpacity
+            style={styles.weekNavButton}
+            onPress={() => setWeekOffset(weekOffset + 1)}
+            disabled={isCurrentWeek}
+          >
+            <Text
+              style={[
+                styles.weekNavButtonText,
+                isCurrentWeek && styles.weekNavButtonTextDisabled,
+              ]}
+            >
+              ▶
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        {hasEntries ? (
+          <View style={styles.statGrid}>
+            <WeeklyStatCard
+              label="운동 횟수"
+              value={`${current.exerciseCount}회`}
+              change={comparison.exerciseCountChange}
+              unit="회"
+            />
+            <WeeklyStatCard
+              label="소모 칼로리"
+              value={`${current.totalCaloriesBurned.toLocaleString()}kcal`}
+              change={comparison.caloriesBurnedChange}
+              unit="kcal"
+            />
+            <WeeklyStatCard
+              label="섭취 칼로리"
+              value={`${current.totalCaloriesConsumed.toLocaleString()}kcal`}
+              change={comparison.caloriesConsumedChange}
+              unit="kcal"
+              higherIsBetter={false}
+            >
+              <View style={styles.calorieBar}>
+                <View
+                  style={[styles.calorieBarBurned, { flex: burnedRatio }]}
+                />
+                <View
+                  style={[
+                    styles.calorieBarConsumed,
+                    { flex: totalCalories > 0 ? 1 - burnedRatio : 0 },
+                  ]}
+                />
+              </View>
+              <View style={styles.calorieLegend}>
+                <Text style={styles.calorieLegendText}>
+                  소모 {current.totalCaloriesBurned.toLocaleString()}kcal
+                </Text>
+                <Text style={styles.calorieLegendText}>
+                  섭취 {current.totalCaloriesConsumed.toLocaleString()}kcal
+                </Text>
+              </View>
+            </WeeklyStatCard>
+            <WeeklyStatCard
+              label="건강한 식단 비율"
+              value={`${current.healthyFoodPercentage}%`}
+              change={comparison.healthyFoodPercentageChange}
+              unit="%p"
+            />
+          </View>
+        ) : (
+          <View style={styles.emptyState}>
+            <Result
+              style={{ backgroundColor: 'white' }}
+              figure={<Text style={styles.emptyStateIcon}>📊</Text>}
+              title="이 주에는 인증 기록이 없어요"
+              description="운동 인증이나 식단 인증을 추가하면 리포트가 만들어져요."
+            />
+          </View>
+        )}
+
+        <TrendSection entries={entries} />
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>주간 목표</Text>
+          <GoalProgressCard progress={weeklyProgress} streaks={streaks} />
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>업적</Text>
+          <AchievementList achievements={achievements} />
+        </View>
+
+        <ExportSection entries={entries} />
+
+        <ImportSection />
+      </View>
+    </ScrollView>
+  );
+}
@@ -0,0 +1,131 @@
+import React, { useMemo, useState } from 'react';
+import { Text, TouchableOpacity, View } from 'react-native';
+import { BarChart, LineChart, StackedBarChart } from '../../components/charts';
+import type { AuthenticationEntry } from '../../types';
+import {
+  CHART_RANGES,
+  type ChartRange,
+  buildCalorieTrend,
+  buildExerciseMinutesTrend,
+  buildHealthyFoodTrend,
+} from '../../utils/chartSeries';
+import { styles } from './styles';
+
+interface TrendSectionProps {
+  entries: AuthenticationEntry[];
+}
+
+const EXERCISE_TYPE_COLORS = [
+  '#3182F6',
+  '#38A169',
+  '#805AD5',
+  '#DD6B20',
+  '#A0AEC0',
+];
+
+export function TrendSection({ entries }: TrendSectionProps) {
+  const [range, setRange] = useState<ChartRange>(7);
+
+  const calorieTrend = useMemo(
+    () => buildCalorieTrend(entries, range),
+    [entries, range],
+  );
+  const exerciseTrend = useMemo(
+    () => buildExerciseMinutesTrend(entries, range),
+    [entries, range],
+  );
+  const healthyFoodTrend = useMemo(
+    () => buildHealthyFoodTrend(entries, range),
+    [entries, range],
+  );
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>추이</Text>
+
+      <View style={styles.rangeSelector}>
+        {CHART_RANGES.map((days) => (
+          <TouchableOpacity
+            key={days}
+            style={[
+              styles.rangeButton,
+              range === days && styles.rangeButtonSelected,
+            ]}
+            onPress={() => setRange(days)}
+          >
+            <Text
+              style={[
+                styles.rangeButtonText,
+                range === days && styles.rangeButtonTextSelected,
+              ]}
+            >
+              {days}일
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.chartCard}>
+        <Text style={styles.chartTitle}>섭취 vs 소모 칼로리</Text>
+        <BarChart
+          labels={calorieTrend.map((point) => point.label)}
+          series={[
+            {
+              label: '섭취',
+              color: '#F6AD55',
+              values: calorieTrend.map((point) => point.consumed),
+            },
+            {
+              label: '소모',
+              color: '#3182F6',
+              values: calorieTrend.map((point) => point.burned),
+            },
+          ]}
+          formatValue={(value) => `${value.toLocaleString()}kcal`}
+        />
+      </View>
+
+      <View style={styles.chartCard}>
+        <Text style={styles.chartTitle}>운동 종류별 운동 시간</Text>
+        {exerciseTrend.types.length > 0 ? (
+          <StackedBarChart
+            labels={exerciseTrend.buckets.map((bucket) => bucket.label)}
+            series={exerciseTrend.types.map((type, index) => ({
+              label: type,
+              color:
+                EXERCISE_TYPE_COLORS[index % EXERCISE_TYPE_COLORS.length] ??
+                '#A0AEC0',
+              values: exerciseTrend.buckets.map(
+                (bucket) => bucket.minutes[type] ?? 0,
+              ),
+            }))}
+            formatValue={(value) => `${value}분`}
+          />
+        ) : (
+          <Text style={styles.chartEmptyText}>
+            이 기간에 운동 기록이 없어요
+          </Text>
+        )}
+      </View>
+
+      <View style={styles.chartCard}>
+        <Text style={styles.chartTitle}>주별 건강한 식단 비율</Text>
+        <LineChart
+          labels={healthyFoodTrend.map((point) => point.label)}
+          series={[
+            {
+              label: '건강한 식단',
+              color: '#38A169',
+              // Weeks without meals have no ratio and leave a gap
+              values: healthyFoodTrend.map((point) =>
+                point.foodCount > 0 ? point.healthyFoodPercentage : Number.NaN,
+              ),
+            },
+          ]}
+          maxValue={100}
+          formatValue={(value) => `${value}%`}
+        />
+      </View>
+    </View>
+  );
+}
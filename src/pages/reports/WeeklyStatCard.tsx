@@ -0,0 +1,49 @@
+import type React from 'react';
+import { Text, View } from 'react-native';
+import { styles } from './styles';
+
+interface WeeklyStatCardProps {
+  label: string;
+  value: string;
+  change: number;
+  unit: string;
+  // 감소가 긍정적인 지표(예: 섭취 칼로리)는 false로 설정
+  higherIsBetter?: boolean;
+  children?: React.ReactNode;
+}
+
+const formatChange = (change: number, unit: string): string => {
+  if (change === 0) {
+    return '지난주와 같아요';
+  }
+  const sign = change > 0 ? '+' : '-';
+  return `지난주 대비 ${sign}${Math.abs(change).toLocaleString()}${unit}`;
+};
+
+export function WeeklyStatCard({
+  label,
+  value,
+  change,
+  unit,
+  higherIsBetter = true,
+  children,
+}: WeeklyStatCardProps) {
+  const isImprovement = higherIsBetter ? change > 0 : change < 0;
+
+  return (
+    <View style={styles.statCard}>
+      <Text style={styles.statLabel}>{label}</Text>
+      <Text style={styles.statValue}>{value}</Text>
+      {children}
+      <Text
+        style={[
+          styles.statChange,
+          change !== 0 &&
+            (isImprovement ? styles.statChangeGood : styles.statChangeBad),
+        ]}
+      >
+        {formatChange(change, unit)}
+      </Text>
+    </View>
+  );
+}
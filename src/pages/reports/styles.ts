@@ -0,0 +1,208 @@
+import { StyleSheet } from 'react-native';
+
+export const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F7FAFC',
+  },
+  content: {
+    padding: 20,
+  },
+  header: {
+    marginBottom: 24,
+    paddingTop: 20,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#1A202C',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#4A5568',
+  },
+  weekNavigator: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: 'white',
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+    marginBottom: 16,
+  },
+  weekNavButton: {
+    minWidth: 44,
+    minHeight: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  weekNavButtonText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#3182F6',
+  },
+  weekNavButtonTextDisabled: {
+    color: '#CBD5E0',
+  },
+  weekRange: {
+    alignItems: 'center',
+  },
+  weekRangeTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1A202C',
+  },
+  weekRangeSubtitle: {
+    fontSize: 12,
+    color: '#718096',
+    marginTop: 2,
+  },
+  statGrid: {
+    gap: 12,
+  },
+  statCard: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 18,
+  },
+  statLabel: {
+    fontSize: 14,
+    color: '#4A5568',
+    marginBottom: 6,
+  },
+  statValue: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#1A202C',
+  },
+  statChange: {
+    fontSize: 13,
+    color: '#718096',
+    marginTop: 8,
+  },
+  statChangeGood: {
+    color: '#38A169',
+  },
+  statChangeBad: {
+    color: '#E53E3E',
+  },
+  calorieBar: {
+    flexDirection: 'row',
+    height: 8,
+    borderRadius: 4,
+    overflow: 'hidden',
+    backgroundColor: '#EDF2F7',
+    marginTop: 12,
+  },
+  calorieBarBurned: {
+    backgroundColor: '#3182F6',
+  },
+  calorieBarConsumed: {
+    backgroundColor: '#F6AD55',
+  },
+  calorieLegend: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 6,
+  },
+  calorieLegendText: {
+    fontSize: 12,
+    color: '#718096',
+  },
+  section: {
+    marginTop: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1A202C',
+    marginBottom: 12,
+  },
+  rangeSelector: {
+    flexDirection: 'row',
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 4,
+    marginBottom: 12,
+  },
+  rangeButton: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  rangeButtonSelected: {
+    backgroundColor: '#3182F6',
+  },
+  rangeButtonText: {
+    fontSize: 14,
+    color: '#4A5568',
+  },
+  rangeButtonTextSelected: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  chartCard: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 12,
+  },
+  chartTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1A202C',
+    marginBottom: 12,
+  },
+  chartEmptyText: {
+    fontSize: 13,
+    color: '#718096',
+    textAlign: 'center',
+    paddingVertical: 24,
+  },
+  exportSummary: {
+    fontSize: 14,
+    color: '#4A5568',
+    marginBottom: 12,
+  },
+  exportButton: {
+    backgroundColor: '#3182F6',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  exportButtonDisabled: {
+    backgroundColor: '#CBD5E0',
+  },
+  exportButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: 'white',
+  },
+  importResult: {
+    marginTop: 16,
+    gap: 4,
+  },
+  importResultTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1A202C',
+  },
+  importSkippedRow: {
+    fontSize: 12,
+    color: '#718096',
+  },
+  emptyState: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 32,
+    alignItems: 'center',
+  },
+  emptyStateIcon: {
+    fontSize: 48,
+    marginBottom: 16,
+  },
+});
@@ -2,7 +2,9 @@ import type { Route as _IndexRoute } from '../pages';
 import type { Route as _AboutRoute } from '../pages/About';
 import type { Route as _ExerciseUploadRoute } from '../pages/ExerciseUpload';
 import type { Route as _FoodUploadRoute } from '../pages/FoodUpload';
+import type { Route as _HistoryRoute } from '../pages/History';
 import type { Route as _LoginRoute } from '../pages/Login';
+import type { Route as _ProfileRoute } from '../pages/Profile';
 /* eslint-disable */
 // This file is auto-generated by @granite-js/react-native. DO NOT EDIT.
 import type { Route as _ReportsRoute } from '../pages/Reports';
@@ -12,6 +14,8 @@ declare module '@granite-js/react-native' {
     '/food-upload': ReturnType<typeof _FoodUploadRoute.useParams>;
     '/exercise-upload': ReturnType<typeof _ExerciseUploadRoute.useParams>;
     '/reports': ReturnType<typeof _ReportsRoute.useParams>;
+    '/profile': ReturnType<typeof _ProfileRoute.useParams>;
+    '/history': ReturnType<typeof _HistoryRoute.useParams>;
     '/about': ReturnType<typeof _AboutRoute.useParams>;
     '/login': ReturnType<typeof _LoginRoute.useParams>;
     '/': ReturnType<typeof _IndexRoute.useParams>;
@@ -1,20 +1,167 @@
-import { featureFlags } from '../config';
-import { geminiAPIClient } from './GeminiAPIClient';
+/**
+ * Analysis provider registry
+ * Providers are tried in order; a retryable GeminiAPIError moves on to the next one
+ */
+
+import { analysisMode, isDevelopment } from '../config';
+import type { GeminiExerciseListResponse, GeminiFoodResponse } from '../types';
 import { backendAPIClient } from './BackendAPIClient';
-import type { GeminiExerciseResponse, GeminiFoodResponse } from '../types';
+import { GeminiAPIError, getGeminiAPIClient } from './GeminiAPIClient';
+import { mockAnalysisService } from './MockAnalysisService';
+
+export interface AnalysisRequestOptions {
+  // Provider to try first for this request
+  provider?: string;
+  // Set false to fail instead of trying the remaining providers
+  fallback?: boolean;
+}
 
-// Common interface for both clients
+// Common interface for every analysis provider
 export interface IAnalysisService {
-  analyzeExerciseScreenshot(imageUri: string): Promise<GeminiExerciseResponse>;
-  analyzeFoodPhoto(imageUri: string): Promise<GeminiFoodResponse>;
+  analyzeExerciseScreenshot(
+    imageUri: string,
+    options?: AnalysisRequestOptions,
+  ): Promise<GeminiExerciseListResponse>;
+  analyzeFoodPhoto(
+    imageUri: string,
+    options?: AnalysisRequestOptions,
+  ): Promise<GeminiFoodResponse>;
 }
 
-// Factory to get the appropriate service based on feature flag
-export const getAnalysisService = (): IAnalysisService => {
-  console.log('🔌 Current Analysis Service Mode:', featureFlags.useBackendAnalysis ? 'BACKEND (FastAPI)' : 'CLIENT (Direct Gemini)');
-  
-  if (featureFlags.useBackendAnalysis) {
-    return backendAPIClient;
+const RETRYABLE_ERROR_CODES = ['TIMEOUT_ERROR', 'NETWORK_ERROR'];
+
+/**
+ * Whether another provider may succeed where this one failed
+ * Bad images and unparseable answers would fail the same way everywhere
+ */
+export const isRetryableAnalysisError = (error: unknown): boolean => {
+  if (!(error instanceof GeminiAPIError)) {
+    return false;
+  }
+  if (error.statusCode !== undefined) {
+    return error.statusCode === 429 || error.statusCode >= 500;
+  }
+  return RETRYABLE_ERROR_CODES.includes(error.code);
+};
+
+export class AnalysisProviderRegistry implements IAnalysisService {
+  private providers = new Map<string, IAnalysisService>();
+  private preferredProvider: string | null = null;
+
+  /**
+   * Adds a provider; registration order is the fallback order
+   */
+  register(id: string, service: IAnalysisService): void {
+    this.providers.set(id, service);
+  }
+
+  unregister(id: string): void {
+    this.providers.delete(id);
+    if (this.preferredProvider === id) {
+      this.preferredProvider = null;
+    }
+  }
+
+  /**
+   * Selects the provider tried first for every later request
+   */
+  setPreferredProvider(id: string): void {
+    if (!this.providers.has(id)) {
+      throw new Error(`Unknown analysis provider: ${id}`);
+    }
+    this.preferredProvider = id;
+  }
+
+  getProviderIds(): string[] {
+    return [...this.providers.keys()];
+  }
+
+  analyzeExerciseScreenshot(
+    imageUri: string,
+    options?: AnalysisRequestOptions,
+  ): Promise<GeminiExerciseListResponse> {
+    return this.run(
+      (service) => service.analyzeExerciseScreenshot(imageUri),
+      options,
+    );
+  }
+
+  analyzeFoodPhoto(
+    imageUri: string,
+    options?: AnalysisRequestOptions,
+  ): Promise<GeminiFoodResponse> {
+    return this.run((service) => service.analyzeFoodPhoto(imageUri), options);
   }
-  return geminiAPIClient;
+
+  private getCandidates(options: AnalysisRequestOptions): string[] {
+    const first = options.provider ?? this.preferredProvider;
+    if (first && !this.providers.has(first)) {
+      throw new Error(`Unknown analysis provider: ${first}`);
+    }
+
+    const ids = this.getProviderIds();
+    const ordered = first ? [first, ...ids.filter((id) => id !== first)] : ids;
+    return options.fallback === false ? ordered.slice(0, 1) : ordered;
+  }
+
+  private async run<T>(
+    call: (service: IAnalysisService) => Promise<T>,
+    options: AnalysisRequestOptions = {},
+  ): Promise<T> {
+    const candidates = this.getCandidates(options);
+    if (candidates.length === 0) {
+      throw new GeminiAPIError(
+        '사용 가능한 분석 서비스가 없습니다.',
+        'CONFIGURATION_ERROR',
+      );
+    }
+
+    let lastError: unknown;
+    for (const id of candidates) {
+      const service = this.providers.get(id);
+      if (!service) {
+        continue;
+      }
+
+      try {
+        console.log('🔌 Analysis provider:', id);
+        return await call(service);
+      } catch (error) {
+        if (!isRetryableAnalysisError(error)) {
+          throw error;
+        }
+        console.warn(
+          `Analysis provider ${id} failed, trying the next one:`,
+          error,
+        );
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+}
+
+export const analysisProviderRegistry = new AnalysisProviderRegistry();
+
+// Mock mode stays offline: injected failures must not fall through to a live provider.
+// Direct Gemini is registered only in development; config validation enforces the proxy elsewhere.
+switch (analysisMode) {
+  case 'mock':
+    analysisProviderRegistry.register('mock', mockAnalysisService);
+    break;
+  case 'backend':
+    analysisProviderRegistry.register('backend', backendAPIClient);
+    if (isDevelopment()) {
+      analysisProviderRegistry.register('gemini', getGeminiAPIClient());
+    }
+    break;
+  case 'direct':
+    analysisProviderRegistry.register('gemini', getGeminiAPIClient());
+    analysisProviderRegistry.register('backend', backendAPIClient);
+    break;
+}
+
+export const getAnalysisService = (): IAnalysisService => {
+  return analysisProviderRegistry;
 };
@@ -1,12 +1,23 @@
 import { apiConfig, appSettings } from '../config';
-import { GeminiAPIError } from './GeminiAPIClient'; // Import Error class from existing client to maintain compatibility
+import {
+  GeminiAPIError,
+  parseAnalysisResult,
+  parseExerciseAnalysis,
+} from './GeminiAPIClient'; // Import Error class from existing client to maintain compatibility
 import type {
-  GeminiExerciseResponse,
+  GeminiExerciseListResponse,
   GeminiFoodResponse,
   ProcessedImage,
 } from '../types';
+import { foodAnalysisSchema } from '../utils/analysisSchema';
 import { ImageMemoryManager } from '../utils/imageProcessing';
 import { API_ERROR_MESSAGES } from './constants/gemini-api-constants';
+import {
+  type AuthorizedRequestInit,
+  SessionError,
+  authorizedFetch,
+  requireUserKey,
+} from './session';
 
 // Types for Backend API requests
 interface ImageAnalysisRequest {
@@ -19,12 +30,15 @@ interface ImageAnalysisRequest {
 class BackendHTTPClient {
   private readonly timeout: number = 60000; // 60 seconds (longer for backend processing)
 
-  async request<T>(url: string, options: RequestInit = {}): Promise<T> {
+  async request<T>(
+    url: string,
+    options: AuthorizedRequestInit = {},
+  ): Promise<T> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.timeout);
 
     try {
-      const response = await fetch(url, {
+      const response = await authorizedFetch(url, {
         ...options,
         signal: controller.signal,
         headers: {
@@ -155,6 +169,7 @@ export class BackendAPIClient {
   private async analyzeImage<T>(
     imageUri: string,
     endpoint: string,
+    parse: (value: unknown) => T,
     analysisType: string,
   ): Promise<T> {
     let processedImage: ProcessedImage | null = null;
@@ -173,19 +188,20 @@ export class BackendAPIClient {
 
       // Request payload
       const requestPayload: ImageAnalysisRequest = {
-        userKey: "test-user", // TODO: Replace with actual user key from auth context
+        userKey: requireUserKey(),
         imageData: processedImage.base64,
         mimeType: processedImage.mimeType,
       };
 
       // API Request
-      const result = await this.httpClient.request<T>(
+      const response = await this.httpClient.request<unknown>(
         `${this.baseUrl}${endpoint}`,
         {
           method: 'POST',
           body: JSON.stringify(requestPayload),
         }
       );
+      const result = parse(response);
 
       // Memory release
       ImageMemoryManager.releaseMemory(processedImage.size);
@@ -205,6 +221,10 @@ export class BackendAPIClient {
         throw error;
       }
 
+      if (error instanceof SessionError) {
+        throw new GeminiAPIError(error.message, 'AUTH_REQUIRED', 401);
+      }
+
       throw new GeminiAPIError(
         API_ERROR_MESSAGES.ANALYSIS_ERROR(
           analysisType,
@@ -218,10 +238,11 @@ export class BackendAPIClient {
   // Analyze exercise screenshot
   async analyzeExerciseScreenshot(
     imageUri: string,
-  ): Promise<GeminiExerciseResponse> {
-    return this.analyzeImage<GeminiExerciseResponse>(
+  ): Promise<GeminiExerciseListResponse> {
+    return this.analyzeImage<GeminiExerciseListResponse>(
       imageUri,
       '/api/analyze/exercise',
+      parseExerciseAnalysis,
       'Exercise',
     );
   }
@@ -231,6 +252,7 @@ export class BackendAPIClient {
     return this.analyzeImage<GeminiFoodResponse>(
       imageUri,
       '/api/analyze/food',
+      (value) => parseAnalysisResult(foodAnalysisSchema, value, 'food'),
       'Food',
     );
   }
@@ -2,14 +2,22 @@ import { appSettings, geminiConfig } from '../config';
 import type {
   GeminiAPIRequest,
   GeminiAPIResponse,
-  GeminiExerciseResponse,
+  GeminiExerciseListResponse,
   GeminiFoodResponse,
   ProcessedImage,
 } from '../types';
+import {
+  type SchemaIssue,
+  type SchemaNode,
+  exerciseListAnalysisSchema,
+  foodAnalysisSchema,
+  stripNullFields,
+  toGeminiResponseSchema,
+  validateAgainstSchema,
+} from '../utils/analysisSchema';
 import { ImageMemoryManager } from '../utils/imageProcessing';
 import {
   API_ERROR_MESSAGES,
-  VALID_MEAL_TYPES,
   exerciseAnalysisPrompt,
   foodAnalysisPrompt,
 } from './constants/gemini-api-constants';
@@ -27,6 +35,60 @@ export class GeminiAPIError extends Error {
   }
 }
 
+// An analysis result that does not match the shared schema
+export class AnalysisValidationError extends GeminiAPIError {
+  constructor(
+    analysisType: string,
+    public issues: SchemaIssue[],
+    details?: unknown,
+  ) {
+    super(
+      API_ERROR_MESSAGES.RESPONSE_VALIDATION_ERROR(
+        analysisType,
+        issues.map((issue) => `${issue.field} ${issue.message}`),
+      ),
+      'RESPONSE_VALIDATION_ERROR',
+      undefined,
+      details,
+    );
+    this.name = 'AnalysisValidationError';
+  }
+}
+
+/**
+ * Checks an analysis result against its schema; shared by every provider
+ */
+export const parseAnalysisResult = <T>(
+  schema: SchemaNode,
+  value: unknown,
+  analysisType: string,
+): T => {
+  const issues = validateAgainstSchema(schema, value);
+  if (issues.length > 0) {
+    throw new AnalysisValidationError(analysisType, issues, { value });
+  }
+  return stripNullFields(schema, value as T);
+};
+
+/**
+ * Checks an exercise analysis; a single workout object, as older proxies
+ * return it, is accepted as a one-item list
+ */
+export const parseExerciseAnalysis = (
+  value: unknown,
+): GeminiExerciseListResponse => {
+  const isSingleWorkout =
+    !!value &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    !('workouts' in value);
+  return parseAnalysisResult<GeminiExerciseListResponse>(
+    exerciseListAnalysisSchema,
+    isSingleWorkout ? { workouts: [value] } : value,
+    'exercise',
+  );
+};
+
 // HTTP request wrapper with timeout and error handling
 class HTTPClient {
   private readonly timeout: number = 30000; // 30 seconds
@@ -98,10 +160,17 @@ class HTTPClient {
 }
 
 // Main Gemini API Client
+// Calls Gemini with a client-side key, so it exists only in development builds
 export class GeminiAPIClient {
   private httpClient: HTTPClient;
 
   constructor() {
+    if (appSettings.environment !== 'development') {
+      throw new GeminiAPIError(
+        'Direct Gemini analysis is only available in development builds',
+        'CONFIGURATION_ERROR',
+      );
+    }
     this.httpClient = new HTTPClient();
   }
 
@@ -174,6 +243,7 @@ export class GeminiAPIClient {
   private async makeAPIRequest(
     processedImage: ProcessedImage,
     prompt: string,
+    schema: SchemaNode,
     currentDateTime?: string,
   ): Promise<GeminiAPIResponse> {
     // 현재 날짜와 시간 정보 추가
@@ -181,7 +251,7 @@ export class GeminiAPIClient {
     const dateTimeInfo = currentDateTime || now.toISOString();
     const dateInfo = dateTimeInfo.split('T')[0]; // YYYY-MM-DD
     const timeInfo = now.toLocaleTimeString('ko-KR', { hour12: false }); // HH:MM:SS
-    
+
     const enhancedPrompt = `${prompt}
 
 현재 날짜: ${dateInfo}
@@ -208,6 +278,9 @@ export class GeminiAPIClient {
         topK: 32,
         topP: 1,
         maxOutputTokens: 1024,
+        // Structured output: the answer is JSON matching the shared schema
+        responseMimeType: 'application/json',
+        responseSchema: toGeminiResponseSchema(schema),
       },
     };
 
@@ -228,7 +301,7 @@ export class GeminiAPIClient {
   private async analyzeImage<T>(
     imageUri: string,
     prompt: string,
-    parseFunction: (response: GeminiAPIResponse) => T,
+    schema: SchemaNode,
     analysisType: string,
   ): Promise<T> {
     this.validateConfig();
@@ -247,10 +320,22 @@ export class GeminiAPIClient {
       ImageMemoryManager.trackMemoryUsage(processedImage.size);
 
       // API 요청
-      const response = await this.makeAPIRequest(processedImage, prompt);
+      const response = await this.makeAPIRequest(
+        processedImage,
+        prompt,
+        schema,
+      );
 
-      // 응답 파싱
-      const result = parseFunction(response);
+      // 응답 파싱 및 스키마 검증
+      const result = parseAnalysisResult<T>(
+        schema,
+        this.parseJSON(response, analysisType),
+        analysisType.toLowerCase(),
+      );
+
+      if (appSettings.debugMode) {
+        console.log(`${analysisType} analysis completed:`, result);
+      }
 
       // 메모리 해제
       ImageMemoryManager.releaseMemory(processedImage.size);
@@ -279,61 +364,25 @@ export class GeminiAPIClient {
   // Analyze exercise screenshot
   async analyzeExerciseScreenshot(
     imageUri: string,
-  ): Promise<GeminiExerciseResponse> {
-    return this.analyzeImage(
+  ): Promise<GeminiExerciseListResponse> {
+    return this.analyzeImage<GeminiExerciseListResponse>(
       imageUri,
       exerciseAnalysisPrompt,
-      this.parseExerciseResponse.bind(this),
+      exerciseListAnalysisSchema,
       'Exercise',
     );
   }
 
   // Analyze food photo
   async analyzeFoodPhoto(imageUri: string): Promise<GeminiFoodResponse> {
-    return this.analyzeImage(
+    return this.analyzeImage<GeminiFoodResponse>(
       imageUri,
       foodAnalysisPrompt,
-      this.parseFoodResponse.bind(this),
+      foodAnalysisSchema,
       'Food',
     );
   }
 
-  // Convert HH:MM:SS duration to minutes
-  private convertDurationToMinutes(duration: string): number {
-    const parts = duration.split(':');
-    if (parts.length !== 3) {
-      throw new Error('Invalid duration format');
-    }
-
-    const hours = Number.parseInt(parts[0] || '0', 10);
-    const minutes = Number.parseInt(parts[1] || '0', 10);
-    const seconds = Number.parseInt(parts[2] || '0', 10);
-
-    if (Number.isNaN(hours) || Number.isNaN(minutes) || Number.isNaN(seconds)) {
-      throw new Error('Invalid duration values');
-    }
-
-    return hours * 60 + minutes + Math.round(seconds / 60);
-  }
-
-  // 공통 JSON 추출 로직
-  private extractJSON(textContent: string): string {
-    const jsonMatch =
-      textContent.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/) ||
-      textContent.match(/(\{[\s\S]*?\})/);
-
-    if (!jsonMatch || !jsonMatch[1]) {
-      throw new GeminiAPIError(
-        API_ERROR_MESSAGES.JSON_EXTRACTION_ERROR,
-        'JSON_EXTRACTION_ERROR',
-        undefined,
-        { textContent },
-      );
-    }
-
-    return jsonMatch[1];
-  }
-
   // 공통 응답 검증 로직
   private validateResponse(response: GeminiAPIResponse): string {
     if (!response.candidates || response.candidates.length === 0) {
@@ -373,166 +422,31 @@ export class GeminiAPIClient {
     return textContent;
   }
 
-  // Parse exercise response from Gemini API
-  private parseExerciseResponse(
+  // JSON mode returns the object as the whole text part
+  private parseJSON(
     response: GeminiAPIResponse,
-  ): GeminiExerciseResponse {
+    analysisType: string,
+  ): unknown {
+    const textContent = this.validateResponse(response);
     try {
-      const textContent = this.validateResponse(response);
-      const jsonString = this.extractJSON(textContent);
-      const parsedData = JSON.parse(jsonString);
-
-      // Validate required fields
-      const requiredFields = ['exerciseType', 'duration', 'calories', 'date'];
-      for (const field of requiredFields) {
-        if (!(field in parsedData)) {
-          throw new Error(`Missing required field: ${field}`);
-        }
-      }
-
-      // Validate data types and set defaults
-      if (typeof parsedData.exerciseType !== 'string') {
-        console.warn('exerciseType is not a string, setting default value');
-        parsedData.exerciseType = '운동';
-      }
-      if (typeof parsedData.duration !== 'string') {
-        console.warn(
-          'duration is not a string, setting default value to "00:00:00"',
-        );
-        parsedData.duration = '00:00:00';
-      }
-      if (typeof parsedData.calories !== 'number') {
-        console.warn('calories is not a number, setting default value to 0');
-        parsedData.calories = 0;
-      }
-      if (typeof parsedData.date !== 'string') {
-        console.warn('date is not a string, setting default value to today');
-        parsedData.date = new Date().toISOString().split('T')[0];
-      }
-      // distance는 선택적 필드이므로 null이거나 number여야 함
-      if (
-        parsedData.distance !== null &&
-        parsedData.distance !== undefined &&
-        typeof parsedData.distance !== 'number'
-      ) {
-        throw new Error('distance must be a number or null');
-      }
-      // if (typeof parsedData.confidence !== 'number') {
-      //   console.warn('confidence is not a number, setting default value to 0.5');
-      //   parsedData.confidence = 0.5;
-      // }
-
-      // Convert duration from HH:MM:SS to minutes
-      const durationMinutes = this.convertDurationToMinutes(
-        parsedData.duration,
-      );
-
-      if (appSettings.debugMode) {
-        console.log('Exercise analysis completed:', parsedData);
-        console.log('Duration converted to minutes:', durationMinutes);
-      }
-
-      return {
-        ...parsedData,
-        duration: durationMinutes,
-      } as GeminiExerciseResponse;
-    } catch (error) {
+      return JSON.parse(textContent);
+    } catch {
       throw new GeminiAPIError(
-        API_ERROR_MESSAGES.RESPONSE_PARSING_ERROR(
-          'exercise',
-          error instanceof Error ? error.message : 'Unknown error',
-        ),
-        'RESPONSE_PARSING_ERROR',
+        API_ERROR_MESSAGES.JSON_EXTRACTION_ERROR,
+        'JSON_EXTRACTION_ERROR',
         undefined,
-        { response },
+        { analysisType, textContent },
       );
     }
   }
+}
 
-  // Parse food response from Gemini API
-  private parseFoodResponse(response: GeminiAPIResponse): GeminiFoodResponse {
-    try {
-      const textContent = this.validateResponse(response);
-      const jsonString = this.extractJSON(textContent);
-      const parsedData = JSON.parse(jsonString);
-
-      // Validate required fields
-      const requiredFields = [
-        'isHealthy',
-        'ingredients',
-        'estimatedCalories',
-        'mealType',
-        'date',
-      ];
-      for (const field of requiredFields) {
-        if (!(field in parsedData)) {
-          throw new Error(`Missing required field: ${field}`);
-        }
-      }
-
-      // Validate data types
-      if (typeof parsedData.isHealthy !== 'boolean') {
-        throw new Error('isHealthy must be a boolean');
-      }
-      if (!Array.isArray(parsedData.ingredients)) {
-        throw new Error('ingredients must be an array');
-      }
-      // Validate each ingredient has name and color
-      for (const ingredient of parsedData.ingredients) {
-        if (typeof ingredient.name !== 'string') {
-          throw new Error('Each ingredient must have a name (string)');
-        }
-        if (typeof ingredient.color !== 'string') {
-          throw new Error('Each ingredient must have a color (string)');
-        }
-      }
-      if (typeof parsedData.estimatedCalories !== 'number') {
-        throw new Error('estimatedCalories must be a number');
-      }
-      if (typeof parsedData.mealType !== 'string') {
-        throw new Error('mealType must be a string');
-      }
-      if (typeof parsedData.date !== 'string') {
-        throw new Error('date must be a string');
-      }
-
-      // Validate date format (YYYY-MM-DD)
-      const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
-      if (!dateRegex.test(parsedData.date)) {
-        throw new Error('date must be in YYYY-MM-DD format');
-      }
-
-      // Validate meal type (한글과 영어 모두 허용)
-      if (!VALID_MEAL_TYPES.includes(parsedData.mealType.toLowerCase())) {
-        throw new Error(
-          `mealType must be one of: ${VALID_MEAL_TYPES.join(', ')}`,
-        );
-      }
-
-      // Ensure all ingredients have valid structure (already validated above)
-      // No additional validation needed here
-
-      console.log('✅ Food analysis completed:', JSON.stringify(parsedData, null, 2));
-      console.log('✅ Ingredients array:', parsedData.ingredients);
+let geminiAPIClient: GeminiAPIClient | null = null;
 
-      if (appSettings.debugMode) {
-        console.log('Food analysis completed:', parsedData);
-      }
-
-      return parsedData as GeminiFoodResponse;
-    } catch (error) {
-      throw new GeminiAPIError(
-        API_ERROR_MESSAGES.RESPONSE_PARSING_ERROR(
-          'food',
-          error instanceof Error ? error.message : 'Unknown error',
-        ),
-        'RESPONSE_PARSING_ERROR',
-        undefined,
-        { response },
-      );
-    }
+// Created on first use so non-development builds never construct it
+export const getGeminiAPIClient = (): GeminiAPIClient => {
+  if (!geminiAPIClient) {
+    geminiAPIClient = new GeminiAPIClient();
   }
-}
-
-// Export singleton instance
-export const geminiAPIClient = new GeminiAPIClient();
+  return geminiAPIClient;
+};
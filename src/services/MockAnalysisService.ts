@@ -0,0 +1,221 @@
+/**
+ * Offline analysis provider for development and tests
+ * Answers are deterministic per image URI: a fixture registered for the file name,
+ * otherwise a default fixture picked by a hash of the URI. The image itself is
+ * never read, so the same photo under another URI may get another fixture
+ */
+
+import type {
+  GeminiExerciseListResponse,
+  GeminiExerciseResponse,
+  GeminiFoodResponse,
+} from '../types';
+import { getCurrentDate } from '../utils/dataTransformers';
+import type { IAnalysisService } from './AnalysisServiceFactory';
+import { GeminiAPIError } from './GeminiAPIClient';
+import { API_ERROR_MESSAGES } from './constants/gemini-api-constants';
+
+// Mirrors the errors the real providers throw
+export type MockAnalysisFailure =
+  | 'timeout'
+  | 'gateway-timeout'
+  | 'malformed-json';
+
+// Fixtures without a date get today's date, like a live analysis
+type Fixture<T extends { date: string }> = Omit<T, 'date'> & { date?: string };
+
+// A single workout, or every workout of a multi-workout screenshot
+type ExerciseFixture =
+  | Fixture<GeminiExerciseResponse>
+  | Fixture<GeminiExerciseResponse>[];
+
+export interface MockAnalysisOptions {
+  latencyMs?: number;
+  exerciseFixtures?: Record<string, ExerciseFixture>;
+  foodFixtures?: Record<string, Fixture<GeminiFoodResponse>>;
+}
+
+const DEFAULT_EXERCISE_FIXTURES: ExerciseFixture[] = [
+  { exerciseType: '달리기', duration: 32, calories: 310, distance: 5.1 },
+  { exerciseType: '걷기', duration: 45, calories: 180, distance: 3.4 },
+  { exerciseType: '사이클링', duration: 60, calories: 420, distance: 18.2 },
+  // Calories are rarely shown for strength training, so the estimate is unsure
+  {
+    exerciseType: '웨이트 트레이닝',
+    duration: 50,
+    calories: 260,
+    confidence: 0.6,
+    fieldConfidence: { exerciseType: 0.9, duration: 0.85, calories: 0.4 },
+  },
+  // Daily summary screen listing two sessions
+  [
+    { exerciseType: '걷기', duration: 25, calories: 110, distance: 2.1 },
+    { exerciseType: '요가', duration: 40, calories: 150 },
+  ],
+];
+
+const DEFAULT_FOOD_FIXTURES: Fixture<GeminiFoodResponse>[] = [
+  {
+    isHealthy: true,
+    ingredients: [
+      { name: '현미밥', color: 'teal', grams: 210, calories: 310 },
+      { name: '닭가슴살', color: 'red', grams: 120, calories: 170 },
+      { name: '브로콜리', color: 'green', grams: 100, calories: 40 },
+    ],
+    estimatedCalories: 520,
+    macros: { protein: 42, carbs: 68, fat: 6 },
+    mealType: '점심식사',
+  },
+  {
+    isHealthy: false,
+    ingredients: [
+      { name: '라면', color: 'teal', grams: 550, calories: 530 },
+      { name: '계란', color: 'red', grams: 50, calories: 80 },
+    ],
+    estimatedCalories: 610,
+    macros: { protein: 15, carbs: 80, fat: 25 },
+    mealType: '저녁식사',
+    confidence: 0.7,
+    fieldConfidence: {
+      mealType: 0.8,
+      ingredients: 0.9,
+      estimatedCalories: 0.55,
+    },
+  },
+  {
+    isHealthy: true,
+    ingredients: [
+      { name: '그릭요거트', color: 'teal' },
+      { name: '블루베리', color: 'green' },
+    ],
+    estimatedCalories: 210,
+    mealType: '아침식사',
+  },
+];
+
+/**
+ * Stable 32-bit FNV-1a hash of the image URI string, not of the image bytes
+ */
+export const hashImageUri = (imageUri: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < imageUri.length; i++) {
+    hash ^= imageUri.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const getFileName = (imageUri: string): string => {
+  return imageUri.split('?')[0]?.split('/').pop() ?? imageUri;
+};
+
+const createFailure = (failure: MockAnalysisFailure): GeminiAPIError => {
+  switch (failure) {
+    case 'timeout':
+      return new GeminiAPIError(
+        API_ERROR_MESSAGES.TIMEOUT_ERROR,
+        'TIMEOUT_ERROR',
+      );
+    case 'gateway-timeout':
+      return new GeminiAPIError(
+        API_ERROR_MESSAGES.TIMEOUT_ERROR,
+        'TIMEOUT_ERROR',
+        504,
+      );
+    case 'malformed-json':
+      return new GeminiAPIError(
+        API_ERROR_MESSAGES.JSON_EXTRACTION_ERROR,
+        'JSON_EXTRACTION_ERROR',
+      );
+  }
+};
+
+export class MockAnalysisService implements IAnalysisService {
+  private latencyMs: number;
+  private exerciseFixtures: Record<string, ExerciseFixture>;
+  private foodFixtures: Record<string, Fixture<GeminiFoodResponse>>;
+  private pendingFailures: MockAnalysisFailure[] = [];
+
+  constructor(options: MockAnalysisOptions = {}) {
+    this.latencyMs = options.latencyMs ?? 0;
+    this.exerciseFixtures = { ...options.exerciseFixtures };
+    this.foodFixtures = { ...options.foodFixtures };
+  }
+
+  setLatency(latencyMs: number): void {
+    this.latencyMs = latencyMs;
+  }
+
+  /**
+   * Makes the next `times` analyses fail, in call order
+   */
+  injectFailure(failure: MockAnalysisFailure, times = 1): void {
+    for (let i = 0; i < times; i++) {
+      this.pendingFailures.push(failure);
+    }
+  }
+
+  reset(): void {
+    this.pendingFailures = [];
+  }
+
+  async analyzeExerciseScreenshot(
+    imageUri: string,
+  ): Promise<GeminiExerciseListResponse> {
+    const fixture = await this.resolve(
+      imageUri,
+      this.exerciseFixtures,
+      DEFAULT_EXERCISE_FIXTURES,
+    );
+    const workouts = Array.isArray(fixture) ? fixture : [fixture];
+    return {
+      workouts: workouts.map((workout) => ({
+        ...workout,
+        date: workout.date ?? getCurrentDate(),
+      })),
+    };
+  }
+
+  async analyzeFoodPhoto(imageUri: string): Promise<GeminiFoodResponse> {
+    const fixture = await this.resolve(
+      imageUri,
+      this.foodFixtures,
+      DEFAULT_FOOD_FIXTURES,
+    );
+    return {
+      ...fixture,
+      ingredients: fixture.ingredients.map((ingredient) => ({ ...ingredient })),
+      date: fixture.date ?? getCurrentDate(),
+    };
+  }
+
+  private async resolve<T>(
+    imageUri: string,
+    fixtures: Record<string, T>,
+    defaults: T[],
+  ): Promise<T> {
+    if (this.latencyMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.latencyMs));
+    }
+
+    const failure = this.pendingFailures.shift();
+    if (failure) {
+      throw createFailure(failure);
+    }
+
+    const hash = hashImageUri(imageUri);
+    const fixture =
+      fixtures[getFileName(imageUri)] ??
+      fixtures[String(hash)] ??
+      defaults[hash % defaults.length];
+    if (!fixture) {
+      throw new GeminiAPIError(
+        API_ERROR_MESSAGES.CONFIGURATION_ERROR('mock fixtures'),
+        'CONFIGURATION_ERROR',
+      );
+    }
+    return fixture;
+  }
+}
+
+export const mockAnalysisService = new MockAnalysisService();
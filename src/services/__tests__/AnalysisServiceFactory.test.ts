@@ -0,0 +1,124 @@
+import type { GeminiExerciseListResponse } from '../../types';
+import {
+  AnalysisProviderRegistry,
+  type IAnalysisService,
+  isRetryableAnalysisError,
+} from '../AnalysisServiceFactory';
+import { GeminiAPIError } from '../GeminiAPIClient';
+
+const exerciseResult = (exerciseType: string): GeminiExerciseListResponse => ({
+  workouts: [{ exerciseType, duration: 30, calories: 300, date: '2024-01-15' }],
+});
+
+const createProvider = (
+  analyzeExerciseScreenshot: IAnalysisService['analyzeExerciseScreenshot'],
+): IAnalysisService => ({
+  analyzeExerciseScreenshot: jest.fn(analyzeExerciseScreenshot),
+  analyzeFoodPhoto: jest.fn(),
+});
+
+describe('isRetryableAnalysisError', () => {
+  it('should retry timeouts, network failures and server errors', () => {
+    expect(
+      isRetryableAnalysisError(new GeminiAPIError('timeout', 'TIMEOUT_ERROR')),
+    ).toBe(true);
+    expect(
+      isRetryableAnalysisError(new GeminiAPIError('down', 'HTTP_ERROR', 503)),
+    ).toBe(true);
+    expect(
+      isRetryableAnalysisError(new GeminiAPIError('busy', 'HTTP_ERROR', 429)),
+    ).toBe(true);
+  });
+
+  it('should not retry errors every provider would repeat', () => {
+    expect(
+      isRetryableAnalysisError(new GeminiAPIError('bad', 'HTTP_ERROR', 400)),
+    ).toBe(false);
+    expect(
+      isRetryableAnalysisError(
+        new GeminiAPIError('unparseable', 'RESPONSE_PARSING_ERROR'),
+      ),
+    ).toBe(false);
+    expect(isRetryableAnalysisError(new Error('boom'))).toBe(false);
+  });
+});
+
+describe('AnalysisProviderRegistry', () => {
+  let registry: AnalysisProviderRegistry;
+  let primary: IAnalysisService;
+  let secondary: IAnalysisService;
+
+  beforeEach(() => {
+    registry = new AnalysisProviderRegistry();
+    primary = createProvider(async () => exerciseResult('달리기'));
+    secondary = createProvider(async () => exerciseResult('수영'));
+    registry.register('primary', primary);
+    registry.register('secondary', secondary);
+  });
+
+  it('should use the preferred provider', async () => {
+    registry.setPreferredProvider('secondary');
+
+    const result = await registry.analyzeExerciseScreenshot('file://a.jpg');
+
+    expect(result.workouts[0]?.exerciseType).toBe('수영');
+    expect(primary.analyzeExerciseScreenshot).not.toHaveBeenCalled();
+  });
+
+  it('should honor a provider selected for one request', async () => {
+    const result = await registry.analyzeExerciseScreenshot('file://a.jpg', {
+      provider: 'secondary',
+    });
+
+    expect(result.workouts[0]?.exerciseType).toBe('수영');
+  });
+
+  it('should fall back to the next provider on a retryable error', async () => {
+    registry.register(
+      'primary',
+      createProvider(async () => {
+        throw new GeminiAPIError('timeout', 'TIMEOUT_ERROR');
+      }),
+    );
+
+    const result = await registry.analyzeExerciseScreenshot('file://a.jpg');
+
+    expect(result.workouts[0]?.exerciseType).toBe('수영');
+  });
+
+  it('should rethrow errors that are not retryable', async () => {
+    const error = new GeminiAPIError('bad image', 'IMAGE_READ_ERROR');
+    registry.register(
+      'primary',
+      createProvider(async () => {
+        throw error;
+      }),
+    );
+
+    await expect(
+      registry.analyzeExerciseScreenshot('file://a.jpg'),
+    ).rejects.toBe(error);
+    expect(secondary.analyzeExerciseScreenshot).not.toHaveBeenCalled();
+  });
+
+  it('should not fall back when fallback is disabled', async () => {
+    const error = new GeminiAPIError('down', 'HTTP_ERROR', 503);
+    registry.register(
+      'primary',
+      createProvider(async () => {
+        throw error;
+      }),
+    );
+
+    await expect(
+      registry.analyzeExerciseScreenshot('file://a.jpg', { fallback: false }),
+    ).rejects.toBe(error);
+    expect(secondary.analyzeExerciseScreenshot).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown providers', () => {
+    expect(() => registry.setPreferredProvider('missing')).toThrow(
+      'Unknown analysis provider: missing',
+    );
+  });
+});
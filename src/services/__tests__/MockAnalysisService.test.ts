@@ -0,0 +1,124 @@
+import { AnalysisProviderRegistry } from '../AnalysisServiceFactory';
+import { GeminiAPIError } from '../GeminiAPIClient';
+import { MockAnalysisService, hashImageUri } from '../MockAnalysisService';
+
+describe('MockAnalysisService', () => {
+  it('should answer the same image the same way', async () => {
+    const service = new MockAnalysisService();
+
+    const first = await service.analyzeFoodPhoto('file:///photos/lunch.jpg');
+    const second = await service.analyzeFoodPhoto('file:///photos/lunch.jpg');
+
+    expect(second).toEqual(first);
+    expect(first.date).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+  });
+
+  it('should pick default fixtures from the URI alone', async () => {
+    const uri = 'file:///photos/lunch.jpg';
+
+    // Another instance knows nothing about the first: only the URI decides
+    expect(await new MockAnalysisService().analyzeFoodPhoto(uri)).toEqual(
+      await new MockAnalysisService().analyzeFoodPhoto(uri),
+    );
+    expect(hashImageUri(uri)).toBe(hashImageUri(uri));
+    // A compressed copy of the same photo has its own URI and hash
+    expect(hashImageUri(`${uri}?compressed=1`)).not.toBe(hashImageUri(uri));
+  });
+
+  it('should prefer a fixture registered for the file name', async () => {
+    const service = new MockAnalysisService({
+      exerciseFixtures: {
+        'run.png': {
+          exerciseType: '달리기',
+          duration: 25,
+          calories: 250,
+          distance: 4,
+          date: '2024-01-15',
+        },
+      },
+    });
+
+    await expect(
+      service.analyzeExerciseScreenshot('file:///tmp/run.png?size=large'),
+    ).resolves.toEqual({
+      workouts: [
+        {
+          exerciseType: '달리기',
+          duration: 25,
+          calories: 250,
+          distance: 4,
+          date: '2024-01-15',
+        },
+      ],
+    });
+  });
+
+  it('should return every workout of a multi-workout fixture', async () => {
+    const service = new MockAnalysisService({
+      exerciseFixtures: {
+        'summary.png': [
+          { exerciseType: '걷기', duration: 20, calories: 90 },
+          { exerciseType: '수영', duration: 30, calories: 280 },
+        ],
+      },
+    });
+
+    const { workouts } = await service.analyzeExerciseScreenshot(
+      'file:///tmp/summary.png',
+    );
+
+    expect(workouts.map((workout) => workout.exerciseType)).toEqual([
+      '걷기',
+      '수영',
+    ]);
+    expect(workouts.every((workout) => workout.date)).toBe(true);
+  });
+
+  it('should fail the next calls with injected errors', async () => {
+    const service = new MockAnalysisService();
+    service.injectFailure('gateway-timeout');
+    service.injectFailure('malformed-json');
+
+    await expect(
+      service.analyzeExerciseScreenshot('file:///a.png'),
+    ).rejects.toMatchObject({ code: 'TIMEOUT_ERROR', statusCode: 504 });
+    await expect(
+      service.analyzeExerciseScreenshot('file:///a.png'),
+    ).rejects.toMatchObject({ code: 'JSON_EXTRACTION_ERROR' });
+    await expect(
+      service.analyzeExerciseScreenshot('file:///a.png'),
+    ).resolves.toHaveProperty('workouts.0.exerciseType');
+  });
+
+  it('should wait for the configured latency', async () => {
+    jest.useFakeTimers();
+    const service = new MockAnalysisService({ latencyMs: 1000 });
+    const onResult = jest.fn();
+
+    service.analyzeFoodPhoto('file:///a.jpg').then(onResult);
+    await jest.advanceTimersByTimeAsync(999);
+    expect(onResult).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(onResult).toHaveBeenCalled();
+    jest.useRealTimers();
+  });
+
+  it('should drive registry fallback like a live provider', async () => {
+    const flaky = new MockAnalysisService();
+    const stable = new MockAnalysisService();
+    flaky.injectFailure('timeout');
+    const registry = new AnalysisProviderRegistry();
+    registry.register('flaky', flaky);
+    registry.register('stable', stable);
+
+    await expect(registry.analyzeFoodPhoto('file:///a.jpg')).resolves.toEqual(
+      await stable.analyzeFoodPhoto('file:///a.jpg'),
+    );
+
+    flaky.injectFailure('malformed-json');
+    await expect(registry.analyzeFoodPhoto('file:///a.jpg')).rejects.toThrow(
+      GeminiAPIError,
+    );
+  });
+});
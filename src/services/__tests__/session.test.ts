@@ -0,0 +1,141 @@
+import { useAuthStore } from '../../store/authStore';
+import type { TossAuthResponse } from '../../types/tossAuth';
+import {
+  SessionError,
+  authorizedFetch,
+  deriveUserKey,
+  getAccessToken,
+  requireUserKey,
+} from '../session';
+import { tossAuthClient } from '../tossAuthClient';
+
+jest.mock('../tossAuthClient', () => ({
+  tossAuthClient: {
+    refreshSessionToken: jest.fn(),
+  },
+}));
+
+const mockRefresh = tossAuthClient.refreshSessionToken as jest.Mock;
+
+const authResult: TossAuthResponse = {
+  txId: 'tx-1',
+  userKey: ' user-123 ',
+  userData: { name: '홍길동' },
+  signature: 'signature',
+  completedAt: '2024-01-15T09:00:00.000Z',
+};
+
+const signIn = (expiresIn = 3600) => {
+  useAuthStore.getState().setSession({
+    user: authResult.userData,
+    txId: authResult.txId,
+    userKey: 'user-123',
+    tokens: { accessToken: 'access-1', refreshToken: 'refresh-1', expiresIn },
+  });
+};
+
+describe('session', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    useAuthStore.getState().reset();
+  });
+
+  it('should derive the user key from the Toss auth result', () => {
+    expect(deriveUserKey(authResult)).toBe('user-123');
+  });
+
+  it('should reject auth results without a user key', () => {
+    expect(() => deriveUserKey({ ...authResult, userKey: undefined })).toThrow(
+      SessionError,
+    );
+  });
+
+  it('should require a signed-in user', () => {
+    expect(() => requireUserKey()).toThrow(SessionError);
+
+    signIn();
+    expect(requireUserKey()).toBe('user-123');
+  });
+});
+
+describe('access token', () => {
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    useAuthStore.getState().reset();
+    global.fetch = fetchMock;
+  });
+
+  it('should use the stored token while it is fresh', async () => {
+    signIn();
+
+    await expect(getAccessToken()).resolves.toBe('access-1');
+    expect(mockRefresh).not.toHaveBeenCalled();
+  });
+
+  it('should refresh the token shortly before it expires', async () => {
+    signIn(30);
+    mockRefresh.mockResolvedValue({
+      accessToken: 'access-2',
+      refreshToken: 'refresh-2',
+      expiresIn: 3600,
+    });
+
+    await expect(getAccessToken()).resolves.toBe('access-2');
+    expect(mockRefresh).toHaveBeenCalledWith('refresh-1');
+    expect(useAuthStore.getState().refreshToken).toBe('refresh-2');
+  });
+
+  it('should issue an access token for a session restored on launch', async () => {
+    signIn();
+    useAuthStore.setState({ accessToken: null, expiresAt: null });
+    mockRefresh.mockResolvedValue({
+      accessToken: 'access-2',
+      refreshToken: 'refresh-2',
+      expiresIn: 3600,
+    });
+
+    await expect(getAccessToken()).resolves.toBe('access-2');
+    expect(mockRefresh).toHaveBeenCalledWith('refresh-1');
+  });
+
+  it('should end the session when the refresh token is rejected', async () => {
+    signIn(30);
+    mockRefresh.mockRejectedValue({ message: 'Unauthorized', statusCode: 401 });
+
+    await expect(getAccessToken()).resolves.toBeNull();
+    expect(useAuthStore.getState().userKey).toBeNull();
+    expect(useAuthStore.getState().lastUserKey).toBe('user-123');
+  });
+
+  it('should send the bearer token and retry once after a 401', async () => {
+    signIn();
+    mockRefresh.mockResolvedValue({
+      accessToken: 'access-2',
+      refreshToken: 'refresh-2',
+      expiresIn: 3600,
+    });
+    fetchMock
+      .mockResolvedValueOnce({ status: 401 })
+      .mockResolvedValueOnce({ status: 200 });
+
+    const response = await authorizedFetch('https://api.test/logs', {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenNthCalledWith(1, 'https://api.test/logs', {
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: 'Bearer access-1',
+      },
+    });
+    expect(fetchMock).toHaveBeenLastCalledWith('https://api.test/logs', {
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: 'Bearer access-2',
+      },
+    });
+  });
+});
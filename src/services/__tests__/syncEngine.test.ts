@@ -0,0 +1,175 @@
+import { ApiRequestError } from '../../api/apiClient';
+import { useSyncStateStore } from '../../store/syncState';
+import type { ExerciseEntry, FoodEntry } from '../../types';
+import { apiService } from '../api';
+import { pullServerChanges, reconcileEntries } from '../syncEngine';
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(() => Promise.resolve(null)),
+  setItem: jest.fn(() => Promise.resolve()),
+  removeItem: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock('../api', () => ({
+  apiService: {
+    getExerciseLogs: jest.fn(),
+    getFoodLogs: jest.fn(),
+    getTodayExerciseLogs: jest.fn(),
+    getTodayFoodLogs: jest.fn(),
+  },
+}));
+
+const mockApi = apiService as jest.Mocked<typeof apiService>;
+
+const exercise = (overrides: Partial<ExerciseEntry> = {}): ExerciseEntry => ({
+  id: '1',
+  type: 'exercise',
+  exerciseType: '달리기',
+  duration: 30,
+  calories: 300,
+  date: '2024-01-15',
+  timestamp: '2024-01-15T09:00:00.000Z',
+  createdAt: '2024-01-15T09:00:00.000Z',
+  ...overrides,
+});
+
+const food = (overrides: Partial<FoodEntry> = {}): FoodEntry => ({
+  id: '2',
+  type: 'food',
+  isHealthy: true,
+  mainIngredients: ['밥', '김치'],
+  estimatedCalories: 500,
+  mealType: '점심식사',
+  date: '2024-01-15',
+  timestamp: '2024-01-15T12:00:00.000Z',
+  createdAt: '2024-01-15T12:00:00.000Z',
+  ...overrides,
+});
+
+describe('reconcileEntries', () => {
+  it('should replace local rows with server rows and add new ones', () => {
+    const local = [exercise({ calories: 100 })];
+    const serverFood = food();
+
+    const { entries } = reconcileEntries(local, {
+      upserts: [exercise({ calories: 350 }), serverFood],
+      deletedIds: [],
+    });
+
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toBe(serverFood);
+    expect(entries[1]).toMatchObject({ id: '1', calories: 350 });
+  });
+
+  it('should adopt pending entries the server already stored', () => {
+    const pending = food({
+      id: 'local-key',
+      mainIngredients: ['김치', '밥'],
+      syncStatus: 'pending',
+    });
+
+    const result = reconcileEntries([pending], {
+      upserts: [food({ id: '99' })],
+      deletedIds: [],
+    });
+
+    expect(result.adoptedLocalIds).toEqual(['local-key']);
+    expect(result.entries).toHaveLength(1);
+    expect(result.entries[0]?.id).toBe('99');
+    expect(result.entries[0]?.syncStatus).toBeUndefined();
+  });
+
+  it('should drop deleted confirmed rows but keep pending ones', () => {
+    const local = [
+      exercise({ id: '5' }),
+      exercise({ id: '6', syncStatus: 'failed' }),
+    ];
+
+    const { entries } = reconcileEntries(local, {
+      upserts: [],
+      deletedIds: ['5', '6'],
+    });
+
+    expect(entries.map((entry) => entry.id)).toEqual(['6']);
+  });
+
+  it('should drop confirmed rows missing from a snapshot range', () => {
+    const local = [
+      exercise({ id: '10', date: '2024-01-10' }),
+      exercise({ id: '11', date: '2024-01-02' }),
+      food({ id: '12', date: '2024-01-10' }),
+    ];
+
+    const { entries } = reconcileEntries(local, {
+      upserts: [],
+      deletedIds: [],
+      snapshot: {
+        startDate: '2024-01-08',
+        endDate: '2024-01-14',
+        types: ['exercise'],
+      },
+    });
+
+    expect(entries.map((entry) => entry.id)).toEqual(['11', '12']);
+  });
+});
+
+describe('pullServerChanges', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    useSyncStateStore.setState({ watermarks: {} });
+  });
+
+  it('should follow cursors and pull incrementally from the watermark', async () => {
+    useSyncStateStore.setState({
+      watermarks: { 'user-1': '2024-01-01T00:00:00.000Z' },
+    });
+    mockApi.getExerciseLogs
+      .mockResolvedValueOnce({
+        items: [exercise()],
+        deletedIds: ['3'],
+        nextCursor: 'page-2',
+        serverTime: '2024-01-20T00:00:00.000Z',
+      })
+      .mockResolvedValueOnce({
+        items: [exercise({ id: '4' })],
+        deletedIds: [],
+        nextCursor: null,
+        serverTime: '2024-01-20T00:00:01.000Z',
+      });
+    mockApi.getFoodLogs.mockResolvedValue({
+      items: [],
+      deletedIds: [],
+      nextCursor: null,
+      serverTime: '2024-01-19T23:59:59.000Z',
+    });
+
+    const { changes, serverTime } = await pullServerChanges('user-1');
+
+    expect(mockApi.getExerciseLogs).toHaveBeenLastCalledWith('user-1', {
+      updatedSince: '2024-01-01T00:00:00.000Z',
+      cursor: 'page-2',
+    });
+    expect(changes.upserts.map((entry) => entry.id)).toEqual(['1', '4']);
+    expect(changes.deletedIds).toEqual(['3']);
+    expect(changes.snapshot).toBeUndefined();
+    expect(serverTime).toBe('2024-01-19T23:59:59.000Z');
+  });
+
+  it("should fall back to today's logs when history is not supported", async () => {
+    mockApi.getExerciseLogs.mockRejectedValue(
+      new ApiRequestError('Not Found', 404),
+    );
+    mockApi.getFoodLogs.mockRejectedValue(
+      new ApiRequestError('Not Found', 404),
+    );
+    mockApi.getTodayExerciseLogs.mockResolvedValue([exercise()]);
+    mockApi.getTodayFoodLogs.mockResolvedValue([food()]);
+
+    const { changes, serverTime } = await pullServerChanges('user-1');
+
+    expect(changes.upserts).toHaveLength(2);
+    expect(changes.snapshot).toBeUndefined();
+    expect(serverTime).toBeNull();
+  });
+});
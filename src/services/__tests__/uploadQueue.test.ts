@@ -0,0 +1,186 @@
+import { ApiRequestError, logExercise, logFood } from '../../api/apiClient';
+import { useHealthTrackerStore } from '../../store/healthTracker';
+import { useUploadQueueStore } from '../../store/uploadQueue';
+import {
+  MAX_UPLOAD_ATTEMPTS,
+  getRetryDelay,
+  isRetryableUploadError,
+  queueExerciseUpload,
+  queueFoodUpload,
+  replayPendingUploads,
+  startUploadQueueSync,
+} from '../uploadQueue';
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(() => Promise.resolve(null)),
+  setItem: jest.fn(() => Promise.resolve()),
+  removeItem: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock('../../api/apiClient', () => ({
+  ...jest.requireActual('../../api/apiClient'),
+  logExercise: jest.fn(),
+  logFood: jest.fn(),
+}));
+
+const mockLogExercise = logExercise as jest.Mock;
+const mockLogFood = logFood as jest.Mock;
+
+const exercisePayload = {
+  userKey: 'user-1',
+  exerciseType: '달리기',
+  duration: 30,
+  calories: 300,
+  distance: 5,
+  date: '2024-01-15',
+};
+
+const foodPayload = {
+  userKey: 'user-1',
+  isHealthy: true,
+  ingredients: [{ name: '샐러드', color: 'green' as const }],
+  estimatedCalories: 250,
+  mealType: '점심식사',
+  date: '2024-01-15',
+};
+
+describe('upload queue', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    useHealthTrackerStore.setState({ entries: [], error: null });
+    useUploadQueueStore.setState({ items: [] });
+  });
+
+  it('should show queued uploads as pending entries', () => {
+    queueExerciseUpload(exercisePayload, 'key-1');
+
+    const { entries } = useHealthTrackerStore.getState();
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      id: 'key-1',
+      type: 'exercise',
+      syncStatus: 'pending',
+    });
+    expect(useUploadQueueStore.getState().items).toHaveLength(1);
+  });
+
+  it('should replay with the idempotency key and confirm the server id', async () => {
+    mockLogFood.mockResolvedValue({ ...foodPayload, id: 42 });
+    queueFoodUpload(foodPayload, 'key-2');
+
+    await replayPendingUploads();
+
+    expect(mockLogFood).toHaveBeenCalledWith(foodPayload, {
+      idempotencyKey: 'key-2',
+    });
+    expect(useUploadQueueStore.getState().items).toHaveLength(0);
+    const [entry] = useHealthTrackerStore.getState().entries;
+    expect(entry?.id).toBe('42');
+    expect(entry?.syncStatus).toBeUndefined();
+  });
+
+  it('should back off and stop after a network failure', async () => {
+    mockLogExercise.mockRejectedValue(
+      new ApiRequestError('Network request failed', undefined, true),
+    );
+    queueExerciseUpload(exercisePayload, 'key-3');
+    queueExerciseUpload(exercisePayload, 'key-4');
+
+    const now = Date.now();
+    await replayPendingUploads(now);
+
+    expect(mockLogExercise).toHaveBeenCalledTimes(1);
+    const [first, second] = useUploadQueueStore.getState().items;
+    expect(first).toMatchObject({
+      status: 'pending',
+      attempts: 1,
+      nextAttemptAt: now + getRetryDelay(0),
+    });
+    expect(second?.attempts).toBe(0);
+  });
+
+  it('should mark uploads rejected by the server as failed', async () => {
+    mockLogExercise.mockRejectedValue(new ApiRequestError('Invalid', 422));
+    queueExerciseUpload(exercisePayload, 'key-5');
+
+    await replayPendingUploads();
+
+    expect(useUploadQueueStore.getState().items[0]?.status).toBe('failed');
+    expect(useHealthTrackerStore.getState().entries[0]?.syncStatus).toBe(
+      'failed',
+    );
+  });
+
+  it('should give up on server errors after the last attempt', async () => {
+    mockLogExercise.mockRejectedValue(new ApiRequestError('Down', 500));
+    queueExerciseUpload(exercisePayload, 'key-7');
+    useUploadQueueStore.setState((state) => ({
+      items: state.items.map((item) => ({
+        ...item,
+        attempts: MAX_UPLOAD_ATTEMPTS - 1,
+      })),
+    }));
+
+    await replayPendingUploads();
+
+    expect(useUploadQueueStore.getState().items[0]).toMatchObject({
+      status: 'failed',
+      attempts: MAX_UPLOAD_ATTEMPTS,
+    });
+    expect(useHealthTrackerStore.getState().entries[0]?.syncStatus).toBe(
+      'failed',
+    );
+  });
+
+  it('should retry when the backoff delay runs out', async () => {
+    jest.useFakeTimers();
+    mockLogExercise
+      .mockRejectedValueOnce(new ApiRequestError('Down', 503))
+      .mockResolvedValue({ ...exercisePayload, id: 7 });
+    const stop = startUploadQueueSync();
+
+    queueExerciseUpload(exercisePayload, 'key-8');
+    await jest.advanceTimersByTimeAsync(0);
+    expect(mockLogExercise).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(getRetryDelay(0));
+    expect(mockLogExercise).toHaveBeenCalledTimes(2);
+    expect(useUploadQueueStore.getState().items).toHaveLength(0);
+
+    stop();
+    jest.useRealTimers();
+  });
+
+  it('should mark unexpected errors as failed instead of retrying', async () => {
+    mockLogExercise.mockRejectedValue(
+      new TypeError("Cannot read properties of undefined (reading 'id')"),
+    );
+    queueExerciseUpload(exercisePayload, 'key-6');
+
+    await replayPendingUploads();
+
+    expect(useUploadQueueStore.getState().items[0]?.status).toBe('failed');
+  });
+
+  it('should only retry network failures and timeouts', () => {
+    const timeout = new Error('The operation was aborted');
+    timeout.name = 'AbortError';
+
+    expect(
+      isRetryableUploadError(new TypeError('Network request failed')),
+    ).toBe(true);
+    expect(isRetryableUploadError(timeout)).toBe(true);
+    expect(isRetryableUploadError(new ApiRequestError('Busy', 503))).toBe(true);
+    expect(isRetryableUploadError(new ApiRequestError('Invalid', 422))).toBe(
+      false,
+    );
+    expect(isRetryableUploadError(new Error('Quota exceeded'))).toBe(false);
+    expect(isRetryableUploadError('offline')).toBe(false);
+  });
+
+  it('should cap the retry delay', () => {
+    expect(getRetryDelay(0)).toBe(5000);
+    expect(getRetryDelay(1)).toBe(10000);
+    expect(getRetryDelay(20)).toBe(10 * 60 * 1000);
+  });
+});
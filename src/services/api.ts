@@ -1,4 +1,7 @@
-import type { ExerciseEntry, FoodEntry } from '../types';
+import { ApiRequestError } from '../api/apiClient';
+import type { ExerciseEntry, FoodEntry, Macronutrients } from '../types';
+import { isIngredientColor, toFoodEntryNutrition } from '../utils/nutrition';
+import { authorizedFetch, requireUserKey } from './session';
 
 // Use environment variable if available, fallback to production URL
 const API_BASE_URL = process.env.API_BASE_URL || 'https://swifty-backend-api-udeke3xipq-du.a.run.app';
@@ -17,6 +20,8 @@ export interface ExerciseLogResponse {
 export interface FoodIngredientResponse {
   name: string;
   color: string;
+  grams?: number | null;
+  calories?: number | null;
 }
 
 export interface FoodLogResponse {
@@ -24,15 +29,111 @@ export interface FoodLogResponse {
   userKey: string;
   isHealthy: boolean | null;
   estimatedCalories: number | null;
+  macros?: Macronutrients | null;
+  portion?: number | null;
   mealType: string | null;
   date: string | null;
   ingredients: FoodIngredientResponse[];
   createdAt: string;
 }
 
+export interface LogQuery {
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string; // YYYY-MM-DD, inclusive
+  // Only return rows created, updated or deleted after this server timestamp
+  updatedSince?: string;
+  cursor?: string;
+}
+
+export interface LogPageResponse<T> {
+  items: T[];
+  deletedIds: number[];
+  nextCursor: string | null;
+  serverTime: string;
+}
+
+export interface LogPage<T> {
+  items: T[];
+  deletedIds: string[];
+  nextCursor: string | null;
+  serverTime: string;
+}
+
+const toExerciseEntry = (log: ExerciseLogResponse): ExerciseEntry => ({
+  id: log.id.toString(),
+  type: 'exercise' as const,
+  exerciseType: log.exerciseType ?? '',
+  duration: log.duration ?? 0,
+  calories: log.calories ?? 0,
+  distance: log.distance ?? 0,
+  date: (log.date || new Date().toISOString().split('T')[0]) as string,
+  createdAt: log.createdAt,
+  timestamp: log.createdAt,
+});
+
+const toFoodEntry = (log: FoodLogResponse): FoodEntry => ({
+  id: log.id.toString(),
+  type: 'food' as const,
+  isHealthy: log.isHealthy ?? false,
+  estimatedCalories: log.estimatedCalories ?? 0,
+  mealType: log.mealType ?? '',
+  mainIngredients: log.ingredients.map((ing) => ing.name),
+  ...toFoodEntryNutrition({
+    ingredients: log.ingredients.map((ing) => ({
+      name: ing.name,
+      color: isIngredientColor(ing.color) ? ing.color : undefined,
+      grams: ing.grams ?? undefined,
+      calories: ing.calories ?? undefined,
+    })),
+    macros: log.macros ?? undefined,
+    portion: log.portion ?? undefined,
+  }),
+  date: (log.date || new Date().toISOString().split('T')[0]) as string,
+  createdAt: log.createdAt,
+  timestamp: log.createdAt,
+});
+
+const buildLogQueryString = (userKey: string, query: LogQuery): string => {
+  const params = [`userKey=${encodeURIComponent(userKey)}`];
+  for (const [key, value] of Object.entries(query)) {
+    if (value) {
+      params.push(`${key}=${encodeURIComponent(value)}`);
+    }
+  }
+  return params.join('&');
+};
+
+const fetchLogPage = async <T, E>(
+  kind: 'exercise' | 'food',
+  userKey: string,
+  query: LogQuery,
+  toEntry: (log: T) => E,
+): Promise<LogPage<E>> => {
+  const response = await authorizedFetch(
+    `${API_BASE_URL}/api/log/${kind}?${buildLogQueryString(userKey, query)}`
+  );
+
+  if (!response.ok) {
+    throw new ApiRequestError(
+      `Failed to fetch ${kind} logs: ${response.statusText}`,
+      response.status,
+    );
+  }
+
+  const data: LogPageResponse<T> = await response.json();
+
+  return {
+    items: data.items.map(toEntry),
+    deletedIds: (data.deletedIds ?? []).map((id) => id.toString()),
+    nextCursor: data.nextCursor ?? null,
+    serverTime: data.serverTime,
+  };
+};
+
+// userKey defaults to the signed-in user
 export const apiService = {
-  async getTodayExerciseLogs(userKey: string): Promise<ExerciseEntry[]> {
-    const response = await fetch(
+  async getTodayExerciseLogs(userKey: string = requireUserKey()): Promise<ExerciseEntry[]> {
+    const response = await authorizedFetch(
       `${API_BASE_URL}/api/log/exercise/today?userKey=${encodeURIComponent(userKey)}`
     );
 
@@ -42,22 +143,11 @@ export const apiService = {
 
     const data: ExerciseLogResponse[] = await response.json();
 
-    return data.map((log) => ({
-      id: log.id.toString(),
-      type: 'exercise' as const,
-      userKey: log.userKey,
-      exerciseType: log.exerciseType ?? '',
-      duration: log.duration ?? 0,
-      calories: log.calories ?? 0,
-      distance: log.distance ?? 0,
-      date: (log.date || new Date().toISOString().split('T')[0]) as string,
-      createdAt: log.createdAt,
-      timestamp: log.createdAt,
-    }));
+    return data.map(toExerciseEntry);
   },
 
-  async getTodayFoodLogs(userKey: string): Promise<FoodEntry[]> {
-    const response = await fetch(
+  async getTodayFoodLogs(userKey: string = requireUserKey()): Promise<FoodEntry[]> {
+    const response = await authorizedFetch(
       `${API_BASE_URL}/api/log/food/today?userKey=${encodeURIComponent(userKey)}`
     );
 
@@ -67,17 +157,21 @@ export const apiService = {
 
     const data: FoodLogResponse[] = await response.json();
 
-    return data.map((log) => ({
-      id: log.id.toString(),
-      type: 'food' as const,
-      userKey: log.userKey,
-      isHealthy: log.isHealthy ?? false,
-      estimatedCalories: log.estimatedCalories ?? 0,
-      mealType: log.mealType ?? '',
-      mainIngredients: log.ingredients.map((ing) => ing.name),
-      date: (log.date || new Date().toISOString().split('T')[0]) as string,
-      createdAt: log.createdAt,
-      timestamp: log.createdAt,
-    }));
+    return data.map(toFoodEntry);
+  },
+
+  // Paged history; pass nextCursor back as `cursor` until it is null
+  async getExerciseLogs(
+    userKey: string = requireUserKey(),
+    query: LogQuery = {},
+  ): Promise<LogPage<ExerciseEntry>> {
+    return fetchLogPage('exercise', userKey, query, toExerciseEntry);
+  },
+
+  async getFoodLogs(
+    userKey: string = requireUserKey(),
+    query: LogQuery = {},
+  ): Promise<LogPage<FoodEntry>> {
+    return fetchLogPage('food', userKey, query, toFoodEntry);
   },
 };
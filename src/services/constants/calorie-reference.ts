@@ -0,0 +1,167 @@
+/**
+ * Bundled calorie reference data, used offline to sanity-check analyses
+ * Food values are typical Korean servings; MET values follow the
+ * Compendium of Physical Activities
+ */
+
+export interface FoodReference {
+  name: string;
+  aliases?: string[];
+  servingGrams: number;
+  servingCalories: number;
+}
+
+export interface ExerciseReference {
+  name: string;
+  aliases?: string[];
+  met: number;
+  // Speed-dependent METs, ascending; used when distance and duration are known
+  speedMets?: Array<{ maxKmh: number; met: number }>;
+}
+
+// Body weight assumed when the user's weight is unknown
+export const REFERENCE_WEIGHT_KG = 65;
+
+// Moderate effort, for exercises without a reference
+export const DEFAULT_MET = 4.0;
+
+export const FOOD_REFERENCES: FoodReference[] = [
+  // 밥, 면, 분식
+  {
+    name: '밥',
+    aliases: ['공기밥', '쌀밥', '흰쌀밥'],
+    servingGrams: 210,
+    servingCalories: 300,
+  },
+  {
+    name: '현미밥',
+    aliases: ['잡곡밥'],
+    servingGrams: 210,
+    servingCalories: 310,
+  },
+  { name: '비빔밥', servingGrams: 500, servingCalories: 600 },
+  { name: '김밥', servingGrams: 230, servingCalories: 320 },
+  { name: '볶음밥', servingGrams: 350, servingCalories: 620 },
+  { name: '라면', servingGrams: 550, servingCalories: 500 },
+  { name: '냉면', servingGrams: 600, servingCalories: 550 },
+  { name: '짜장면', servingGrams: 650, servingCalories: 800 },
+  { name: '짬뽕', servingGrams: 900, servingCalories: 700 },
+  { name: '칼국수', servingGrams: 700, servingCalories: 600 },
+  { name: '떡볶이', servingGrams: 300, servingCalories: 480 },
+  { name: '만두', servingGrams: 150, servingCalories: 300 },
+  { name: '떡', servingGrams: 100, servingCalories: 230 },
+  // 국, 찌개, 탕
+  { name: '김치찌개', servingGrams: 400, servingCalories: 250 },
+  { name: '된장찌개', servingGrams: 400, servingCalories: 180 },
+  { name: '순두부찌개', servingGrams: 400, servingCalories: 250 },
+  { name: '부대찌개', servingGrams: 500, servingCalories: 550 },
+  { name: '미역국', servingGrams: 300, servingCalories: 100 },
+  { name: '갈비탕', servingGrams: 700, servingCalories: 450 },
+  { name: '삼계탕', servingGrams: 1000, servingCalories: 900 },
+  // 고기, 반찬
+  { name: '불고기', servingGrams: 200, servingCalories: 400 },
+  { name: '제육볶음', servingGrams: 200, servingCalories: 400 },
+  { name: '삼겹살', servingGrams: 200, servingCalories: 660 },
+  {
+    name: '치킨',
+    aliases: ['후라이드치킨', '양념치킨'],
+    servingGrams: 300,
+    servingCalories: 850,
+  },
+  {
+    name: '돈까스',
+    aliases: ['돈가스'],
+    servingGrams: 250,
+    servingCalories: 650,
+  },
+  { name: '잡채', servingGrams: 200, servingCalories: 300 },
+  { name: '닭가슴살', servingGrams: 100, servingCalories: 165 },
+  {
+    name: '계란',
+    aliases: ['달걀', '계란후라이'],
+    servingGrams: 50,
+    servingCalories: 75,
+  },
+  { name: '두부', servingGrams: 100, servingCalories: 80 },
+  {
+    name: '김치',
+    aliases: ['배추김치'],
+    servingGrams: 50,
+    servingCalories: 15,
+  },
+  {
+    name: '나물',
+    aliases: ['콩나물', '시금치나물'],
+    servingGrams: 70,
+    servingCalories: 30,
+  },
+  // 채소, 과일, 간식
+  { name: '브로콜리', servingGrams: 100, servingCalories: 35 },
+  { name: '샐러드', aliases: ['채소'], servingGrams: 150, servingCalories: 50 },
+  { name: '고구마', servingGrams: 150, servingCalories: 190 },
+  { name: '바나나', servingGrams: 120, servingCalories: 105 },
+  { name: '사과', servingGrams: 200, servingCalories: 110 },
+  { name: '블루베리', servingGrams: 100, servingCalories: 57 },
+  { name: '우유', servingGrams: 200, servingCalories: 130 },
+  {
+    name: '그릭요거트',
+    aliases: ['요거트'],
+    servingGrams: 100,
+    servingCalories: 100,
+  },
+];
+
+export const EXERCISE_REFERENCES: ExerciseReference[] = [
+  {
+    name: '걷기',
+    aliases: ['산책', '워킹'],
+    met: 3.5,
+    speedMets: [
+      { maxKmh: 3.2, met: 2.8 },
+      { maxKmh: 4.8, met: 3.5 },
+      { maxKmh: 5.6, met: 4.3 },
+      { maxKmh: 6.4, met: 5.0 },
+      { maxKmh: Number.POSITIVE_INFINITY, met: 7.0 },
+    ],
+  },
+  { name: '빠르게 걷기', aliases: ['파워워킹'], met: 4.3 },
+  {
+    name: '달리기',
+    aliases: ['러닝', '조깅'],
+    met: 9.8,
+    speedMets: [
+      { maxKmh: 8.0, met: 8.3 },
+      { maxKmh: 9.7, met: 9.8 },
+      { maxKmh: 11.3, met: 11.0 },
+      { maxKmh: 12.9, met: 11.8 },
+      { maxKmh: 14.5, met: 12.8 },
+      { maxKmh: Number.POSITIVE_INFINITY, met: 14.5 },
+    ],
+  },
+  {
+    name: '사이클링',
+    aliases: ['자전거', '실내자전거'],
+    met: 7.5,
+    speedMets: [
+      { maxKmh: 16, met: 4.0 },
+      { maxKmh: 19, met: 6.8 },
+      { maxKmh: 22, met: 8.0 },
+      { maxKmh: 25, met: 10.0 },
+      { maxKmh: Number.POSITIVE_INFINITY, met: 12.0 },
+    ],
+  },
+  { name: '수영', met: 7.0 },
+  { name: '웨이트 트레이닝', aliases: ['근력운동', '헬스'], met: 5.0 },
+  { name: '요가', met: 2.5 },
+  { name: '필라테스', met: 3.0 },
+  { name: '스트레칭', met: 2.3 },
+  { name: '테니스', met: 7.3 },
+  { name: '배드민턴', met: 5.5 },
+  { name: '축구', met: 7.0 },
+  { name: '농구', met: 6.5 },
+  { name: '골프', met: 4.8 },
+  { name: '등산', aliases: ['하이킹'], met: 6.0 },
+  { name: '계단 오르기', aliases: ['천국의 계단'], met: 8.8 },
+  { name: '줄넘기', met: 11.0 },
+  { name: '에어로빅', aliases: ['댄스'], met: 7.3 },
+];
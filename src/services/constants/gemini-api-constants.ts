@@ -1,22 +1,37 @@
-export const exerciseAnalysisPrompt = `이 운동 스크린샷을 분석하여 다음 정보를 JSON 형식으로 추출해주세요:
+// Shared by both prompts: lets the client flag values the user should double-check
+const CONFIDENCE_GUIDE = `
+신뢰도 규칙: 화면에 숫자로 또렷이 보이는 값은 0.9 이상, 추정한 값은 0.5~0.8, 보이지 않아 짐작한 값은 0.5 미만으로 설정하세요.`;
+
+export const exerciseAnalysisPrompt = `이 운동 스크린샷을 분석하여 화면에 보이는 모든 운동 기록을 JSON 형식으로 추출해주세요:
 {
-  "exerciseType": "string - 운동 종류 (예: 달리기, 사이클링, 웨이트 트레이닝 등)",
-  "duration": "string - 운동 시간을 HH:MM:SS 형식으로",
-  "calories": "number - 소모된 칼로리",
-  "distance": "number - 운동 거리 (km 단위, 걷기/달리기/사이클링 등의 경우만. 해당 정보가 없으면 null)",
-  "date": "string - 제공된 현재 날짜를 YYYY-MM-DD 형식으로"
+  "workouts": [
+    {
+      "exerciseType": "string - 운동 종류 (예: 달리기, 사이클링, 웨이트 트레이닝 등)",
+      "duration": "number - 운동 시간 (분 단위). 화면에 HH:MM:SS로 표시되면 분으로 환산하고 초는 반올림",
+      "calories": "number - 소모된 칼로리. 화면에 칼로리가 표시되지 않으면 0",
+      "distance": "number - 운동 거리 (km 단위, 걷기/달리기/사이클링 등의 경우만. 해당 정보가 없으면 null)",
+      "date": "string - 제공된 현재 날짜를 YYYY-MM-DD 형식으로",
+      "confidence": "number - 이 운동 기록의 전체 분석 신뢰도 (0~1)",
+      "fieldConfidence": "object - exerciseType, duration, calories, distance 각각의 신뢰도 (0~1)"
+    }
+  ]
 }
 
+운동 기록이 하나뿐이어도 workouts 배열에 담아주세요. 여러 기록이 보이면 화면에 나온 순서대로 각각 따로 추출하고, 합계나 요약 행은 제외하세요.
 거리 정보는 걷기, 달리기, 사이클링, 등산 등의 운동에서만 추출하고, 웨이트 트레이닝이나 요가 같은 운동에서는 null로 설정하세요.
-모든 필드가 올바른 형식으로 포함되도록 해주세요. exerciseType은 한글로 응답해주세요.`;
+모든 필드가 올바른 형식으로 포함되도록 해주세요. exerciseType은 한글로 응답해주세요.
+${CONFIDENCE_GUIDE}`;
 
 export const foodAnalysisPrompt = `이 음식 사진을 분석하여 다음 정보를 JSON 형식으로 추출해주세요:
 {
   "isHealthy": "boolean - 음식이 일반적으로 건강한 것으로 간주되면 true",
-  "ingredients": "array of objects - 음식에서 보이는 주요 재료들. 각 재료는 {name: string, color: string} 형식",
+  "ingredients": "array of objects - 음식에서 보이는 주요 재료들. 각 재료는 {name: string, color: string, grams: number, calories: number} 형식",
   "estimatedCalories": "number - 예상 총 칼로리",
+  "macros": "object - {protein: number, carbs: number, fat: number} 형식의 단백질, 탄수화물, 지방 (g 단위)",
   "mealType": "string - 아침식사, 점심식사, 저녁식사, 간식 중 하나",
-  "date": "string - 제공된 현재 날짜를 YYYY-MM-DD 형식으로"
+  "date": "string - 제공된 현재 날짜를 YYYY-MM-DD 형식으로",
+  "confidence": "number - 전체 분석 신뢰도 (0~1)",
+  "fieldConfidence": "object - mealType, ingredients, estimatedCalories 각각의 신뢰도 (0~1)"
 }
 
 재료 분류 규칙:
@@ -24,7 +39,9 @@ export const foodAnalysisPrompt = `이 음식 사진을 분석하여 다음 정
 - 육류, 생선, 해산물 등 동물성 단백질은 color를 "red"로 설정
 - 곡물, 빵, 면, 유제품, 소스 등 기타 재료는 color를 "teal"로 설정
 
-음식이 주로 자연식품, 채소, 저지방 단백질로 구성되어 있거나 가공이 적으면 건강한 것으로 판단하세요. 보이는 분량을 기준으로 칼로리를 추정하세요. 음식 종류와 제공된 현재 시간을 기준으로 식사 유형을 결정하세요. ingredients의 name과 mealType은 한글로 응답해주세요.`;
+음식이 주로 자연식품, 채소, 저지방 단백질로 구성되어 있거나 가공이 적으면 건강한 것으로 판단하세요. 보이는 분량을 기준으로 칼로리를 추정하세요.
+재료별 grams와 calories, macros도 사진에 보이는 분량 기준으로 추정하고, 재료별 calories의 합이 estimatedCalories와 맞도록 해주세요. 추정할 수 없으면 null로 설정하세요. 음식 종류와 제공된 현재 시간을 기준으로 식사 유형을 결정하세요. ingredients의 name과 mealType은 한글로 응답해주세요.
+${CONFIDENCE_GUIDE}`;
 
 export const API_ERROR_MESSAGES = {
   HTTP_ERROR: (status: number, statusText: string) =>
@@ -43,6 +60,8 @@ export const API_ERROR_MESSAGES = {
   INVALID_RESPONSE_ERROR: (field: string) => `No ${field} in API response`,
   RESPONSE_PARSING_ERROR: (type: string, message: string) =>
     `Failed to parse ${type} response: ${message}`,
+  RESPONSE_VALIDATION_ERROR: (type: string, fields: string[]) =>
+    `Invalid ${type} response: ${fields.join(', ')}`,
 };
 
 export const VALID_MEAL_TYPES = [
@@ -0,0 +1,79 @@
+/**
+ * Restores imported history through the upload outbox
+ * Imported entries reach the server like offline logs do, so the next sync
+ * keeps them instead of treating them as deleted
+ */
+
+import { useHealthTrackerStore } from '../store/healthTracker';
+import type { LogExercisePayload, LogFoodPayload } from '../types/api';
+import type {
+  ExportedExerciseEntry,
+  ExportedFoodEntry,
+} from '../utils/dataExport';
+import { type ImportResult, parseHistoryImport } from '../utils/dataImport';
+import { generateEntryId } from '../utils/dataTransformers';
+import { toFoodIngredients } from '../utils/nutrition';
+import { requireUserKey } from './session';
+import {
+  queueExerciseUpload,
+  queueFoodUpload,
+  replayPendingUploads,
+} from './uploadQueue';
+
+const toExercisePayload = (
+  entry: ExportedExerciseEntry,
+  userKey: string,
+): LogExercisePayload => ({
+  userKey,
+  exerciseType: entry.exerciseType,
+  duration: entry.duration,
+  calories: entry.calories,
+  ...(entry.distance !== undefined ? { distance: entry.distance } : {}),
+  date: entry.date,
+});
+
+const toFoodPayload = (
+  entry: ExportedFoodEntry,
+  userKey: string,
+): LogFoodPayload => ({
+  userKey,
+  isHealthy: entry.isHealthy,
+  ingredients: toFoodIngredients(
+    entry.mainIngredients,
+    entry.ingredientNutrition,
+  ),
+  estimatedCalories: entry.estimatedCalories,
+  ...(entry.macros ? { macros: entry.macros } : {}),
+  ...(entry.portion !== undefined ? { portion: entry.portion } : {}),
+  mealType: entry.mealType,
+  date: entry.date,
+});
+
+/**
+ * Imports a backup or fitness app export; new entries show up as pending
+ * right away and upload in the background. Throws on unsupported files
+ */
+export const importHistory = (
+  text: string,
+  userKey: string = requireUserKey(),
+): ImportResult => {
+  const result = parseHistoryImport(
+    text,
+    useHealthTrackerStore.getState().entries,
+  );
+
+  for (const entry of result.entries) {
+    if (entry.type === 'exercise') {
+      queueExerciseUpload(toExercisePayload(entry, userKey), generateEntryId());
+    } else {
+      queueFoodUpload(toFoodPayload(entry, userKey), generateEntryId());
+    }
+  }
+
+  if (result.entries.length > 0) {
+    replayPendingUploads().catch((error) => {
+      console.error('Upload queue replay failed:', error);
+    });
+  }
+  return result;
+};
@@ -0,0 +1,156 @@
+/**
+ * Session identity shared by every API client
+ * The user key comes from the Toss auth result; nothing else may invent one
+ * Requests carry the backend-issued access token, refreshed shortly before it expires
+ */
+
+import { appSettings } from '../config';
+import { useAuthStore } from '../store/authStore';
+import type { TossAuthResponse } from '../types/tossAuth';
+import { tossAuthClient } from './tossAuthClient';
+
+// Refresh this long before expiry so in-flight requests do not race it
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+export class SessionError extends Error {
+  constructor(
+    message: string,
+    public code: 'NO_SESSION' | 'MISSING_USER_KEY',
+  ) {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+/**
+ * Extracts the stable user key from a completed Toss authentication
+ */
+export const deriveUserKey = (authResult: TossAuthResponse): string => {
+  const userKey = authResult.userKey?.trim();
+  if (!userKey) {
+    throw new SessionError(
+      '인증 결과에 사용자 정보가 없습니다. 다시 로그인해주세요.',
+      'MISSING_USER_KEY',
+    );
+  }
+  return userKey;
+};
+
+/**
+ * Resolves the user key of the current session
+ * In development, DEV_USER_KEY stands in until someone signs in
+ */
+export const resolveUserKey = (
+  sessionUserKey: string | null,
+): string | null => {
+  return sessionUserKey ?? (appSettings.devUserKey || null);
+};
+
+export const getSessionUserKey = (): string | null => {
+  return resolveUserKey(useAuthStore.getState().userKey);
+};
+
+/**
+ * Returns the current user key or throws when nobody is signed in
+ */
+export const requireUserKey = (): string => {
+  const userKey = getSessionUserKey();
+  if (!userKey) {
+    throw new SessionError('로그인이 필요합니다.', 'NO_SESSION');
+  }
+  return userKey;
+};
+
+const isAuthRejection = (error: unknown): boolean => {
+  const statusCode =
+    error && typeof error === 'object' && 'statusCode' in error
+      ? error.statusCode
+      : undefined;
+  return statusCode === 401 || statusCode === 403;
+};
+
+let refreshInFlight: Promise<string | null> | null = null;
+
+/**
+ * Gets a new access token; concurrent callers share one refresh
+ * Resolves null and ends the session when the backend rejects the refresh token
+ */
+export const refreshAccessToken = (): Promise<string | null> => {
+  if (!refreshInFlight) {
+    refreshInFlight = (async () => {
+      const { refreshToken, setTokens, clearAuth } = useAuthStore.getState();
+      if (!refreshToken) {
+        return null;
+      }
+
+      try {
+        const tokens = await tossAuthClient.refreshSessionToken(refreshToken);
+        setTokens(tokens);
+        return tokens.accessToken;
+      } catch (error) {
+        if (isAuthRejection(error)) {
+          clearAuth();
+          return null;
+        }
+        throw error;
+      }
+    })().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+};
+
+/**
+ * Current access token, refreshed first when it is about to expire
+ * A session restored on launch has only its refresh token, so it refreshes too
+ */
+export const getAccessToken = async (
+  now: number = Date.now(),
+): Promise<string | null> => {
+  const { accessToken, refreshToken, expiresAt } = useAuthStore.getState();
+  const needsRefresh = accessToken
+    ? expiresAt !== null && expiresAt - now <= REFRESH_MARGIN_MS
+    : refreshToken !== null;
+  if (!needsRefresh) {
+    return accessToken;
+  }
+
+  try {
+    return await refreshAccessToken();
+  } catch (error) {
+    // Offline: let the request try the current token and fail on its own terms
+    console.warn('Token refresh failed:', error);
+    return accessToken;
+  }
+};
+
+export type AuthorizedRequestInit = Omit<RequestInit, 'headers'> & {
+  headers?: Record<string, string>;
+};
+
+/**
+ * fetch with the session's Authorization header
+ * A 401 triggers one refresh and retry before the response is returned
+ */
+export const authorizedFetch = async (
+  url: string,
+  init: AuthorizedRequestInit = {},
+): Promise<Response> => {
+  const send = (token: string | null) =>
+    fetch(url, {
+      ...init,
+      headers: {
+        ...init.headers,
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+    });
+
+  const response = await send(await getAccessToken());
+  if (response.status !== 401 || !useAuthStore.getState().refreshToken) {
+    return response;
+  }
+
+  const refreshedToken = await refreshAccessToken();
+  return refreshedToken ? send(refreshedToken) : response;
+};
@@ -0,0 +1,75 @@
+/**
+ * Login completion and logout
+ * Local data belongs to one user: it is wiped on logout or when someone else signs in
+ */
+
+import { useAnalysisNavigationStore } from '../store/analysisNavigation';
+import { useAuthStore } from '../store/authStore';
+import { useGoalsStore } from '../store/goals';
+import { useHealthTrackerStore } from '../store/healthTracker';
+import { useProfileStore } from '../store/profile';
+import { useSyncStateStore } from '../store/syncState';
+import { useUploadQueueStore } from '../store/uploadQueue';
+import type { TossAuthResponse } from '../types/tossAuth';
+import { ImageCache } from '../utils/imageCache';
+import { deriveUserKey } from './session';
+import { tossAuthClient } from './tossAuthClient';
+
+/**
+ * Removes every trace of the previous user from the device
+ */
+export const clearUserData = (userKey: string | null): void => {
+  useHealthTrackerStore.getState().clearEntries();
+  useUploadQueueStore.getState().clear();
+  useProfileStore.getState().clearProfile();
+  useGoalsStore.getState().clearGoals();
+  if (userKey) {
+    useSyncStateStore.getState().clearWatermark(userKey);
+  }
+  useAnalysisNavigationStore.getState().clearNavigationData();
+  ImageCache.clearAll();
+};
+
+/**
+ * Turns a completed Toss authentication into a stored backend session
+ */
+export const completeLogin = async (
+  authResult: TossAuthResponse,
+): Promise<void> => {
+  const userKey = deriveUserKey(authResult);
+  const tokens = await tossAuthClient.issueSessionToken({
+    txId: authResult.txId,
+    signature: authResult.signature,
+  });
+
+  const { lastUserKey, setSession } = useAuthStore.getState();
+  if (lastUserKey && lastUserKey !== userKey) {
+    clearUserData(lastUserKey);
+  }
+
+  setSession({
+    user: authResult.userData,
+    txId: authResult.txId,
+    userKey,
+    tokens,
+  });
+};
+
+/**
+ * Ends the session and clears the user's local data
+ * Revoking on the backend is best effort so logout also works offline
+ */
+export const logout = async (): Promise<void> => {
+  const { refreshToken, lastUserKey, reset } = useAuthStore.getState();
+
+  if (refreshToken) {
+    try {
+      await tossAuthClient.revokeSession(refreshToken);
+    } catch (error) {
+      console.warn('Session revoke failed:', error);
+    }
+  }
+
+  clearUserData(lastUserKey);
+  reset();
+};
@@ -0,0 +1,203 @@
+/**
+ * Two-way reconciliation between local entries and backend logs
+ * Pulls date ranges page by page, incrementally after the first full pull
+ */
+
+import { ApiRequestError } from '../api/apiClient';
+import { useSyncStateStore } from '../store/syncState';
+import type { AuthenticationEntry } from '../types';
+import { getEntryFingerprint } from '../utils/dataTransformers';
+import { type LogPage, type LogQuery, apiService } from './api';
+
+export interface SyncRange {
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string; // YYYY-MM-DD, inclusive
+}
+
+export interface ServerChanges {
+  upserts: AuthenticationEntry[];
+  deletedIds: string[];
+  // Present when the pull returned every row of the range, so missing rows were deleted
+  snapshot?: SyncRange & { types: AuthenticationEntry['type'][] };
+}
+
+export interface ReconcileResult {
+  entries: AuthenticationEntry[];
+  // Local pending entries the server already had; their outbox items can be dropped
+  adoptedLocalIds: string[];
+}
+
+interface PullResult {
+  changes: ServerChanges;
+  serverTime: string | null;
+}
+
+const MAX_PAGES = 50;
+
+const isInRange = (date: string, range: SyncRange): boolean => {
+  return (
+    (!range.startDate || date >= range.startDate) &&
+    (!range.endDate || date <= range.endDate)
+  );
+};
+
+/**
+ * Applies server changes to local entries
+ * - server rows replace local rows with the same id
+ * - pending local rows matching a server row adopt its id
+ * - confirmed rows deleted on the server are removed; pending rows are never dropped
+ */
+export const reconcileEntries = (
+  localEntries: AuthenticationEntry[],
+  changes: ServerChanges,
+): ReconcileResult => {
+  let entries = [...localEntries];
+  const adoptedLocalIds: string[] = [];
+  const newEntries: AuthenticationEntry[] = [];
+
+  for (const serverEntry of changes.upserts) {
+    const existingIndex = entries.findIndex(
+      (entry) => entry.id === serverEntry.id,
+    );
+    if (existingIndex !== -1) {
+      entries[existingIndex] = serverEntry;
+      continue;
+    }
+
+    const fingerprint = getEntryFingerprint(serverEntry);
+    const pendingEntry = entries.find(
+      (entry) =>
+        entry.syncStatus !== undefined &&
+        getEntryFingerprint(entry) === fingerprint,
+    );
+    if (pendingEntry) {
+      adoptedLocalIds.push(pendingEntry.id);
+      entries = entries.map((entry) =>
+        entry === pendingEntry ? serverEntry : entry,
+      );
+      continue;
+    }
+
+    newEntries.push(serverEntry);
+  }
+
+  const upsertIds = new Set(changes.upserts.map((entry) => entry.id));
+  const deletedIds = new Set(changes.deletedIds);
+  const { snapshot } = changes;
+
+  entries = entries.filter((entry) => {
+    if (entry.syncStatus !== undefined) {
+      return true;
+    }
+    if (deletedIds.has(entry.id)) {
+      return false;
+    }
+    if (
+      snapshot?.types.includes(entry.type) &&
+      isInRange(entry.date, snapshot) &&
+      !upsertIds.has(entry.id)
+    ) {
+      return false;
+    }
+    return true;
+  });
+
+  return { entries: [...newEntries, ...entries], adoptedLocalIds };
+};
+
+const pullAllPages = async <E extends AuthenticationEntry>(
+  fetchPage: (query: LogQuery) => Promise<LogPage<E>>,
+  baseQuery: LogQuery,
+): Promise<{ items: E[]; deletedIds: string[]; serverTime: string }> => {
+  const items: E[] = [];
+  const deletedIds: string[] = [];
+  let serverTime = '';
+  let cursor: string | undefined;
+
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const result = await fetchPage({ ...baseQuery, cursor });
+    // The first page's server time is the safe watermark for the next pull
+    if (page === 0) {
+      serverTime = result.serverTime;
+    }
+    items.push(...result.items);
+    deletedIds.push(...result.deletedIds);
+
+    if (!result.nextCursor) {
+      return { items, deletedIds, serverTime };
+    }
+    cursor = result.nextCursor;
+  }
+
+  throw new Error(`Sync aborted after ${MAX_PAGES} pages`);
+};
+
+/**
+ * Pulls exercise and food logs for a user
+ * Without a range, pulls the whole history: incrementally from the stored watermark when one exists.
+ * With a range, pulls that range in full (used to backfill older periods).
+ */
+export const pullServerChanges = async (
+  userKey: string,
+  range?: SyncRange,
+): Promise<PullResult> => {
+  const watermark = range
+    ? undefined
+    : useSyncStateStore.getState().watermarks[userKey];
+  const baseQuery: LogQuery = { ...range, updatedSince: watermark };
+
+  try {
+    const [exercise, food] = await Promise.all([
+      pullAllPages(
+        (query) => apiService.getExerciseLogs(userKey, query),
+        baseQuery,
+      ),
+      pullAllPages(
+        (query) => apiService.getFoodLogs(userKey, query),
+        baseQuery,
+      ),
+    ]);
+
+    // Take the older of the two so neither stream can skip a change
+    const serverTime =
+      exercise.serverTime < food.serverTime
+        ? exercise.serverTime
+        : food.serverTime;
+
+    return {
+      changes: {
+        upserts: [...exercise.items, ...food.items],
+        deletedIds: [...exercise.deletedIds, ...food.deletedIds],
+        snapshot: watermark
+          ? undefined
+          : { ...range, types: ['exercise', 'food'] },
+      },
+      serverTime: range ? null : serverTime,
+    };
+  } catch (error) {
+    // Backends without the history endpoints still serve today's rows
+    if (error instanceof ApiRequestError && error.statusCode === 404) {
+      const [exerciseLogs, foodLogs] = await Promise.all([
+        apiService.getTodayExerciseLogs(userKey),
+        apiService.getTodayFoodLogs(userKey),
+      ]);
+      return {
+        changes: { upserts: [...exerciseLogs, ...foodLogs], deletedIds: [] },
+        serverTime: null,
+      };
+    }
+    throw error;
+  }
+};
+
+/**
+ * Records the watermark of a completed full-history pull
+ */
+export const commitSyncWatermark = (
+  userKey: string,
+  serverTime: string | null,
+): void => {
+  if (serverTime) {
+    useSyncStateStore.getState().setWatermark(userKey, serverTime);
+  }
+};
@@ -9,6 +9,8 @@ import type {
   TossAuthRequestResponse,
   TossAuthResponse,
   TossAuthStatusResponse,
+  TossSessionTokenRequest,
+  TossSessionTokenResponse,
 } from '../types/tossAuth';
 
 class TossAuthAPIClient {
@@ -189,6 +191,70 @@ class TossAuthAPIClient {
     throw this.createError('Authentication timeout. Please try again.', 408);
   }
 
+  /**
+   * Exchange a verified Toss signature for backend session tokens
+   */
+  async issueSessionToken(
+    request: TossSessionTokenRequest,
+  ): Promise<TossSessionTokenResponse> {
+    console.log(`🔐 Issuing session token for txId: ${request.txId}`);
+    return this.postSessionRequest('/api/toss-auth/session', request);
+  }
+
+  /**
+   * Get a new access token before (or after) the current one expires
+   */
+  async refreshSessionToken(
+    refreshToken: string,
+  ): Promise<TossSessionTokenResponse> {
+    console.log('🔐 Refreshing session token...');
+    return this.postSessionRequest('/api/toss-auth/refresh', { refreshToken });
+  }
+
+  /**
+   * Invalidate the refresh token on the backend
+   */
+  async revokeSession(refreshToken: string): Promise<void> {
+    console.log('🔐 Revoking session...');
+    await this.postSessionRequest<unknown>('/api/toss-auth/logout', {
+      refreshToken,
+    });
+  }
+
+  private async postSessionRequest<T = TossSessionTokenResponse>(
+    path: string,
+    body: object,
+  ): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+    } catch (error) {
+      console.error('❌ Session request error:', error);
+      throw this.createError(
+        error instanceof Error
+          ? error.message
+          : 'Network error during session request',
+      );
+    }
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      console.error('❌ Session request failed:', error);
+      throw this.createError(
+        error.detail || 'Session request failed',
+        response.status,
+      );
+    }
+
+    return response.status === 204 ? (undefined as T) : response.json();
+  }
+
   private createError(message: string, statusCode?: number): TossAuthError {
     const error: TossAuthError = {
       message,
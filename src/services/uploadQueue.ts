@@ -0,0 +1,246 @@
+/**
+ * Replays queued log writes with exponential backoff
+ * Pending entries stay visible locally until the server confirms them
+ */
+
+import { ApiRequestError, logExercise, logFood } from '../api/apiClient';
+import { appSettings } from '../config';
+import { useHealthTrackerStore } from '../store/healthTracker';
+import { useUploadQueueStore } from '../store/uploadQueue';
+import type { AuthenticationEntry } from '../types';
+import type { LogExercisePayload, LogFoodPayload } from '../types/api';
+import { AppLifecycleManager } from '../utils/appLifecycle';
+import { getCurrentTimestamp } from '../utils/dataTransformers';
+import { toFoodEntryNutrition } from '../utils/nutrition';
+
+const BASE_RETRY_DELAY_MS = 5 * 1000;
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
+// A write still failing after this many attempts (about an hour) is marked failed
+export const MAX_UPLOAD_ATTEMPTS = 10;
+
+/**
+ * Delay before the next attempt after `attempts` failed attempts
+ */
+export const getRetryDelay = (attempts: number): number => {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** attempts, MAX_RETRY_DELAY_MS);
+};
+
+// Messages fetch rejects with when the request never reached the server
+const FETCH_FAILURE_PATTERN =
+  /network request failed|failed to fetch|fetch failed/i;
+
+/**
+ * Whether a failed write should stay in the outbox for another attempt
+ * Network failures, timeouts and transient server responses (5xx, 408, 429)
+ * qualify; anything else is a real error
+ */
+export const isRetryableUploadError = (error: unknown): boolean => {
+  if (error instanceof ApiRequestError) {
+    return error.isRetryable;
+  }
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  if (error.name === 'AbortError' || error.name === 'TimeoutError') {
+    return true;
+  }
+  return (
+    error instanceof TypeError && FETCH_FAILURE_PATTERN.test(error.message)
+  );
+};
+
+const toPendingExerciseEntry = (
+  id: string,
+  payload: LogExercisePayload,
+): AuthenticationEntry => {
+  const now = getCurrentTimestamp();
+  return {
+    id,
+    type: 'exercise',
+    exerciseType: payload.exerciseType,
+    duration: payload.duration,
+    calories: payload.calories,
+    ...(payload.distance ? { distance: payload.distance } : {}),
+    date: payload.date,
+    timestamp: now,
+    createdAt: now,
+  };
+};
+
+const toPendingFoodEntry = (
+  id: string,
+  payload: LogFoodPayload,
+): AuthenticationEntry => {
+  const now = getCurrentTimestamp();
+  return {
+    id,
+    type: 'food',
+    isHealthy: payload.isHealthy,
+    mainIngredients: payload.ingredients.map((ingredient) => ingredient.name),
+    estimatedCalories: payload.estimatedCalories,
+    ...toFoodEntryNutrition(payload),
+    mealType: payload.mealType,
+    date: payload.date,
+    timestamp: now,
+    createdAt: now,
+  };
+};
+
+/**
+ * Stores an exercise log that could not be sent and shows it as pending
+ */
+export const queueExerciseUpload = (
+  payload: LogExercisePayload,
+  idempotencyKey: string,
+): void => {
+  useHealthTrackerStore
+    .getState()
+    .addPendingEntry(toPendingExerciseEntry(idempotencyKey, payload));
+  useUploadQueueStore
+    .getState()
+    .enqueue({ id: idempotencyKey, kind: 'exercise', payload });
+};
+
+/**
+ * Stores a food log that could not be sent and shows it as pending
+ */
+export const queueFoodUpload = (
+  payload: LogFoodPayload,
+  idempotencyKey: string,
+): void => {
+  useHealthTrackerStore
+    .getState()
+    .addPendingEntry(toPendingFoodEntry(idempotencyKey, payload));
+  useUploadQueueStore
+    .getState()
+    .enqueue({ id: idempotencyKey, kind: 'food', payload });
+};
+
+/**
+ * Drops a write the server rejected, both from the outbox and the entry list
+ */
+export const discardUpload = (id: string): void => {
+  useUploadQueueStore.getState().remove(id);
+  useHealthTrackerStore.getState().removeEntry(id);
+};
+
+let isReplaying = false;
+
+/**
+ * Sends every due pending upload once, oldest first
+ */
+export const replayPendingUploads = async (
+  now: number = Date.now(),
+): Promise<void> => {
+  if (isReplaying) {
+    return;
+  }
+  isReplaying = true;
+
+  try {
+    const dueItems = useUploadQueueStore
+      .getState()
+      .items.filter(
+        (item) => item.status === 'pending' && item.nextAttemptAt <= now,
+      );
+
+    for (const item of dueItems) {
+      try {
+        const response =
+          item.kind === 'exercise'
+            ? await logExercise(item.payload, { idempotencyKey: item.id })
+            : await logFood(item.payload, { idempotencyKey: item.id });
+
+        useHealthTrackerStore
+          .getState()
+          .markEntrySynced(item.id, String(response.id));
+        useUploadQueueStore.getState().remove(item.id);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const retryable =
+          isRetryableUploadError(error) &&
+          item.attempts + 1 < MAX_UPLOAD_ATTEMPTS;
+
+        useUploadQueueStore
+          .getState()
+          .recordFailure(
+            item.id,
+            message,
+            retryable ? now + getRetryDelay(item.attempts) : null,
+          );
+        if (!retryable) {
+          useHealthTrackerStore
+            .getState()
+            .setEntrySyncStatus(item.id, 'failed');
+        }
+
+        if (appSettings.debugMode) {
+          console.log('Upload replay failed:', { id: item.id, message });
+        }
+
+        // Still offline: the remaining items would fail the same way
+        if (error instanceof ApiRequestError && error.isNetworkError) {
+          break;
+        }
+      }
+    }
+  } finally {
+    isReplaying = false;
+  }
+};
+
+// Earliest retry time among pending uploads, or null when nothing is waiting
+const getNextAttemptAt = (): number | null => {
+  const pending = useUploadQueueStore
+    .getState()
+    .items.filter((item) => item.status === 'pending');
+  return pending.length > 0
+    ? Math.min(...pending.map((item) => item.nextAttemptAt))
+    : null;
+};
+
+/**
+ * Replays the outbox once it is restored, whenever the app returns to the foreground
+ * and when the earliest backoff delay runs out
+ * Returns a function that stops listening
+ */
+export const startUploadQueueSync = (): (() => void) => {
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const replay = () => {
+    replayPendingUploads().catch((error) => {
+      console.error('Upload queue replay failed:', error);
+    });
+  };
+
+  // Re-armed on every outbox change so the timer always targets the earliest retry
+  const scheduleNextAttempt = () => {
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+    const nextAttemptAt = getNextAttemptAt();
+    if (nextAttemptAt !== null) {
+      retryTimer = setTimeout(replay, Math.max(0, nextAttemptAt - Date.now()));
+    }
+  };
+
+  let unsubscribeHydration = () => {};
+  if (useUploadQueueStore.persist.hasHydrated()) {
+    replay();
+  } else {
+    unsubscribeHydration =
+      useUploadQueueStore.persist.onFinishHydration(replay);
+  }
+  const unsubscribeForeground = AppLifecycleManager.onForeground(replay);
+  const unsubscribeQueue = useUploadQueueStore.subscribe(scheduleNextAttempt);
+
+  return () => {
+    unsubscribeHydration();
+    unsubscribeForeground();
+    unsubscribeQueue();
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+    }
+  };
+};
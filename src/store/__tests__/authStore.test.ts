@@ -0,0 +1,101 @@
+import { Storage } from '@apps-in-toss/framework';
+import { useAuthStore } from '../authStore';
+
+const session = {
+  user: { name: '홍길동' },
+  txId: 'tx-1',
+  userKey: 'user-123',
+  tokens: { accessToken: 'access', refreshToken: 'refresh', expiresIn: 3600 },
+};
+
+const readPersisted = async () =>
+  JSON.parse((await Storage.getItem('auth-session')) ?? 'null');
+
+describe('authStore persistence', () => {
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    await Storage.clearItems();
+    useAuthStore.getState().reset();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should store the session without its access token', async () => {
+    useAuthStore.getState().setSession(session);
+
+    const persisted = await readPersisted();
+    expect(persisted.state).toEqual({
+      isAuthenticated: true,
+      user: { name: '홍길동' },
+      userKey: 'user-123',
+      refreshToken: 'refresh',
+      lastUserKey: 'user-123',
+    });
+    expect(JSON.stringify(persisted)).not.toContain('"access"');
+  });
+
+  it('should restore the session on launch', async () => {
+    useAuthStore.getState().setSession(session);
+    const stored = await Storage.getItem('auth-session');
+    // A relaunch starts from the initial state and reads storage back
+    useAuthStore.getState().reset();
+    await Storage.setItem('auth-session', stored ?? '');
+
+    await useAuthStore.persist.rehydrate();
+
+    expect(useAuthStore.getState()).toMatchObject({
+      isAuthenticated: true,
+      userKey: 'user-123',
+      accessToken: null,
+      refreshToken: 'refresh',
+      hasHydrated: true,
+    });
+  });
+
+  it('should drop the access token stored by version 1', async () => {
+    await Storage.setItem(
+      'auth-session',
+      JSON.stringify({
+        state: {
+          isAuthenticated: true,
+          user: { name: '홍길동' },
+          userKey: 'user-123',
+          txId: 'tx-1',
+          accessToken: 'access',
+          refreshToken: 'refresh',
+          expiresAt: 0,
+          lastUserKey: 'user-123',
+        },
+        version: 1,
+      }),
+    );
+
+    await useAuthStore.persist.rehydrate();
+
+    expect(useAuthStore.getState()).toMatchObject({
+      isAuthenticated: true,
+      userKey: 'user-123',
+      accessToken: null,
+      refreshToken: 'refresh',
+    });
+    expect(JSON.stringify(await readPersisted())).not.toContain('"access"');
+  });
+
+  it('should sign in again after version 2, which kept only the owner', async () => {
+    await Storage.setItem(
+      'auth-session',
+      JSON.stringify({ state: { lastUserKey: 'user-123' }, version: 2 }),
+    );
+
+    await useAuthStore.persist.rehydrate();
+
+    expect(useAuthStore.getState()).toMatchObject({
+      isAuthenticated: false,
+      userKey: null,
+      refreshToken: null,
+      lastUserKey: 'user-123',
+    });
+  });
+});
@@ -92,6 +92,58 @@ describe('HealthTrackerStore', () => {
     });
   });
 
+  describe('updateEntry', () => {
+    it('should merge changes into the matching entry', () => {
+      const store = useHealthTrackerStore.getState();
+      store.addFoodEntry({
+        type: 'food' as const,
+        isHealthy: true,
+        mainIngredients: ['rice'],
+        estimatedCalories: 450,
+        mealType: 'lunch',
+        date: '2024-01-15',
+        timestamp: '2024-01-15T12:00:00.000Z',
+      });
+      const entryId = useHealthTrackerStore.getState().entries[0]?.id ?? '';
+
+      store.updateEntry(entryId, {
+        estimatedCalories: 520,
+        mainIngredients: ['rice', 'kimchi'],
+      });
+
+      expect(useHealthTrackerStore.getState().entries[0]).toMatchObject({
+        id: entryId,
+        estimatedCalories: 520,
+        mainIngredients: ['rice', 'kimchi'],
+        mealType: 'lunch',
+      });
+    });
+  });
+
+  describe('restoreEntry', () => {
+    it('should roll back an edited or removed entry to its snapshot', () => {
+      const store = useHealthTrackerStore.getState();
+      store.addExerciseEntry({
+        type: 'exercise' as const,
+        exerciseType: 'Running',
+        duration: 30,
+        calories: 300,
+        date: '2024-01-15',
+        timestamp: '2024-01-15T10:00:00.000Z',
+      });
+      const snapshot = useHealthTrackerStore.getState().entries[0];
+      if (!snapshot) throw new Error('entry was not added');
+
+      store.updateEntry(snapshot.id, { calories: 999, distance: 5 });
+      store.restoreEntry(snapshot);
+      expect(useHealthTrackerStore.getState().entries).toEqual([snapshot]);
+
+      store.removeEntry(snapshot.id);
+      store.restoreEntry(snapshot);
+      expect(useHealthTrackerStore.getState().entries).toEqual([snapshot]);
+    });
+  });
+
   describe('getEntriesByDateRange', () => {
     it('should return entries within the specified date range', () => {
       const store = useHealthTrackerStore.getState();
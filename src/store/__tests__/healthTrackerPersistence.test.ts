@@ -0,0 +1,95 @@
+import {
+  HEALTH_TRACKER_STORE_VERSION,
+  migrateHealthTrackerState,
+} from '../healthTrackerPersistence';
+
+describe('migrateHealthTrackerState', () => {
+  it('should convert legacy HH:MM:SS durations to minutes', () => {
+    const migrated = migrateHealthTrackerState(
+      {
+        entries: [
+          {
+            id: 'legacy-1',
+            type: 'exercise',
+            exerciseType: 'Running',
+            duration: '01:30:40',
+            calories: 300,
+            date: '2024-01-15',
+            timestamp: '2024-01-15T10:00:00.000Z',
+            createdAt: '2024-01-15T10:00:00.000Z',
+          },
+        ],
+      },
+      0,
+    );
+
+    expect(migrated.entries).toHaveLength(1);
+    expect(migrated.entries[0]).toMatchObject({
+      id: 'legacy-1',
+      duration: 91,
+      calories: 300,
+    });
+    expect(migrated.entries[0]).not.toHaveProperty('distance');
+  });
+
+  it('should keep valid distances and drop null ones', () => {
+    const migrated = migrateHealthTrackerState(
+      {
+        entries: [
+          {
+            id: 'walk',
+            type: 'exercise',
+            exerciseType: '걷기',
+            duration: 30,
+            calories: 120,
+            distance: 2.4,
+            date: '2024-01-15',
+          },
+          {
+            id: 'weights',
+            type: 'exercise',
+            exerciseType: '웨이트 트레이닝',
+            duration: 45,
+            calories: 200,
+            distance: null,
+            date: '2024-01-15',
+          },
+        ],
+      },
+      0,
+    );
+
+    expect(migrated.entries[0]).toMatchObject({ distance: 2.4 });
+    expect(migrated.entries[1]).not.toHaveProperty('distance');
+  });
+
+  it('should drop malformed entries instead of failing hydration', () => {
+    const migrated = migrateHealthTrackerState(
+      {
+        entries: [
+          null,
+          { id: 1, type: 'exercise' },
+          { id: 'meal', type: 'food', date: '2024-01-15' },
+        ],
+      },
+      0,
+    );
+
+    expect(migrated.entries).toHaveLength(1);
+    expect(migrated.entries[0]).toMatchObject({
+      id: 'meal',
+      mainIngredients: [],
+    });
+  });
+
+  it('should return current-version state unchanged', () => {
+    const state = { entries: [] };
+    expect(
+      migrateHealthTrackerState(state, HEALTH_TRACKER_STORE_VERSION),
+    ).toEqual(state);
+  });
+
+  it('should handle missing persisted state', () => {
+    expect(migrateHealthTrackerState(undefined, 0)).toEqual({ entries: [] });
+  });
+});
@@ -1,9 +1,9 @@
 import { create } from 'zustand';
-import type { GeminiExerciseResponse, GeminiFoodResponse } from '../types';
+import type { GeminiExerciseListResponse, GeminiFoodResponse } from '../types';
 
 interface AnalysisNavigationData {
   imageUri: string;
-  analysisResult: GeminiFoodResponse | GeminiExerciseResponse;
+  analysisResult: GeminiFoodResponse | GeminiExerciseListResponse;
   entryType: 'food' | 'exercise';
 }
 
@@ -0,0 +1,23 @@
+/**
+ * Route a signed-out user asked for, reopened once login completes
+ * Kept in memory only: a relaunch starts from the main screen
+ */
+
+import { create } from 'zustand';
+
+export interface PendingRoute {
+  path: string;
+  params?: object;
+}
+
+interface AuthRedirectStore {
+  pendingRoute: PendingRoute | null;
+  setPendingRoute: (route: PendingRoute) => void;
+  clearPendingRoute: () => void;
+}
+
+export const useAuthRedirectStore = create<AuthRedirectStore>((set) => ({
+  pendingRoute: null,
+  setPendingRoute: (route) => set({ pendingRoute: route }),
+  clearPendingRoute: () => set({ pendingRoute: null }),
+}));
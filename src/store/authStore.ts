@@ -1,100 +1,200 @@
 /**
  * Authentication state store using Zustand
  * Manages user authentication state and user data
+ * The verified session is kept in the Toss app's native storage and restored on launch
+ * Storage is plain key-value, so of the tokens only the refresh token is written there;
+ * the access token stays in memory and is re-issued by the first request after launch.
+ * The backend rotates the refresh token on every use and revokes it on logout.
  */
 
+import { Storage } from '@apps-in-toss/framework';
 import { create } from 'zustand';
-import type { TossUserData } from '../types/tossAuth';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import type { TossSessionTokenResponse, TossUserData } from '../types/tossAuth';
+
+export interface AuthSession {
+  user: TossUserData;
+  txId: string;
+  userKey: string;
+  tokens: TossSessionTokenResponse;
+}
 
 interface AuthState {
   // State
   isAuthenticated: boolean;
   user: TossUserData | null;
+  // Identifies the user in every backend call; null until Toss auth completes
+  userKey: string | null;
   txId: string | null;
-  authStatus: 'idle' | 'requesting' | 'waiting' | 'polling' | 'success' | 'error';
+  accessToken: string | null;
+  refreshToken: string | null;
+  expiresAt: number | null; // epoch ms
+  // Owner of the data on this device; survives expiry so re-login keeps it
+  lastUserKey: string | null;
+  authStatus:
+    | 'idle'
+    | 'requesting'
+    | 'waiting'
+    | 'polling'
+    | 'success'
+    | 'error';
   error: string | null;
+  hasHydrated: boolean;
 
   // Actions
   setAuthenticating: (txId: string) => void;
   setWaitingForUser: () => void;
   setPolling: () => void;
-  setUser: (userData: TossUserData, txId: string) => void;
+  setSession: (session: AuthSession) => void;
+  setTokens: (tokens: TossSessionTokenResponse) => void;
   setError: (error: string) => void;
+  setHasHydrated: (hasHydrated: boolean) => void;
   clearAuth: () => void;
   reset: () => void;
 }
 
-export const useAuthStore = create<AuthState>((set) => ({
-  // Initial state
+// What survives a relaunch; the access token and its expiry are never written
+type PersistedAuthState = Pick<
+  AuthState,
+  'isAuthenticated' | 'user' | 'userKey' | 'refreshToken' | 'lastUserKey'
+>;
+
+const toTokenState = (tokens: TossSessionTokenResponse) => ({
+  accessToken: tokens.accessToken,
+  refreshToken: tokens.refreshToken,
+  expiresAt: Date.now() + tokens.expiresIn * 1000,
+});
+
+const signedOutState = {
   isAuthenticated: false,
   user: null,
+  userKey: null,
   txId: null,
-  authStatus: 'idle',
+  accessToken: null,
+  refreshToken: null,
+  expiresAt: null,
+  authStatus: 'idle' as const,
   error: null,
+};
 
-  // Actions
-  setAuthenticating: (txId: string) => {
-    console.log('📝 Auth state: requesting (txId:', txId, ')');
-    set({
-      txId,
-      authStatus: 'requesting',
-      error: null,
-    });
-  },
-
-  setWaitingForUser: () => {
-    console.log('📝 Auth state: waiting for user');
-    set({
-      authStatus: 'waiting',
-    });
-  },
-
-  setPolling: () => {
-    console.log('📝 Auth state: polling');
-    set({
-      authStatus: 'polling',
-    });
-  },
-
-  setUser: (userData: TossUserData, txId: string) => {
-    console.log('📝 Auth state: success');
-    console.log('👤 User:', userData.name, userData.gender, userData.ageGroup);
-    set({
-      isAuthenticated: true,
-      user: userData,
-      txId,
-      authStatus: 'success',
-      error: null,
-    });
-  },
-
-  setError: (error: string) => {
-    console.error('📝 Auth state: error -', error);
-    set({
-      authStatus: 'error',
-      error,
-    });
-  },
-
-  clearAuth: () => {
-    console.log('📝 Clearing auth state');
-    set({
-      isAuthenticated: false,
-      user: null,
-      txId: null,
-      authStatus: 'idle',
-      error: null,
-    });
-  },
-
-  reset: () => {
-    console.log('📝 Resetting auth state');
-    set({
-      isAuthenticated: false,
-      user: null,
-      txId: null,
-      authStatus: 'idle',
-      error: null,
-    });
-  },
-}));
+export const useAuthStore = create<AuthState>()(
+  persist(
+    (set) => ({
+      // Initial state
+      ...signedOutState,
+      lastUserKey: null,
+      hasHydrated: false,
+
+      // Actions
+      setAuthenticating: (txId: string) => {
+        console.log('📝 Auth state: requesting (txId:', txId, ')');
+        set({
+          txId,
+          authStatus: 'requesting',
+          error: null,
+        });
+      },
+
+      setWaitingForUser: () => {
+        console.log('📝 Auth state: waiting for user');
+        set({
+          authStatus: 'waiting',
+        });
+      },
+
+      setPolling: () => {
+        console.log('📝 Auth state: polling');
+        set({
+          authStatus: 'polling',
+        });
+      },
+
+      setSession: ({ user, txId, userKey, tokens }: AuthSession) => {
+        console.log('📝 Auth state: success');
+        console.log('👤 User:', user.name);
+        set({
+          isAuthenticated: true,
+          user,
+          userKey,
+          lastUserKey: userKey,
+          txId,
+          ...toTokenState(tokens),
+          authStatus: 'success',
+          error: null,
+        });
+      },
+
+      setTokens: (tokens: TossSessionTokenResponse) => {
+        set(toTokenState(tokens));
+      },
+
+      setError: (error: string) => {
+        console.error('📝 Auth state: error -', error);
+        set({
+          authStatus: 'error',
+          error,
+        });
+      },
+
+      setHasHydrated: (hasHydrated: boolean) => {
+        set({ hasHydrated });
+      },
+
+      // Ends the session but remembers whose data is on the device
+      clearAuth: () => {
+        console.log('📝 Clearing auth state');
+        set(signedOutState);
+      },
+
+      reset: () => {
+        console.log('📝 Resetting auth state');
+        set({ ...signedOutState, lastUserKey: null });
+      },
+    }),
+    {
+      name: 'auth-session',
+      version: 3,
+      storage: createJSONStorage(() => Storage),
+      // Progress flags are per-attempt; only the verified session is durable
+      partialize: (state): PersistedAuthState => ({
+        isAuthenticated: state.isAuthenticated,
+        user: state.user,
+        userKey: state.userKey,
+        refreshToken: state.refreshToken,
+        lastUserKey: state.lastUserKey,
+      }),
+      // Version 1 also stored the access token, version 2 only the owner;
+      // a session without a refresh token cannot be resumed and signs in again
+      migrate: (persistedState): PersistedAuthState => {
+        const {
+          user = null,
+          userKey = null,
+          refreshToken = null,
+          lastUserKey = null,
+        } = (persistedState ?? {}) as Partial<PersistedAuthState>;
+        if (!user || !userKey || !refreshToken) {
+          return {
+            isAuthenticated: false,
+            user: null,
+            userKey: null,
+            refreshToken: null,
+            lastUserKey,
+          };
+        }
+        return {
+          isAuthenticated: true,
+          user,
+          userKey,
+          refreshToken,
+          lastUserKey,
+        };
+      },
+      onRehydrateStorage: () => (state, error) => {
+        if (error) {
+          console.error('Failed to restore auth state:', error);
+        }
+        (state ?? useAuthStore.getState()).setHasHydrated(true);
+      },
+    },
+  ),
+);
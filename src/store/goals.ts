@@ -0,0 +1,67 @@
+/**
+ * Weekly goals and unlocked achievements of the signed-in user
+ * Unlocks are kept even if the entries that earned them are deleted later
+ */
+
+import { Storage } from '@apps-in-toss/framework';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import type { WeeklyGoals } from '../types';
+
+// 150 minutes is the WHO recommendation for moderate activity
+export const DEFAULT_WEEKLY_GOALS: WeeklyGoals = {
+  exerciseMinutes: 150,
+  healthyMeals: 10,
+};
+
+interface GoalsStore {
+  goals: WeeklyGoals;
+  // Achievement id → date it was first unlocked (YYYY-MM-DD)
+  unlockedAchievements: Record<string, string>;
+  setGoals: (goals: Partial<WeeklyGoals>) => void;
+  // Ignores achievements that are already unlocked
+  recordUnlocks: (achievementIds: string[], date: string) => void;
+  clearGoals: () => void;
+}
+
+export const useGoalsStore = create<GoalsStore>()(
+  persist(
+    (set, get) => ({
+      goals: DEFAULT_WEEKLY_GOALS,
+      unlockedAchievements: {},
+
+      setGoals: (goals) => {
+        set({ goals: { ...get().goals, ...goals } });
+      },
+
+      recordUnlocks: (achievementIds, date) => {
+        const { unlockedAchievements } = get();
+        const newIds = achievementIds.filter(
+          (id) => !(id in unlockedAchievements),
+        );
+        if (newIds.length === 0) {
+          return;
+        }
+        set({
+          unlockedAchievements: {
+            ...unlockedAchievements,
+            ...Object.fromEntries(newIds.map((id) => [id, date])),
+          },
+        });
+      },
+
+      clearGoals: () => {
+        set({ goals: DEFAULT_WEEKLY_GOALS, unlockedAchievements: {} });
+      },
+    }),
+    {
+      name: 'user-goals',
+      version: 1,
+      storage: createJSONStorage(() => Storage),
+      partialize: (state) => ({
+        goals: state.goals,
+        unlockedAchievements: state.unlockedAchievements,
+      }),
+    },
+  ),
+);
@@ -1,7 +1,10 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
 import type {
   HealthTrackerState,
   AuthenticationEntry,
+  EntryChanges,
   ExerciseEntry,
   FoodEntry,
   WeeklyStats,
@@ -12,11 +15,32 @@ import {
 } from '../utils/dataTransformers';
 import calculateWeeklyStats from '../utils/dataTransformers';
 import { apiService } from '../services/api';
+import {
+  type SyncRange,
+  commitSyncWatermark,
+  pullServerChanges,
+  reconcileEntries,
+} from '../services/syncEngine';
+import {
+  HEALTH_TRACKER_STORAGE_KEY,
+  HEALTH_TRACKER_STORE_VERSION,
+  type PersistedHealthTrackerState,
+  migrateHealthTrackerState,
+} from './healthTrackerPersistence';
+import { useUploadQueueStore } from './uploadQueue';
 
 type HealthTrackerStore = HealthTrackerState & {
+  hasHydrated: boolean;
+  setHasHydrated: (hasHydrated: boolean) => void;
   addExerciseEntry: (entry: Omit<ExerciseEntry, 'id' | 'createdAt'>) => void;
   addFoodEntry: (entry: Omit<FoodEntry, 'id' | 'createdAt'>) => void;
   removeEntry: (id: string) => void;
+  clearEntries: () => void;
+  updateEntry: (id: string, changes: EntryChanges) => void;
+  restoreEntry: (entry: AuthenticationEntry) => void;
+  addPendingEntry: (entry: AuthenticationEntry) => void;
+  markEntrySynced: (localId: string, serverId: string) => void;
+  setEntrySyncStatus: (id: string, syncStatus: 'pending' | 'failed') => void;
   getEntriesByDateRange: (
     startDate: string,
     endDate: string,
@@ -27,12 +51,20 @@ type HealthTrackerStore = HealthTrackerState & {
   clearError: () => void;
   fetchTodayExerciseLogs: (userKey: string) => Promise<void>;
   fetchTodayFoodLogs: (userKey: string) => Promise<void>;
+  syncEntries: (userKey: string, range?: SyncRange) => Promise<void>;
 };
 
-export const useHealthTrackerStore = create<HealthTrackerStore>()((set, get) => ({
+export const useHealthTrackerStore = create<HealthTrackerStore>()(
+  persist(
+    (set, get) => ({
       entries: [],
       isLoading: false,
       error: null,
+      hasHydrated: false,
+
+      setHasHydrated: (hasHydrated) => {
+        set({ hasHydrated });
+      },
 
       addExerciseEntry: (entry) => {
         const newEntry: ExerciseEntry = {
@@ -65,6 +97,65 @@ export const useHealthTrackerStore = create<HealthTrackerStore>()((set, get) =>
         }));
       },
 
+      clearEntries: () => {
+        set({ entries: [], error: null });
+      },
+
+      updateEntry: (id, changes) => {
+        set((state) => ({
+          entries: state.entries.map((entry) =>
+            entry.id === id
+              ? ({ ...entry, ...changes } as AuthenticationEntry)
+              : entry,
+          ),
+          error: null,
+        }));
+      },
+
+      // Rolls back an optimistic edit or delete to the given snapshot
+      restoreEntry: (entry) => {
+        set((state) => ({
+          entries: state.entries.some((existing) => existing.id === entry.id)
+            ? state.entries.map((existing) =>
+                existing.id === entry.id ? entry : existing,
+              )
+            : [entry, ...state.entries],
+        }));
+      },
+
+      addPendingEntry: (entry) => {
+        set((state) => ({
+          entries: [
+            { ...entry, syncStatus: 'pending' as const },
+            ...state.entries.filter((existing) => existing.id !== entry.id),
+          ],
+          error: null,
+        }));
+      },
+
+      markEntrySynced: (localId, serverId) => {
+        set((state) => ({
+          entries: state.entries
+            // The server copy may already have arrived through a fetch
+            .filter((entry) => entry.id !== serverId || entry.id === localId)
+            .map((entry) => {
+              if (entry.id !== localId) {
+                return entry;
+              }
+              const { syncStatus: _syncStatus, ...synced } = entry;
+              return { ...synced, id: serverId };
+            }),
+        }));
+      },
+
+      setEntrySyncStatus: (id, syncStatus) => {
+        set((state) => ({
+          entries: state.entries.map((entry) =>
+            entry.id === id ? { ...entry, syncStatus } : entry,
+          ),
+        }));
+      },
+
       getEntriesByDateRange: (startDate, endDate) => {
         const { entries } = get();
         return entries.filter(
@@ -134,4 +225,53 @@ export const useHealthTrackerStore = create<HealthTrackerStore>()((set, get) =>
           });
         }
       },
-    }));
+
+      syncEntries: async (userKey, range) => {
+        set({ isLoading: true, error: null });
+        try {
+          const { changes, serverTime } = await pullServerChanges(
+            userKey,
+            range,
+          );
+          const { entries, adoptedLocalIds } = reconcileEntries(
+            get().entries,
+            changes,
+          );
+          set({ entries, isLoading: false });
+
+          // The server already stored these writes; replaying them is unnecessary
+          const { remove } = useUploadQueueStore.getState();
+          for (const id of adoptedLocalIds) {
+            remove(id);
+          }
+          commitSyncWatermark(userKey, serverTime);
+        } catch (error) {
+          set({
+            isLoading: false,
+            error: {
+              type: 'SYNC_ERROR',
+              message: error instanceof Error ? error.message : 'Failed to sync logs',
+            },
+          });
+        }
+      },
+    }),
+    {
+      name: HEALTH_TRACKER_STORAGE_KEY,
+      version: HEALTH_TRACKER_STORE_VERSION,
+      storage: createJSONStorage(() => AsyncStorage),
+      // Only entries are durable; loading/error flags are per-session
+      partialize: (state): PersistedHealthTrackerState => ({
+        entries: state.entries,
+      }),
+      migrate: migrateHealthTrackerState,
+      onRehydrateStorage: () => (state, error) => {
+        if (error) {
+          console.error('Failed to restore health entries:', error);
+        }
+        // Unblock the UI even when restoring fails so the user can keep logging
+        (state ?? useHealthTrackerStore.getState()).setHasHydrated(true);
+      },
+    },
+  ),
+);
@@ -0,0 +1,105 @@
+/**
+ * Versioned on-device persistence for health tracker entries
+ * Each schema change to ExerciseEntry/FoodEntry bumps the version and adds a migration step
+ */
+
+import type { AuthenticationEntry } from '../types';
+
+export const HEALTH_TRACKER_STORAGE_KEY = 'health-tracker-storage';
+
+// v0: unversioned data (duration as HH:MM:SS string, no distance field)
+// v1: duration in minutes, optional distance (km)
+export const HEALTH_TRACKER_STORE_VERSION = 1;
+
+export interface PersistedHealthTrackerState {
+  entries: AuthenticationEntry[];
+}
+
+// Stored data is untrusted: older versions may miss or mistype fields
+type StoredRecord = Record<string, unknown>;
+type Migration = (state: StoredRecord) => StoredRecord;
+
+/**
+ * Converts a legacy HH:MM:SS (or MM:SS) duration string to minutes
+ */
+const durationStringToMinutes = (duration: string): number => {
+  const parts = duration.split(':').map((part) => Number.parseInt(part, 10));
+  if (parts.some((part) => Number.isNaN(part))) {
+    return 0;
+  }
+
+  const [seconds = 0, minutes = 0, hours = 0] = parts.reverse();
+  return hours * 60 + minutes + Math.round(seconds / 60);
+};
+
+const isPersistableEntry = (entry: unknown): entry is StoredRecord => {
+  return (
+    entry !== null &&
+    typeof entry === 'object' &&
+    typeof (entry as StoredRecord).id === 'string' &&
+    ((entry as StoredRecord).type === 'exercise' ||
+      (entry as StoredRecord).type === 'food') &&
+    typeof (entry as StoredRecord).date === 'string'
+  );
+};
+
+// migrations[n] upgrades a state stored at version n to version n + 1
+const migrations: Record<number, Migration> = {
+  0: (state) => ({
+    ...state,
+    entries: (Array.isArray(state.entries) ? state.entries : [])
+      .filter(isPersistableEntry)
+      .map((entry) => {
+        if (entry.type === 'food') {
+          return {
+            ...entry,
+            mainIngredients: Array.isArray(entry.mainIngredients)
+              ? entry.mainIngredients
+              : [],
+          };
+        }
+
+        const { distance, ...rest } = entry;
+        return {
+          ...rest,
+          duration:
+            typeof entry.duration === 'string'
+              ? durationStringToMinutes(entry.duration)
+              : (entry.duration ?? 0),
+          calories: typeof entry.calories === 'number' ? entry.calories : 0,
+          ...(typeof distance === 'number' && distance > 0 ? { distance } : {}),
+        };
+      }),
+  }),
+};
+
+/**
+ * Upgrades persisted state from `fromVersion` to the current store version
+ */
+export const migrateHealthTrackerState = (
+  persistedState: unknown,
+  fromVersion: number,
+): PersistedHealthTrackerState => {
+  let state: StoredRecord =
+    persistedState && typeof persistedState === 'object'
+      ? (persistedState as StoredRecord)
+      : { entries: [] };
+
+  for (
+    let version = fromVersion;
+    version < HEALTH_TRACKER_STORE_VERSION;
+    version++
+  ) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(`Missing health tracker migration from v${version}`);
+    }
+    state = migrate(state);
+  }
+
+  return {
+    entries: Array.isArray(state.entries)
+      ? (state.entries as AuthenticationEntry[])
+      : [],
+  };
+};
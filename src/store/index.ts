@@ -1,4 +1,9 @@
 export { useAnalysisNavigationStore } from './analysisNavigation';
 export { useAuthStore } from './authStore';
 export { useHealthTrackerStore } from './healthTracker';
+export { useUploadQueueStore } from './uploadQueue';
 
+export { useSyncStateStore } from './syncState';
+export { useAuthRedirectStore } from './authRedirect';
+export { useProfileStore } from './profile';
+export { useGoalsStore } from './goals';
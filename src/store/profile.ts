@@ -0,0 +1,42 @@
+/**
+ * Body profile of the signed-in user
+ * Personalizes calorie estimates; cleared with the rest of the user's local data
+ */
+
+import { Storage } from '@apps-in-toss/framework';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import type { UserProfile } from '../types';
+
+interface ProfileStore {
+  profile: UserProfile;
+  // Undefined fields are removed from the profile
+  setProfile: (profile: UserProfile) => void;
+  clearProfile: () => void;
+}
+
+export const useProfileStore = create<ProfileStore>()(
+  persist(
+    (set) => ({
+      profile: {},
+
+      setProfile: (profile) => {
+        set({
+          profile: Object.fromEntries(
+            Object.entries(profile).filter(([, value]) => value !== undefined),
+          ) as UserProfile,
+        });
+      },
+
+      clearProfile: () => {
+        set({ profile: {} });
+      },
+    }),
+    {
+      name: 'user-profile',
+      version: 1,
+      storage: createJSONStorage(() => Storage),
+      partialize: (state) => ({ profile: state.profile }),
+    },
+  ),
+);
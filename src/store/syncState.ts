@@ -0,0 +1,42 @@
+/**
+ * Incremental sync bookkeeping
+ * Stores the server watermark of the last completed full-history pull per user
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+
+interface SyncStateStore {
+  // userKey -> serverTime reported when the last full pull started
+  watermarks: Record<string, string>;
+  setWatermark: (userKey: string, serverTime: string) => void;
+  clearWatermark: (userKey: string) => void;
+}
+
+export const useSyncStateStore = create<SyncStateStore>()(
+  persist(
+    (set) => ({
+      watermarks: {},
+
+      setWatermark: (userKey, serverTime) => {
+        set((state) => ({
+          watermarks: { ...state.watermarks, [userKey]: serverTime },
+        }));
+      },
+
+      clearWatermark: (userKey) => {
+        set((state) => {
+          const { [userKey]: _removed, ...watermarks } = state.watermarks;
+          return { watermarks };
+        });
+      },
+    }),
+    {
+      name: 'sync-state-storage',
+      version: 1,
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ watermarks: state.watermarks }),
+    },
+  ),
+);
@@ -0,0 +1,104 @@
+/**
+ * Persistent outbox for log writes that could not reach the server
+ * Items survive restarts and are replayed by services/uploadQueue
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import type { LogExercisePayload, LogFoodPayload } from '../types/api';
+
+interface PendingUploadBase {
+  // Idempotency key sent with every attempt; doubles as the local entry id
+  id: string;
+  status: 'pending' | 'failed';
+  attempts: number;
+  nextAttemptAt: number; // epoch ms
+  lastError?: string;
+  createdAt: string;
+}
+
+export interface PendingExerciseUpload extends PendingUploadBase {
+  kind: 'exercise';
+  payload: LogExercisePayload;
+}
+
+export interface PendingFoodUpload extends PendingUploadBase {
+  kind: 'food';
+  payload: LogFoodPayload;
+}
+
+export type PendingUpload = PendingExerciseUpload | PendingFoodUpload;
+
+export type NewPendingUpload =
+  | Pick<PendingExerciseUpload, 'id' | 'kind' | 'payload'>
+  | Pick<PendingFoodUpload, 'id' | 'kind' | 'payload'>;
+
+interface UploadQueueStore {
+  items: PendingUpload[];
+  enqueue: (upload: NewPendingUpload) => void;
+  // nextAttemptAt === null marks the upload as permanently failed
+  recordFailure: (
+    id: string,
+    message: string,
+    nextAttemptAt: number | null,
+  ) => void;
+  remove: (id: string) => void;
+  clear: () => void;
+}
+
+export const useUploadQueueStore = create<UploadQueueStore>()(
+  persist(
+    (set) => ({
+      items: [],
+
+      enqueue: (upload) => {
+        set((state) => {
+          if (state.items.some((item) => item.id === upload.id)) {
+            return state;
+          }
+          const item = {
+            ...upload,
+            status: 'pending',
+            attempts: 0,
+            nextAttemptAt: Date.now(),
+            createdAt: new Date().toISOString(),
+          } as PendingUpload;
+          return { items: [...state.items, item] };
+        });
+      },
+
+      recordFailure: (id, message, nextAttemptAt) => {
+        set((state) => ({
+          items: state.items.map((item) =>
+            item.id === id
+              ? {
+                  ...item,
+                  attempts: item.attempts + 1,
+                  lastError: message,
+                  status: nextAttemptAt === null ? 'failed' : 'pending',
+                  nextAttemptAt: nextAttemptAt ?? item.nextAttemptAt,
+                }
+              : item,
+          ),
+        }));
+      },
+
+      remove: (id) => {
+        set((state) => ({
+          items: state.items.filter((item) => item.id !== id),
+        }));
+      },
+
+      clear: () => {
+        set({ items: [] });
+      },
+    }),
+    {
+      name: 'upload-queue-storage',
+      version: 1,
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ items: state.items }),
+    },
+  ),
+);
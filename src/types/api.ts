@@ -1,4 +1,12 @@
-export interface User {
+import type {
+  AuthenticationEntry,
+  EntryEdit,
+  Macronutrients,
+  UserProfile,
+} from './index';
+
+export interface User
+  extends Pick<UserProfile, 'weightKg' | 'heightCm' | 'birthYear'> {
   userKey: string;
   gender: 'male' | 'female' | 'other';
   ageRange: string;
@@ -16,6 +24,8 @@ export interface ExerciseLog {
 export interface FoodIngredient {
   name: string;
   color: 'red' | 'green' | 'teal';
+  grams?: number;
+  calories?: number;
 }
 
 export interface FoodLog {
@@ -23,6 +33,8 @@ export interface FoodLog {
   isHealthy: boolean;
   ingredients: FoodIngredient[];
   estimatedCalories: number;
+  macros?: Macronutrients;
+  portion?: number; // multiplier of the analyzed serving
   mealType: string;
   date: string;
 }
@@ -31,7 +43,28 @@ export type CreateUserPayload = Omit<User, 'userKey'> & { userKey: string };
 export type LogExercisePayload = ExerciseLog;
 export type LogFoodPayload = FoodLog;
 
+// Write request tagged with a client-generated key so replays are deduplicated
+export interface IdempotentRequest<P> {
+  payload: P;
+  idempotencyKey: string;
+}
+
+// Only the changed fields are sent; userKey identifies the owner
+export type UpdateExercisePayload = Partial<Omit<ExerciseLog, 'userKey'>> &
+  Pick<ExerciseLog, 'userKey'>;
+export type UpdateFoodPayload = Partial<Omit<FoodLog, 'userKey'>> &
+  Pick<FoodLog, 'userKey'>;
+
+export type EntryUpdateRequest = EntryEdit & { id: string; userKey: string };
+
+export interface EntryDeleteRequest {
+  entry: AuthenticationEntry;
+  userKey: string;
+}
+
 // Assuming the API returns the created object
 export type CreateUserResponse = User;
 export type LogExerciseResponse = ExerciseLog & { id: string };
 export type LogFoodResponse = FoodLog & { id: string };
+export type UpdateExerciseResponse = LogExerciseResponse;
+export type UpdateFoodResponse = LogFoodResponse;
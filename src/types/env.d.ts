@@ -2,12 +2,15 @@ declare module 'react-native-config' {
   export interface NativeConfig {
     API_BASE_URL: string;
     API_KEY: string;
-    GEMINI_API_KEY: string;
-    GEMINI_API_URL: string;
+    GEMINI_API_KEY?: string;
+    GEMINI_API_URL?: string;
     APP_ENV: 'development' | 'staging' | 'production';
     DEBUG_MODE: string;
     ENABLE_ANALYTICS: string;
     ENABLE_CRASH_REPORTING: string;
+    USE_BACKEND_ANALYSIS?: string;
+    USE_MOCK_ANALYSIS?: string;
+    DEV_USER_KEY?: string;
   }
 
   export const Config: NativeConfig;
@@ -6,6 +6,8 @@ export interface BaseEntry {
   date: string; // YYYY-MM-DD format
   timestamp: string; // ISO 8601 format
   createdAt: string;
+  // Set while a locally saved entry waits for the server to confirm it
+  syncStatus?: 'pending' | 'failed';
 }
 
 export interface ExerciseEntry extends BaseEntry {
@@ -23,13 +25,77 @@ export interface FoodEntry extends BaseEntry {
   mainIngredients: string[];
   estimatedCalories: number;
   mealType: string; // breakfast, lunch, dinner, snack
+  // Nutrition of the logged portion, when the analysis estimated it
+  macros?: Macronutrients;
+  ingredientNutrition?: IngredientNutrition[];
+  portion?: number; // multiplier of the analyzed serving
   originalImagePath?: string;
 }
 
+// Grams of each macronutrient
+export interface Macronutrients {
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+export interface IngredientNutrition {
+  name: string;
+  color?: Ingredient['color']; // health color the analysis gave it
+  grams?: number;
+  calories?: number;
+}
+
 export type AuthenticationEntry = ExerciseEntry | FoodEntry;
 
+// Body measurements used to personalize calorie estimates; every field is optional
+export interface UserProfile {
+  weightKg?: number;
+  heightCm?: number;
+  birthYear?: number;
+  gender?: 'male' | 'female' | 'other';
+  dailyCalorieTarget?: number; // kcal; derived from the measurements when unset
+}
+
+// Weekly targets the user sets for daily certification
+export interface WeeklyGoals {
+  exerciseMinutes: number;
+  healthyMeals: number;
+}
+
+// Runs of consecutive days with at least one entry
+export interface StreakStats {
+  current: number; // ends today, or yesterday while today is still open
+  longest: number;
+}
+
+// Fields a user may correct on a saved entry
+export type ExerciseEntryChanges = Partial<
+  Pick<ExerciseEntry, 'exerciseType' | 'duration' | 'calories' | 'distance'>
+>;
+export type FoodEntryChanges = Partial<
+  Pick<
+    FoodEntry,
+    'isHealthy' | 'mainIngredients' | 'estimatedCalories' | 'mealType'
+  >
+>;
+export type EntryChanges = ExerciseEntryChanges | FoodEntryChanges;
+// Changes tagged with the kind of entry they apply to
+export type EntryEdit =
+  | { type: 'exercise'; changes: ExerciseEntryChanges }
+  | { type: 'food'; changes: FoodEntryChanges };
+
 // API Response Types
-export interface GeminiExerciseResponse {
+// How sure the analysis is, 0 (guess) to 1 (certain); absent when the provider does not report it
+export interface AnalysisConfidence<K extends string> {
+  confidence?: number;
+  fieldConfidence?: Partial<Record<K, number>>;
+}
+
+export interface GeminiExerciseResponse
+  extends AnalysisConfidence<
+    'exerciseType' | 'duration' | 'calories' | 'distance'
+  > {
   exerciseType: string;
   duration: number; // minutes
   calories: number;
@@ -37,15 +103,24 @@ export interface GeminiExerciseResponse {
   distance?: number; // km (for walking, cycling, running, etc.)
 }
 
+// One screenshot may list several workouts (e.g. a weekly summary)
+export interface GeminiExerciseListResponse {
+  workouts: GeminiExerciseResponse[];
+}
+
 export interface Ingredient {
   name: string;
   color: 'red' | 'green' | 'teal';
+  grams?: number;
+  calories?: number;
 }
 
-export interface GeminiFoodResponse {
+export interface GeminiFoodResponse
+  extends AnalysisConfidence<'mealType' | 'ingredients' | 'estimatedCalories'> {
   isHealthy: boolean;
   ingredients: Ingredient[];
   estimatedCalories: number;
+  macros?: Macronutrients;
   mealType: string;
   date: string;
 }
@@ -75,6 +150,15 @@ export interface WeeklyStats {
   healthyFoodPercentage: number;
 }
 
+export interface WeeklyStatsComparison {
+  current: WeeklyStats;
+  previous: WeeklyStats;
+  exerciseCountChange: number;
+  caloriesBurnedChange: number;
+  caloriesConsumedChange: number;
+  healthyFoodPercentageChange: number;
+}
+
 // Error handling types
 export type AppError =
   | { type: 'network'; message: string; shouldRetry: boolean }
@@ -88,7 +172,7 @@ export interface HealthTrackerState {
   // Data
   entries: AuthenticationEntry[];
   isLoading: boolean;
-  error: string | null;
+  error: { type: string; message: string } | null;
 
   // Actions
   addExerciseEntry: (entry: Omit<ExerciseEntry, 'id' | 'createdAt'>) => void;
@@ -141,6 +225,17 @@ export interface MetadataExtractor {
 }
 
 // Gemini API types
+// Structured output schema (OpenAPI subset) sent as generationConfig.responseSchema
+export interface GeminiResponseSchema {
+  type: string; // STRING | NUMBER | BOOLEAN | ARRAY | OBJECT
+  description?: string;
+  nullable?: boolean;
+  enum?: string[];
+  items?: GeminiResponseSchema;
+  properties?: Record<string, GeminiResponseSchema>;
+  required?: string[];
+}
+
 export interface GeminiAPIRequest {
   contents: Array<{
     parts: Array<{
@@ -156,6 +251,8 @@ export interface GeminiAPIRequest {
     topK?: number;
     topP?: number;
     maxOutputTokens?: number;
+    responseMimeType?: string;
+    responseSchema?: GeminiResponseSchema;
   };
 }
 
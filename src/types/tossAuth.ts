@@ -34,11 +34,25 @@ export interface TossAuthStatusResponse {
 
 export interface TossAuthResponse {
   txId: string;
+  // Stable per-user key issued by the backend (derived from the Toss CI)
+  userKey?: string;
   userData: TossUserData;
   signature: string;
   completedAt: string;
 }
 
+// Backend session issued in exchange for a verified Toss signature
+export interface TossSessionTokenRequest {
+  txId: string;
+  signature: string;
+}
+
+export interface TossSessionTokenResponse {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number; // seconds
+}
+
 // Error types
 export interface TossAuthError {
   message: string;
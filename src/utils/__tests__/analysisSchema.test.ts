@@ -0,0 +1,259 @@
+import {
+  AnalysisValidationError,
+  parseAnalysisResult,
+  parseExerciseAnalysis,
+} from '../../services/GeminiAPIClient';
+import type { GeminiFoodResponse } from '../../types';
+import {
+  exerciseAnalysisSchema,
+  foodAnalysisSchema,
+  toGeminiResponseSchema,
+  validateAgainstSchema,
+} from '../analysisSchema';
+import {
+  getLowConfidenceFields,
+  validateGeminiExerciseResponse,
+  validateGeminiFoodResponse,
+} from '../apiValidation';
+
+const exercise = {
+  exerciseType: '달리기',
+  duration: 32,
+  calories: 310,
+  distance: 5.1,
+  date: '2024-01-15',
+};
+
+const food = {
+  isHealthy: true,
+  ingredients: [
+    { name: '현미밥', color: 'teal' },
+    { name: '닭가슴살', color: 'red' },
+  ],
+  estimatedCalories: 520,
+  mealType: '점심식사',
+  date: '2024-01-15',
+};
+
+describe('validateAgainstSchema', () => {
+  it('should accept valid analysis results', () => {
+    expect(validateAgainstSchema(exerciseAnalysisSchema, exercise)).toEqual([]);
+    expect(validateAgainstSchema(foodAnalysisSchema, food)).toEqual([]);
+  });
+
+  it('should allow optional fields to be null or missing', () => {
+    const { distance: _distance, ...withoutDistance } = exercise;
+
+    expect(
+      validateAgainstSchema(exerciseAnalysisSchema, withoutDistance),
+    ).toEqual([]);
+    expect(
+      validateAgainstSchema(exerciseAnalysisSchema, {
+        ...exercise,
+        distance: null,
+      }),
+    ).toEqual([]);
+  });
+
+  it('should list every failing field', () => {
+    const issues = validateAgainstSchema(exerciseAnalysisSchema, {
+      exerciseType: '',
+      duration: '00:32:00',
+      calories: -5,
+      date: '2024/01/15',
+    });
+
+    expect(issues.map((issue) => issue.field)).toEqual([
+      'exerciseType',
+      'duration',
+      'calories',
+      'date',
+    ]);
+  });
+
+  it('should report nested ingredient fields by path', () => {
+    const issues = validateAgainstSchema(foodAnalysisSchema, {
+      ...food,
+      ingredients: [{ name: '김치', color: 'blue' }, { color: 'green' }],
+    });
+
+    expect(issues).toEqual([
+      {
+        field: 'ingredients.0.color',
+        message: 'must be one of: red, green, teal',
+      },
+      { field: 'ingredients.1.name', message: 'is required' },
+    ]);
+  });
+});
+
+describe('toGeminiResponseSchema', () => {
+  it('should convert the schema to Gemini structured output', () => {
+    const schema = toGeminiResponseSchema(exerciseAnalysisSchema);
+
+    expect(schema.type).toBe('OBJECT');
+    expect(schema.required).toEqual([
+      'exerciseType',
+      'duration',
+      'calories',
+      'date',
+    ]);
+    expect(schema.properties?.distance).toEqual({
+      type: 'NUMBER',
+      description: '운동 거리 (km), 거리가 없는 운동은 null',
+      nullable: true,
+    });
+    expect(
+      toGeminiResponseSchema(foodAnalysisSchema).properties?.ingredients?.items
+        ?.properties?.color?.enum,
+    ).toEqual(['red', 'green', 'teal']);
+  });
+});
+
+describe('parseAnalysisResult', () => {
+  it('should drop null optional fields', () => {
+    const result = parseAnalysisResult(
+      exerciseAnalysisSchema,
+      { ...exercise, distance: null },
+      'exercise',
+    );
+
+    expect(result).not.toHaveProperty('distance');
+  });
+
+  it('should drop unestimated nutrition fields', () => {
+    const result = parseAnalysisResult<GeminiFoodResponse>(
+      foodAnalysisSchema,
+      {
+        ...food,
+        ingredients: [
+          { name: '현미밥', color: 'teal', grams: 210, calories: null },
+        ],
+        macros: null,
+      },
+      'food',
+    );
+
+    expect(result).not.toHaveProperty('macros');
+    expect(result.ingredients).toEqual([
+      { name: '현미밥', color: 'teal', grams: 210 },
+    ]);
+  });
+
+  it('should throw a typed error instead of substituting defaults', () => {
+    expect.assertions(3);
+    try {
+      parseAnalysisResult(
+        exerciseAnalysisSchema,
+        { ...exercise, calories: 'many' },
+        'exercise',
+      );
+    } catch (error) {
+      expect(error).toBeInstanceOf(AnalysisValidationError);
+      expect((error as AnalysisValidationError).code).toBe(
+        'RESPONSE_VALIDATION_ERROR',
+      );
+      expect((error as AnalysisValidationError).issues).toEqual([
+        { field: 'calories', message: 'expected number, got string' },
+      ]);
+    }
+  });
+});
+
+describe('parseExerciseAnalysis', () => {
+  it('should keep every workout of a list', () => {
+    const { workouts } = parseExerciseAnalysis({
+      workouts: [
+        exercise,
+        { ...exercise, exerciseType: '요가', distance: null },
+      ],
+    });
+
+    expect(workouts).toHaveLength(2);
+    expect(workouts[0]).toEqual(exercise);
+    expect(workouts[1]).not.toHaveProperty('distance');
+  });
+
+  it('should wrap a single workout from an older proxy', () => {
+    expect(parseExerciseAnalysis(exercise)).toEqual({ workouts: [exercise] });
+  });
+
+  it('should report invalid workouts by index', () => {
+    expect.assertions(2);
+    expect(() => parseExerciseAnalysis({ workouts: [] })).toThrow(
+      AnalysisValidationError,
+    );
+    try {
+      parseExerciseAnalysis({
+        workouts: [exercise, { ...exercise, duration: 0 }],
+      });
+    } catch (error) {
+      expect((error as AnalysisValidationError).issues).toEqual([
+        { field: 'workouts.1.duration', message: 'must be at least 1' },
+      ]);
+    }
+  });
+});
+
+describe('apiValidation', () => {
+  it('should validate with the shared schema', () => {
+    expect(validateGeminiExerciseResponse(exercise)).toBe(true);
+    expect(validateGeminiExerciseResponse({ ...exercise, duration: 0 })).toBe(
+      false,
+    );
+    expect(validateGeminiFoodResponse(food)).toBe(true);
+    expect(validateGeminiFoodResponse({ ...food, ingredients: [] })).toBe(
+      false,
+    );
+  });
+});
+
+describe('confidence', () => {
+  it('should accept scores between 0 and 1 only', () => {
+    expect(
+      validateAgainstSchema(exerciseAnalysisSchema, {
+        ...exercise,
+        confidence: 0.8,
+        fieldConfidence: { calories: 0.4 },
+      }),
+    ).toEqual([]);
+    expect(
+      validateAgainstSchema(exerciseAnalysisSchema, {
+        ...exercise,
+        fieldConfidence: { calories: 1.5 },
+      }),
+    ).toEqual([
+      { field: 'fieldConfidence.calories', message: 'must be at most 1' },
+    ]);
+  });
+
+  it('should flag fields below the threshold', () => {
+    const fields = ['exerciseType', 'duration', 'calories', 'distance'];
+
+    expect(
+      getLowConfidenceFields(
+        { ...exercise, fieldConfidence: { calories: 0.4, duration: 0.9 } },
+        fields,
+      ),
+    ).toEqual(['calories']);
+  });
+
+  it('should fall back to the overall score for fields without one', () => {
+    const { distance: _distance, ...withoutDistance } = exercise;
+
+    expect(
+      getLowConfidenceFields(
+        {
+          ...withoutDistance,
+          confidence: 0.5,
+          fieldConfidence: { exerciseType: 0.95 },
+        },
+        ['exerciseType', 'duration', 'calories', 'distance'],
+      ),
+    ).toEqual(['duration', 'calories']);
+  });
+
+  it('should flag nothing when the provider reports no confidence', () => {
+    expect(getLowConfidenceFields(exercise, ['calories'])).toEqual([]);
+  });
+});
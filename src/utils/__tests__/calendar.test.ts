@@ -0,0 +1,90 @@
+import type { AuthenticationEntry } from '../../types';
+import {
+  addMonths,
+  buildMonthGrid,
+  getMonthRange,
+  summarizeMonth,
+} from '../calendar';
+
+const entry = (
+  id: string,
+  type: AuthenticationEntry['type'],
+  date: string,
+): AuthenticationEntry =>
+  type === 'exercise'
+    ? {
+        id,
+        type,
+        date,
+        timestamp: `${date}T09:00:00.000Z`,
+        createdAt: `${date}T09:00:00.000Z`,
+        exerciseType: '걷기',
+        duration: 30,
+        calories: 120,
+      }
+    : {
+        id,
+        type,
+        date,
+        timestamp: `${date}T12:00:00.000Z`,
+        createdAt: `${date}T12:00:00.000Z`,
+        isHealthy: true,
+        mainIngredients: ['밥'],
+        estimatedCalories: 500,
+        mealType: '점심',
+      };
+
+describe('calendar', () => {
+  it('should shift months across years', () => {
+    expect(addMonths('2024-01', -1)).toBe('2023-12');
+    expect(addMonths('2023-12', 1)).toBe('2024-01');
+  });
+
+  it('should cover every day of the month', () => {
+    expect(getMonthRange('2024-02')).toEqual({
+      startDate: '2024-02-01',
+      endDate: '2024-02-29',
+    });
+  });
+
+  it('should lay the month out in Monday-first weeks', () => {
+    // 2024-09-01 is a Sunday
+    const weeks = buildMonthGrid('2024-09');
+
+    expect(weeks).toHaveLength(6);
+    expect(weeks[0]).toEqual([
+      null,
+      null,
+      null,
+      null,
+      null,
+      null,
+      '2024-09-01',
+    ]);
+    expect(weeks[5]).toEqual([
+      '2024-09-30',
+      null,
+      null,
+      null,
+      null,
+      null,
+      null,
+    ]);
+  });
+
+  it('should count entries per day within the month', () => {
+    const summary = summarizeMonth(
+      [
+        entry('1', 'exercise', '2024-03-05'),
+        entry('2', 'food', '2024-03-05'),
+        entry('3', 'food', '2024-03-05'),
+        entry('4', 'food', '2024-04-01'),
+      ],
+      '2024-03',
+    );
+
+    expect(summary).toEqual({
+      '2024-03-05': { exerciseCount: 1, foodCount: 2 },
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import type { AuthenticationEntry } from '../../types';
+import {
+  DEFAULT_CALORIE_TARGET,
+  calculateDailyBudget,
+  getDailyCalorieTarget,
+  getMealSlot,
+} from '../calorieBudget';
+
+const base = {
+  timestamp: '2024-01-15T09:00:00.000Z',
+  createdAt: '2024-01-15T09:00:00.000Z',
+};
+
+const food = (
+  id: string,
+  mealType: string,
+  estimatedCalories: number,
+  date = '2024-01-15',
+): AuthenticationEntry => ({
+  ...base,
+  id,
+  type: 'food',
+  date,
+  isHealthy: true,
+  mainIngredients: ['밥'],
+  estimatedCalories,
+  mealType,
+});
+
+const entries: AuthenticationEntry[] = [
+  food('1', '아침식사', 450),
+  food('2', 'lunch', 700),
+  food('3', '점심', 150),
+  food('4', '야식', 300),
+  food('5', '저녁식사', 900, '2024-01-14'),
+  {
+    ...base,
+    id: '6',
+    type: 'exercise',
+    date: '2024-01-15',
+    exerciseType: '달리기',
+    duration: 30,
+    calories: 320,
+  },
+];
+
+describe('calorieBudget', () => {
+  describe('getDailyCalorieTarget', () => {
+    const now = new Date(2024, 0, 15);
+
+    it('should prefer the target the user set', () => {
+      expect(getDailyCalorieTarget({ dailyCalorieTarget: 1800 }, now)).toBe(
+        1800,
+      );
+    });
+
+    it('should derive the target from body measurements', () => {
+      // (700 + 1062.5 - 170 + 5) × 1.2
+      expect(
+        getDailyCalorieTarget(
+          { weightKg: 70, heightCm: 170, birthYear: 1990, gender: 'male' },
+          now,
+        ),
+      ).toBe(1920);
+    });
+
+    it('should fall back to the default without measurements', () => {
+      expect(getDailyCalorieTarget({ weightKg: 70 }, now)).toBe(
+        DEFAULT_CALORIE_TARGET,
+      );
+    });
+  });
+
+  it('should map meal types to slots', () => {
+    expect(getMealSlot('아침식사')).toBe('breakfast');
+    expect(getMealSlot('Dinner')).toBe('dinner');
+    expect(getMealSlot('야식')).toBe('snack');
+  });
+
+  describe('calculateDailyBudget', () => {
+    it('should credit burned calories to the remaining budget', () => {
+      const budget = calculateDailyBudget(entries, 2000, '2024-01-15');
+
+      expect(budget).toMatchObject({
+        consumed: 1600,
+        burned: 320,
+        remaining: 720,
+        netEnergy: 1280,
+      });
+    });
+
+    it('should break intake down by meal', () => {
+      const { meals } = calculateDailyBudget(entries, 2000, '2024-01-15');
+
+      expect(meals).toEqual([
+        { slot: 'breakfast', label: '아침', calories: 450, count: 1 },
+        { slot: 'lunch', label: '점심', calories: 850, count: 2 },
+        { slot: 'dinner', label: '저녁', calories: 0, count: 0 },
+        { slot: 'snack', label: '간식', calories: 300, count: 1 },
+      ]);
+    });
+
+    it('should go negative once the budget is exceeded', () => {
+      expect(calculateDailyBudget(entries, 1000, '2024-01-15').remaining).toBe(
+        -280,
+      );
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { mapAnalysisToFloatingText } from '../analysisDataMapper';
+import {
+  checkExerciseCalories,
+  checkFoodCalories,
+  estimateFoodCalories,
+  estimateWorkoutCalories,
+  findFoodReference,
+  getCaloriesPerMetHour,
+} from '../calorieReference';
+
+describe('calorieReference', () => {
+  it('should prefer the most specific dish name', () => {
+    expect(findFoodReference('김치찌개')?.name).toBe('김치찌개');
+    expect(findFoodReference('배추 김치')?.name).toBe('김치');
+    expect(findFoodReference('공기밥')?.name).toBe('밥');
+    expect(findFoodReference('마라탕')).toBeNull();
+  });
+
+  it('should estimate exercise calories from MET values', () => {
+    expect(
+      estimateWorkoutCalories({ exerciseType: '걷기', duration: 30 }),
+    ).toBe(114);
+    expect(
+      estimateWorkoutCalories(
+        { exerciseType: '걷기', duration: 30 },
+        { weightKg: 80 },
+      ),
+    ).toBe(140);
+  });
+
+  it('should use the average speed when the distance is known', () => {
+    // 10 km in 50 minutes is 12 km/h
+    expect(
+      estimateWorkoutCalories({
+        exerciseType: '달리기',
+        duration: 50,
+        distance: 10,
+      }),
+    ).toBe(639);
+    expect(
+      estimateWorkoutCalories({
+        exerciseType: '달리기',
+        duration: 50,
+        distance: 6,
+      }),
+    ).toBe(450);
+  });
+
+  it('should fall back to a moderate MET for unknown exercises', () => {
+    expect(
+      estimateWorkoutCalories({ exerciseType: '카바디', duration: 60 }),
+    ).toBe(260);
+  });
+
+  it('should base one MET on the resting rate of a full profile', () => {
+    const now = new Date(2024, 5, 1);
+
+    expect(getCaloriesPerMetHour({ weightKg: 70 }, now)).toBe(70);
+    // 10×70 + 6.25×175 − 5×34 + 5 = 1628.75 kcal a day
+    expect(
+      getCaloriesPerMetHour(
+        { weightKg: 70, heightCm: 175, birthYear: 1990, gender: 'male' },
+        now,
+      ),
+    ).toBeCloseTo(67.86, 2);
+  });
+
+  it('should flag 30 minutes of walking reported as 900 kcal', () => {
+    expect(
+      checkExerciseCalories({
+        exerciseType: '걷기',
+        duration: 30,
+        calories: 900,
+      }),
+    ).toEqual({ reported: 900, estimated: 114, isPlausible: false });
+    expect(
+      checkExerciseCalories({
+        exerciseType: '걷기',
+        duration: 30,
+        calories: 150,
+      }),
+    ).toMatchObject({ isPlausible: true });
+  });
+
+  it('should skip exercises without a reference', () => {
+    expect(
+      checkExerciseCalories({
+        exerciseType: '카바디',
+        duration: 30,
+        calories: 900,
+      }),
+    ).toBeNull();
+  });
+
+  it('should estimate meals by weight when grams are known', () => {
+    expect(
+      estimateFoodCalories([
+        { name: '밥', color: 'teal', grams: 105 },
+        { name: '김치', color: 'green' },
+      ]),
+    ).toBe(165);
+  });
+
+  it('should use the analysis for unknown ingredients only when it has amounts', () => {
+    expect(
+      estimateFoodCalories([
+        { name: '밥', color: 'teal' },
+        { name: '마라소스', color: 'red', calories: 120 },
+      ]),
+    ).toBe(420);
+    expect(
+      estimateFoodCalories([
+        { name: '밥', color: 'teal' },
+        { name: '마라소스', color: 'red' },
+      ]),
+    ).toBeNull();
+  });
+
+  it('should tolerate small absolute differences', () => {
+    expect(
+      checkFoodCalories({
+        ingredients: [{ name: '김치', color: 'green' }],
+        estimatedCalories: 80,
+      }),
+    ).toMatchObject({ estimated: 15, isPlausible: true });
+  });
+
+  it('should show both numbers in the analysis view', () => {
+    const items = mapAnalysisToFloatingText(
+      {
+        exerciseType: '걷기',
+        duration: 30,
+        calories: 900,
+        date: '2024-01-15',
+      },
+      'exercise',
+    );
+
+    expect(items.find((item) => item.key === 'calories')).toMatchObject({
+      value: '900kcal',
+      note: '참고값 약 114kcal과 차이가 커요',
+      needsReview: true,
+    });
+  });
+});
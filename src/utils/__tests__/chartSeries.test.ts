@@ -0,0 +1,143 @@
+import type { AuthenticationEntry } from '../../types';
+import {
+  OTHER_EXERCISE_TYPE,
+  buildCalorieTrend,
+  buildExerciseMinutesTrend,
+  buildHealthyFoodTrend,
+  getChartBuckets,
+} from '../chartSeries';
+
+const workout = (
+  date: string,
+  exerciseType: string,
+  duration: number,
+): AuthenticationEntry => ({
+  id: `${date}-${exerciseType}`,
+  type: 'exercise',
+  date,
+  timestamp: `${date}T09:00:00.000Z`,
+  createdAt: `${date}T09:00:00.000Z`,
+  exerciseType,
+  duration,
+  calories: duration * 5,
+});
+
+const meal = (
+  date: string,
+  estimatedCalories: number,
+  isHealthy = true,
+): AuthenticationEntry => ({
+  id: `${date}-${estimatedCalories}`,
+  type: 'food',
+  date,
+  timestamp: `${date}T12:00:00.000Z`,
+  createdAt: `${date}T12:00:00.000Z`,
+  isHealthy,
+  mainIngredients: ['밥'],
+  estimatedCalories,
+  mealType: '점심',
+});
+
+describe('chartSeries', () => {
+  describe('getChartBuckets', () => {
+    it('should use one bucket per day up to 30 days', () => {
+      const buckets = getChartBuckets(7, '2024-03-03');
+
+      expect(buckets).toHaveLength(7);
+      expect(buckets[0]).toEqual({
+        startDate: '2024-02-26',
+        endDate: '2024-02-26',
+        label: '2/26',
+      });
+      expect(buckets[6]?.label).toBe('3/3');
+    });
+
+    it('should use Monday-first weeks for longer ranges', () => {
+      const buckets = getChartBuckets(90, '2024-03-31');
+
+      // 2024-01-02 (Tue) falls in the week of 2024-01-01
+      expect(buckets[0]?.startDate).toBe('2024-01-01');
+      expect(buckets[buckets.length - 1]).toEqual({
+        startDate: '2024-03-25',
+        endDate: '2024-03-31',
+        label: '3/25',
+      });
+      expect(buckets).toHaveLength(13);
+    });
+  });
+
+  it('should total calories eaten and burned per day', () => {
+    const trend = buildCalorieTrend(
+      [
+        meal('2024-03-02', 500),
+        meal('2024-03-02', 300),
+        workout('2024-03-03', '걷기', 40),
+      ],
+      3,
+      '2024-03-03',
+    );
+
+    expect(trend.map(({ consumed, burned }) => ({ consumed, burned }))).toEqual(
+      [
+        { consumed: 0, burned: 0 },
+        { consumed: 800, burned: 0 },
+        { consumed: 0, burned: 200 },
+      ],
+    );
+  });
+
+  it('should stack exercise minutes by type and group rare types', () => {
+    const trend = buildExerciseMinutesTrend(
+      [
+        workout('2024-03-01', '달리기', 60),
+        workout('2024-03-01', '걷기', 50),
+        workout('2024-03-02', '요가', 40),
+        workout('2024-03-02', '수영', 30),
+        workout('2024-03-03', '등산', 20),
+        workout('2024-03-03', '골프', 10),
+        workout('2024-02-01', '축구', 90),
+      ],
+      3,
+      '2024-03-03',
+    );
+
+    expect(trend.types).toEqual([
+      '달리기',
+      '걷기',
+      '요가',
+      '수영',
+      OTHER_EXERCISE_TYPE,
+    ]);
+    expect(trend.buckets[2]?.minutes).toEqual({
+      달리기: 0,
+      걷기: 0,
+      요가: 0,
+      수영: 0,
+      [OTHER_EXERCISE_TYPE]: 30,
+    });
+  });
+
+  it('should report the weekly healthy-meal percentage', () => {
+    const trend = buildHealthyFoodTrend(
+      [
+        meal('2024-03-04', 500),
+        meal('2024-03-05', 700, false),
+        meal('2024-03-06', 400),
+        meal('2024-03-07', 600),
+      ],
+      14,
+      '2024-03-10',
+    );
+
+    expect(
+      trend.map(({ startDate, healthyFoodPercentage, foodCount }) => ({
+        startDate,
+        healthyFoodPercentage,
+        foodCount,
+      })),
+    ).toEqual([
+      { startDate: '2024-02-26', healthyFoodPercentage: 0, foodCount: 0 },
+      { startDate: '2024-03-04', healthyFoodPercentage: 75, foodCount: 4 },
+    ]);
+  });
+});
@@ -0,0 +1,214 @@
+import type {
+  AuthenticationEntry,
+  ExerciseEntry,
+  FoodEntry,
+} from '../../types';
+import {
+  EXPORT_FORMAT_VERSION,
+  buildExportFiles,
+  buildHealthDataExport,
+  exerciseEntriesToCsv,
+  foodEntriesToCsv,
+  parseCsv,
+  parseExerciseCsv,
+  parseFoodCsv,
+  parseJsonExport,
+  serializeJsonExport,
+} from '../dataExport';
+
+const run: ExerciseEntry = {
+  id: 'exercise-1',
+  type: 'exercise',
+  date: '2024-01-15',
+  timestamp: '2024-01-15T07:30:00.000Z',
+  createdAt: '2024-01-15T07:30:00.000Z',
+  exerciseType: '달리기',
+  duration: 30,
+  calories: 320,
+  distance: 5.2,
+  originalImagePath: 'file:///cache/run.jpg',
+  syncStatus: 'pending',
+};
+
+const walk: ExerciseEntry = {
+  id: 'exercise-2',
+  type: 'exercise',
+  date: '2024-01-20',
+  timestamp: '2024-01-20T10:00:00.000Z',
+  createdAt: '2024-01-20T10:00:00.000Z',
+  exerciseType: '걷기, 산책',
+  duration: 45,
+  calories: 180,
+};
+
+const lunch: FoodEntry = {
+  id: 'food-1',
+  type: 'food',
+  date: '2024-01-15',
+  timestamp: '2024-01-15T03:00:00.000Z',
+  createdAt: '2024-01-15T03:00:00.000Z',
+  isHealthy: true,
+  mainIngredients: ['밥', '나물', '고추장 "매운맛"'],
+  estimatedCalories: 560,
+  mealType: '점심식사',
+  macros: { protein: 18, carbs: 92, fat: 13.5 },
+  portion: 1.5,
+};
+
+const snack: FoodEntry = {
+  id: 'food-2',
+  type: 'food',
+  date: '2024-02-01',
+  timestamp: '2024-02-01T06:00:00.000Z',
+  createdAt: '2024-02-01T06:00:00.000Z',
+  isHealthy: false,
+  mainIngredients: ['과자'],
+  estimatedCalories: 250,
+  mealType: '간식',
+};
+
+const entries: AuthenticationEntry[] = [snack, walk, lunch, run];
+const january = { startDate: '2024-01-01', endDate: '2024-01-31' };
+const exportedAt = '2024-02-02T00:00:00.000Z';
+
+describe('dataExport', () => {
+  describe('buildHealthDataExport', () => {
+    it('should export the range oldest first, split by type', () => {
+      const data = buildHealthDataExport(entries, january, exportedAt);
+
+      expect(data).toMatchObject({
+        version: EXPORT_FORMAT_VERSION,
+        exportedAt,
+        range: january,
+      });
+      expect(data.exercise.map((entry) => entry.id)).toEqual([
+        'exercise-1',
+        'exercise-2',
+      ]);
+      expect(data.food.map((entry) => entry.id)).toEqual(['food-1']);
+    });
+
+    it('should export the whole history without a range', () => {
+      const data = buildHealthDataExport(entries, null, exportedAt);
+
+      expect(data.food.map((entry) => entry.id)).toEqual(['food-1', 'food-2']);
+    });
+
+    it('should leave out device-only fields', () => {
+      const [exported] = buildHealthDataExport([run], null).exercise;
+
+      expect(exported).not.toHaveProperty('syncStatus');
+      expect(exported).not.toHaveProperty('originalImagePath');
+    });
+  });
+
+  describe('JSON', () => {
+    it('should round-trip every exported field', () => {
+      const data = buildHealthDataExport(entries, january, exportedAt);
+
+      expect(parseJsonExport(serializeJsonExport(data))).toEqual(data);
+    });
+
+    it('should reject text that is not an export', () => {
+      expect(() => parseJsonExport('not json')).toThrow('not valid JSON');
+      expect(() => parseJsonExport('{"entries": []}')).toThrow(
+        'Not a health tracker export',
+      );
+    });
+
+    it('should reject exports from a newer version', () => {
+      const data = buildHealthDataExport(entries, null, exportedAt);
+      const newer = { ...data, version: EXPORT_FORMAT_VERSION + 1 };
+
+      expect(() => parseJsonExport(JSON.stringify(newer))).toThrow(
+        'Unsupported export version',
+      );
+    });
+  });
+
+  describe('CSV', () => {
+    it('should round-trip exercise entries', () => {
+      const { exercise } = buildHealthDataExport(entries, null, exportedAt);
+
+      expect(parseExerciseCsv(exerciseEntriesToCsv(exercise))).toEqual(
+        exercise,
+      );
+    });
+
+    it('should round-trip food entries', () => {
+      const { food } = buildHealthDataExport(entries, null, exportedAt);
+
+      expect(parseFoodCsv(foodEntriesToCsv(food))).toEqual(food);
+    });
+
+    it('should quote fields with commas and quotes', () => {
+      const csv = foodEntriesToCsv([lunch]);
+
+      expect(csv.split('\r\n')[1]).toContain('"밥;나물;고추장 ""매운맛"""');
+      expect(exerciseEntriesToCsv([walk])).toContain('"걷기, 산책"');
+    });
+
+    it('should neutralize spreadsheet formulas and read them back', () => {
+      const formulas = [
+        { ...run, exerciseType: '=HYPERLINK("http://x","운동")' },
+        { ...walk, exerciseType: "'=1+1" },
+      ];
+      const snacks = [
+        {
+          ...lunch,
+          mealType: '@간식',
+          mainIngredients: ['-매운 소스', '+토핑'],
+        },
+      ];
+      const { exercise, food } = buildHealthDataExport(
+        [...formulas, ...snacks],
+        null,
+        exportedAt,
+      );
+      const exerciseCsv = exerciseEntriesToCsv(exercise);
+      const foodCsv = foodEntriesToCsv(food);
+
+      expect(exerciseCsv).toContain('"\'=HYPERLINK(""http://x"",""운동"")"');
+      expect(exerciseCsv).toContain("''=1+1");
+      expect(foodCsv).toContain("'@간식");
+      expect(foodCsv).toContain("'-매운 소스;+토핑");
+      expect(parseExerciseCsv(exerciseCsv)).toEqual(exercise);
+      expect(parseFoodCsv(foodCsv)).toEqual(food);
+    });
+
+    it('should parse quoted line breaks and LF line endings', () => {
+      expect(parseCsv('a,b\n"x\ny",z\n')).toEqual([
+        ['a', 'b'],
+        ['x\ny', 'z'],
+      ]);
+    });
+
+    it('should reject sheets without the expected columns', () => {
+      expect(() => parseExerciseCsv('id,date\n1,2024-01-15')).toThrow(
+        'CSV is missing columns',
+      );
+    });
+  });
+
+  describe('buildExportFiles', () => {
+    it('should write one sheet per type for CSV', () => {
+      const data = buildHealthDataExport(entries, january, exportedAt);
+
+      expect(
+        buildExportFiles(data, 'csv').map((file) => file.fileName),
+      ).toEqual([
+        'health-exercise_2024-01-01_2024-01-31.csv',
+        'health-food_2024-01-01_2024-01-31.csv',
+      ]);
+    });
+
+    it('should write a single file for JSON', () => {
+      const data = buildHealthDataExport(entries, null, exportedAt);
+      const files = buildExportFiles(data, 'json');
+
+      expect(files).toHaveLength(1);
+      expect(files[0]?.fileName).toBe('health-history_all.json');
+      expect(files[0]?.mimeType).toBe('application/json');
+    });
+  });
+});
@@ -0,0 +1,208 @@
+import type { ExerciseEntry, FoodEntry } from '../../types';
+import {
+  buildHealthDataExport,
+  exerciseEntriesToCsv,
+  serializeJsonExport,
+} from '../dataExport';
+import { detectImportSource, parseHistoryImport } from '../dataImport';
+
+const run: ExerciseEntry = {
+  id: 'exercise-1',
+  type: 'exercise',
+  date: '2024-01-15',
+  timestamp: '2024-01-15T07:30:00.000Z',
+  createdAt: '2024-01-15T07:30:00.000Z',
+  exerciseType: '달리기',
+  duration: 30,
+  calories: 320,
+  distance: 5.2,
+};
+
+const lunch: FoodEntry = {
+  id: 'food-1',
+  type: 'food',
+  date: '2024-01-15',
+  timestamp: '2024-01-15T03:00:00.000Z',
+  createdAt: '2024-01-15T03:00:00.000Z',
+  isHealthy: true,
+  mainIngredients: ['밥', '나물'],
+  estimatedCalories: 560,
+  mealType: '점심식사',
+};
+
+const backup = serializeJsonExport(
+  buildHealthDataExport([run, lunch], null, '2024-02-01T00:00:00.000Z'),
+);
+
+const samsungCsv = [
+  'com.samsung.shealth.exercise,6315012,3',
+  'com.samsung.health.exercise.start_time,com.samsung.health.exercise.time_offset,com.samsung.health.exercise.exercise_type,com.samsung.health.exercise.duration,com.samsung.health.exercise.calorie,com.samsung.health.exercise.distance,com.samsung.health.exercise.datauuid,',
+  '2024-01-15 22:30:00.000,UTC+0900,1002,1800000,310.4,5123.4,uuid-1,',
+  '2024-01-17 10:00:00.000,UTC+0900,9999,2700000,150,,uuid-2,',
+  'not a date,UTC+0900,1001,600000,40,,uuid-3,',
+  '2024-01-18 10:00:00.000,UTC+0900,1001,0,0,,uuid-4,',
+].join('\n');
+
+const appleXml = `<?xml version="1.0" encoding="UTF-8"?>
+<HealthData locale="ko_KR">
+ <Workout workoutActivityType="HKWorkoutActivityTypeRunning" duration="30.4" durationUnit="min" totalDistance="5.2" totalDistanceUnit="km" totalEnergyBurned="320" totalEnergyBurnedUnit="kcal" startDate="2024-01-20 07:00:00 +0900" endDate="2024-01-20 07:30:24 +0900">
+  <MetadataEntry key="HKIndoorWorkout" value="0"/>
+ </Workout>
+ <Workout workoutActivityType="HKWorkoutActivityTypeCycling" duration="45" durationUnit="min" startDate="2024-01-21 18:00:00 +0900" endDate="2024-01-21 18:45:00 +0900">
+  <WorkoutStatistics type="HKQuantityTypeIdentifierActiveEnergyBurned" sum="1674" unit="kJ"/>
+  <WorkoutStatistics type="HKQuantityTypeIdentifierDistanceCycling" sum="15" unit="km"/>
+ </Workout>
+ <Workout workoutActivityType="HKWorkoutActivityTypeYoga" duration="20" durationUnit="min" startDate="2024-01-22 06:30:00 +0900" endDate="2024-01-22 06:50:00 +0900"/>
+</HealthData>`;
+
+describe('dataImport', () => {
+  describe('detectImportSource', () => {
+    it('should recognize every supported format', () => {
+      expect(detectImportSource(backup)).toBe('app-json');
+      expect(detectImportSource(exerciseEntriesToCsv([run]))).toBe('app-csv');
+      expect(detectImportSource(samsungCsv)).toBe('samsung-health');
+      expect(detectImportSource(appleXml)).toBe('apple-health');
+    });
+
+    it('should return null for anything else', () => {
+      expect(detectImportSource('name,calories\n김밥,320')).toBeNull();
+    });
+  });
+
+  describe('app exports', () => {
+    it('should restore every entry of a backup', () => {
+      const result = parseHistoryImport(backup, []);
+
+      expect(result.source).toBe('app-json');
+      expect(result.entries).toEqual([run, lunch]);
+      expect(result.skipped).toEqual([]);
+    });
+
+    it('should skip entries that are already recorded', () => {
+      const result = parseHistoryImport(backup, [
+        { ...run, id: 'server-1' },
+        lunch,
+      ]);
+
+      expect(result.entries).toEqual([]);
+      expect(result.skipped).toEqual([
+        { location: 'exercise[0]', reason: 'Already recorded' },
+        { location: 'food[0]', reason: 'Already recorded' },
+      ]);
+    });
+
+    it('should report why invalid entries were skipped', () => {
+      const data = buildHealthDataExport([run, lunch], null);
+      const broken = serializeJsonExport({
+        ...data,
+        exercise: [{ ...run, duration: 0 }],
+        food: [{ ...lunch, mainIngredients: [] }],
+      });
+
+      expect(parseHistoryImport(broken, []).skipped).toEqual([
+        {
+          location: 'exercise[0]',
+          reason: 'Duration must be a positive number of minutes',
+        },
+        {
+          location: 'food[0]',
+          reason: 'At least one main ingredient is required',
+        },
+      ]);
+    });
+
+    it('should import exported CSV sheets', () => {
+      const result = parseHistoryImport(exerciseEntriesToCsv([run]), []);
+
+      expect(result.entries).toEqual([run]);
+    });
+  });
+
+  describe('Samsung Health', () => {
+    it('should map workouts to the local day they happened', () => {
+      const { entries } = parseHistoryImport(samsungCsv, []);
+
+      expect(entries[0]).toEqual({
+        id: 'samsung-uuid-1',
+        type: 'exercise',
+        date: '2024-01-16',
+        timestamp: '2024-01-15T22:30:00.000Z',
+        createdAt: '2024-01-15T22:30:00.000Z',
+        exerciseType: '달리기',
+        duration: 30,
+        calories: 310,
+        distance: 5.12,
+      });
+      expect(entries[1]).toMatchObject({
+        exerciseType: '기타 운동',
+        duration: 45,
+      });
+    });
+
+    it('should skip unreadable and invalid rows by line', () => {
+      const { skipped } = parseHistoryImport(samsungCsv, []);
+
+      expect(skipped).toEqual([
+        { location: 'line 5', reason: 'Missing or invalid start time' },
+        {
+          location: 'line 6',
+          reason: 'Duration must be a positive number of minutes',
+        },
+      ]);
+    });
+  });
+
+  describe('Apple Health', () => {
+    it('should read totals from attributes or workout statistics', () => {
+      const { entries } = parseHistoryImport(appleXml, []);
+
+      expect(entries[0]).toMatchObject({
+        date: '2024-01-20',
+        timestamp: '2024-01-19T22:00:00.000Z',
+        exerciseType: '달리기',
+        duration: 30,
+        calories: 320,
+        distance: 5.2,
+      });
+      expect(entries[1]).toMatchObject({
+        exerciseType: '사이클링',
+        duration: 45,
+        calories: 400,
+        distance: 15,
+      });
+    });
+
+    it('should estimate calories of workouts without an energy reading', () => {
+      const { entries } = parseHistoryImport(appleXml, []);
+
+      expect(entries[2]).toMatchObject({ exerciseType: '요가', duration: 20 });
+      expect(entries[2]?.type === 'exercise' && entries[2].calories).toBe(54);
+    });
+
+    it('should read workouts copied out of export.xml', () => {
+      const pasted = `\n${appleXml.match(/<Workout [^>]*\/>/)?.[0]}\n`;
+
+      expect(detectImportSource(pasted)).toBe('apple-health');
+      expect(parseHistoryImport(pasted, []).entries).toEqual([
+        expect.objectContaining({ exerciseType: '요가', duration: 20 }),
+      ]);
+    });
+
+    it('should not import the same workout twice from one file', () => {
+      const doubled = appleXml.replace(
+        '</HealthData>',
+        `${appleXml.match(/<Workout [^>]*\/>/)?.[0]}\n</HealthData>`,
+      );
+
+      expect(parseHistoryImport(doubled, []).skipped).toEqual([
+        { location: 'Workout 4', reason: 'Already recorded' },
+      ]);
+    });
+  });
+
+  it('should reject unsupported files', () => {
+    expect(() => parseHistoryImport('hello', [])).toThrow(
+      'Unsupported import file',
+    );
+  });
+});
@@ -0,0 +1,151 @@
+import type { WeeklyStats } from '../../types';
+import calculateWeeklyStats, {
+  addDaysToDate,
+  compareWeeklyStats,
+  formatLocalDate,
+  getWeekStart,
+  validateExerciseEntry,
+  validateFoodEntry,
+} from '../dataTransformers';
+
+describe('dataTransformers', () => {
+  describe('formatLocalDate', () => {
+    it('should format dates using the local calendar', () => {
+      expect(formatLocalDate(new Date(2024, 0, 5))).toBe('2024-01-05');
+      expect(formatLocalDate(new Date(2024, 11, 31, 23, 59))).toBe(
+        '2024-12-31',
+      );
+    });
+  });
+
+  describe('addDaysToDate', () => {
+    it('should shift dates forwards and backwards', () => {
+      expect(addDaysToDate('2024-01-15', 6)).toBe('2024-01-21');
+      expect(addDaysToDate('2024-01-15', -7)).toBe('2024-01-08');
+    });
+
+    it('should cross month and year boundaries', () => {
+      expect(addDaysToDate('2024-02-28', 1)).toBe('2024-02-29');
+      expect(addDaysToDate('2024-01-01', -1)).toBe('2023-12-31');
+    });
+  });
+
+  describe('getWeekStart', () => {
+    it('should return the Monday of the given week', () => {
+      expect(getWeekStart(new Date(2024, 0, 15))).toBe('2024-01-15'); // Monday
+      expect(getWeekStart(new Date(2024, 0, 17))).toBe('2024-01-15'); // Wednesday
+      expect(getWeekStart(new Date(2024, 0, 21, 23))).toBe('2024-01-15'); // Sunday
+    });
+  });
+
+  describe('calculateWeeklyStats', () => {
+    it('should end the week six local days after its start', () => {
+      const stats = calculateWeeklyStats(
+        [
+          {
+            id: '1',
+            type: 'exercise',
+            date: '2024-02-04',
+            timestamp: '2024-02-04T09:00:00.000Z',
+            createdAt: '2024-02-04T09:00:00.000Z',
+            exerciseType: '달리기',
+            duration: 30,
+            calories: 300,
+          },
+        ],
+        '2024-01-29',
+      );
+
+      expect(stats.weekEnd).toBe('2024-02-04');
+      expect(stats.totalCaloriesBurned).toBe(300);
+    });
+  });
+
+  describe('compareWeeklyStats', () => {
+    const createStats = (overrides: Partial<WeeklyStats>): WeeklyStats => ({
+      weekStart: '2024-01-15',
+      weekEnd: '2024-01-21',
+      exerciseCount: 0,
+      foodCount: 0,
+      totalCaloriesBurned: 0,
+      totalCaloriesConsumed: 0,
+      healthyFoodPercentage: 0,
+      ...overrides,
+    });
+
+    it('should compute changes relative to the previous week', () => {
+      const current = createStats({
+        exerciseCount: 4,
+        totalCaloriesBurned: 1200,
+        totalCaloriesConsumed: 9000,
+        healthyFoodPercentage: 66.67,
+      });
+      const previous = createStats({
+        weekStart: '2024-01-08',
+        weekEnd: '2024-01-14',
+        exerciseCount: 2,
+        totalCaloriesBurned: 1500,
+        totalCaloriesConsumed: 9000,
+        healthyFoodPercentage: 50,
+      });
+
+      const comparison = compareWeeklyStats(current, previous);
+
+      expect(comparison.current).toBe(current);
+      expect(comparison.previous).toBe(previous);
+      expect(comparison.exerciseCountChange).toBe(2);
+      expect(comparison.caloriesBurnedChange).toBe(-300);
+      expect(comparison.caloriesConsumedChange).toBe(0);
+      expect(comparison.healthyFoodPercentageChange).toBe(16.67);
+    });
+  });
+
+  describe('validateExerciseEntry', () => {
+    const run = {
+      exerciseType: '달리기',
+      duration: 30,
+      calories: 320,
+      date: '2024-01-15',
+    };
+
+    it('should accept durations in minutes', () => {
+      expect(validateExerciseEntry(run)).toEqual([]);
+    });
+
+    it('should reject missing or non-positive numbers', () => {
+      expect(
+        validateExerciseEntry({ ...run, duration: 0, calories: Number.NaN }),
+      ).toEqual([
+        'Duration must be a positive number of minutes',
+        'Calories must be a positive number',
+      ]);
+    });
+
+    it('should reject impossible dates', () => {
+      expect(validateExerciseEntry({ ...run, date: '2024-13-45' })).toEqual([
+        'Valid date in YYYY-MM-DD format is required',
+      ]);
+    });
+  });
+
+  describe('validateFoodEntry', () => {
+    const lunch = {
+      isHealthy: true,
+      mainIngredients: ['밥'],
+      estimatedCalories: 560,
+      mealType: '점심식사',
+      date: '2024-01-15',
+    };
+
+    it('should accept Korean and English meal types', () => {
+      expect(validateFoodEntry(lunch)).toEqual([]);
+      expect(validateFoodEntry({ ...lunch, mealType: 'Lunch' })).toEqual([]);
+    });
+
+    it('should reject meal types that name no meal', () => {
+      expect(validateFoodEntry({ ...lunch, mealType: '야식' })).toEqual([
+        'Valid meal type is required (breakfast, lunch, dinner, snack)',
+      ]);
+    });
+  });
+});
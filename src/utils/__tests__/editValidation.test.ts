@@ -0,0 +1,89 @@
+import {
+  toEntryChanges,
+  validateEditedField,
+  validateProfileField,
+  validateWeeklyGoalField,
+} from '../editValidation';
+
+describe('editValidation', () => {
+  describe('validateEditedField', () => {
+    it('should accept a bare number of minutes from the unit overlay', () => {
+      expect(validateEditedField('duration', '45', 'exercise')).toEqual({
+        isValid: true,
+        sanitizedValue: '45분',
+      });
+    });
+
+    it('should reject a negative distance', () => {
+      expect(validateEditedField('distance', '-1', 'exercise').isValid).toBe(
+        false,
+      );
+    });
+  });
+
+  describe('toEntryChanges', () => {
+    it('should convert exercise values back to entry fields', () => {
+      expect(toEntryChanges('duration', '1시간 30분', 'exercise')).toEqual({
+        type: 'exercise',
+        changes: { duration: 90 },
+      });
+      expect(toEntryChanges('distance', '5.25', 'exercise')).toEqual({
+        type: 'exercise',
+        changes: { distance: 5.25 },
+      });
+    });
+
+    it('should convert food values back to entry fields', () => {
+      expect(toEntryChanges('mainIngredients', '밥, 김치', 'food')).toEqual({
+        type: 'food',
+        changes: { mainIngredients: ['밥', '김치'] },
+      });
+      expect(toEntryChanges('isHealthy', '건강하지 않음', 'food')).toEqual({
+        type: 'food',
+        changes: { isHealthy: false },
+      });
+    });
+
+    it('should ignore fields that do not belong to the entry type', () => {
+      expect(toEntryChanges('calories', '300', 'food')).toBeNull();
+    });
+  });
+
+  describe('validateProfileField', () => {
+    const now = new Date(2024, 5, 1);
+
+    it('should round body measurements to one decimal', () => {
+      expect(validateProfileField('weightKg', '68.25', now)).toEqual({
+        isValid: true,
+        sanitizedValue: '68.3',
+      });
+    });
+
+    it('should reject values outside the plausible range', () => {
+      expect(validateProfileField('heightCm', '80', now).isValid).toBe(false);
+      expect(validateProfileField('birthYear', '2020', now).isValid).toBe(
+        false,
+      );
+    });
+
+    it('should clear a field left empty', () => {
+      expect(validateProfileField('birthYear', ' ', now)).toEqual({
+        isValid: true,
+        sanitizedValue: '',
+      });
+    });
+  });
+
+  describe('validateWeeklyGoalField', () => {
+    it('should round goals to whole numbers', () => {
+      expect(validateWeeklyGoalField('exerciseMinutes', '150.4')).toEqual({
+        isValid: true,
+        sanitizedValue: '150',
+      });
+    });
+
+    it('should require a goal', () => {
+      expect(validateWeeklyGoalField('healthyMeals', '').isValid).toBe(false);
+    });
+  });
+});
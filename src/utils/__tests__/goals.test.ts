@@ -0,0 +1,122 @@
+import type { AuthenticationEntry } from '../../types';
+import {
+  calculateStreaks,
+  calculateWeeklyGoalProgress,
+  getAchievementProgress,
+} from '../goals';
+
+const workout = (date: string, duration = 30): AuthenticationEntry => ({
+  id: `exercise-${date}`,
+  type: 'exercise',
+  date,
+  timestamp: `${date}T09:00:00.000Z`,
+  createdAt: `${date}T09:00:00.000Z`,
+  exerciseType: '달리기',
+  duration,
+  calories: 300,
+});
+
+const meal = (date: string, isHealthy: boolean): AuthenticationEntry => ({
+  id: `food-${date}-${isHealthy}`,
+  type: 'food',
+  date,
+  timestamp: `${date}T12:00:00.000Z`,
+  createdAt: `${date}T12:00:00.000Z`,
+  isHealthy,
+  mainIngredients: ['밥'],
+  estimatedCalories: 500,
+  mealType: '점심',
+});
+
+describe('goals', () => {
+  describe('calculateStreaks', () => {
+    const entries = [
+      workout('2024-01-02'),
+      workout('2024-01-03'),
+      meal('2024-01-03', true),
+      workout('2024-01-04'),
+      workout('2024-01-08'),
+      workout('2024-01-09'),
+    ];
+
+    it('should find the longest run of days across month ends', () => {
+      expect(
+        calculateStreaks(
+          [workout('2024-01-30'), workout('2024-01-31'), workout('2024-02-01')],
+          '2024-02-01',
+        ),
+      ).toEqual({ current: 3, longest: 3 });
+    });
+
+    it('should keep the current streak while today is still open', () => {
+      expect(calculateStreaks(entries, '2024-01-10')).toEqual({
+        current: 2,
+        longest: 3,
+      });
+    });
+
+    it('should reset the current streak after a missed day', () => {
+      expect(calculateStreaks(entries, '2024-01-11').current).toBe(0);
+    });
+  });
+
+  describe('calculateWeeklyGoalProgress', () => {
+    it('should sum exercise minutes and healthy meals for the week', () => {
+      const progress = calculateWeeklyGoalProgress(
+        [
+          workout('2024-01-15', 60),
+          workout('2024-01-21', 100),
+          workout('2024-01-22', 45),
+          meal('2024-01-16', true),
+          meal('2024-01-17', false),
+        ],
+        { exerciseMinutes: 150, healthyMeals: 5 },
+        '2024-01-15',
+      );
+
+      expect(progress.exerciseMinutes).toEqual({
+        value: 160,
+        target: 150,
+        ratio: 1,
+        isMet: true,
+      });
+      expect(progress.healthyMeals).toEqual({
+        value: 1,
+        target: 5,
+        ratio: 0.2,
+        isMet: false,
+      });
+    });
+  });
+
+  describe('getAchievementProgress', () => {
+    it('should unlock achievements whose target is reached', () => {
+      const entries = Array.from({ length: 10 }, (_, index) =>
+        workout(`2024-01-${String(index + 1).padStart(2, '0')}`),
+      );
+      const achievements = getAchievementProgress(entries, {});
+
+      expect(
+        achievements
+          .filter((achievement) => achievement.isUnlocked)
+          .map((achievement) => achievement.id),
+      ).toEqual(['first-entry', 'workouts-10', 'streak-7']);
+      expect(
+        achievements.find((achievement) => achievement.id === 'streak-30')
+          ?.progress,
+      ).toBe(10);
+    });
+
+    it('should keep recorded unlocks after entries are deleted', () => {
+      const [firstEntry] = getAchievementProgress([], {
+        'first-entry': '2024-01-01',
+      });
+
+      expect(firstEntry).toMatchObject({
+        isUnlocked: true,
+        unlockedAt: '2024-01-01',
+        progress: 0,
+      });
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { useAuthRedirectStore } from '../../store/authRedirect';
+import { useAuthStore } from '../../store/authStore';
+import { handleDeepLink, parseRouteParams } from '../navigation';
+
+const signIn = () => {
+  useAuthStore.getState().setSession({
+    user: { name: '홍길동' },
+    txId: 'tx-1',
+    userKey: 'user-123',
+    tokens: { accessToken: 'access', refreshToken: 'refresh', expiresIn: 3600 },
+  });
+};
+
+describe('parseRouteParams', () => {
+  it('should split the path from decoded query parameters', () => {
+    expect(
+      parseRouteParams('/reports?week=2024-W03&tab=%EC%9A%B4%EB%8F%99'),
+    ).toEqual({
+      path: '/reports',
+      params: { week: '2024-W03', tab: '운동' },
+    });
+  });
+
+  it('should treat an empty path as the main route', () => {
+    expect(parseRouteParams('?from=push')).toEqual({
+      path: '/',
+      params: { from: 'push' },
+    });
+  });
+});
+
+describe('handleDeepLink', () => {
+  beforeEach(() => {
+    useAuthStore.getState().reset();
+    useAuthRedirectStore.getState().clearPendingRoute();
+  });
+
+  it('should remember a protected route opened while signed out', () => {
+    expect(
+      handleDeepLink('intoss://health-tracker-app/reports?week=2024-W03'),
+    ).toBe(true);
+
+    expect(useAuthRedirectStore.getState().pendingRoute).toEqual({
+      path: '/reports',
+      params: { week: '2024-W03' },
+    });
+  });
+
+  it('should remember the history and profile routes', () => {
+    expect(
+      handleDeepLink('intoss://health-tracker-app/history?month=2024-01'),
+    ).toBe(true);
+    expect(useAuthRedirectStore.getState().pendingRoute).toEqual({
+      path: '/history',
+      params: { month: '2024-01' },
+    });
+
+    expect(handleDeepLink('intoss://health-tracker-app/profile')).toBe(true);
+    expect(useAuthRedirectStore.getState().pendingRoute).toEqual({
+      path: '/profile',
+      params: undefined,
+    });
+  });
+
+  it('should not remember anything for a signed-in user', () => {
+    signIn();
+
+    expect(handleDeepLink('intoss://health-tracker-app/food-upload')).toBe(
+      true,
+    );
+    expect(useAuthRedirectStore.getState().pendingRoute).toBeNull();
+  });
+
+  it('should ignore unknown routes and other apps', () => {
+    expect(handleDeepLink('intoss://health-tracker-app/unknown')).toBe(false);
+    expect(handleDeepLink('https://example.com/reports')).toBe(false);
+    expect(useAuthRedirectStore.getState().pendingRoute).toBeNull();
+  });
+});
@@ -0,0 +1,103 @@
+import type { GeminiFoodResponse } from '../../types';
+import {
+  clampPortion,
+  getMacroCalories,
+  scaleFoodAnalysis,
+  toFoodEntryNutrition,
+  toFoodIngredients,
+} from '../nutrition';
+
+const bibimbap: GeminiFoodResponse = {
+  isHealthy: true,
+  ingredients: [
+    { name: '밥', color: 'teal', grams: 210, calories: 300 },
+    { name: '나물', color: 'green', grams: 80, calories: 45 },
+    { name: '고추장', color: 'teal' },
+  ],
+  estimatedCalories: 560,
+  macros: { protein: 18, carbs: 92, fat: 13.5 },
+  mealType: '점심식사',
+  date: '2024-01-15',
+};
+
+describe('nutrition', () => {
+  describe('clampPortion', () => {
+    it('should snap portions to quarter steps within range', () => {
+      expect(clampPortion(1.6)).toBe(1.5);
+      expect(clampPortion(0)).toBe(0.25);
+      expect(clampPortion(12)).toBe(5);
+      expect(clampPortion(Number.NaN)).toBe(1);
+    });
+  });
+
+  describe('scaleFoodAnalysis', () => {
+    it('should scale totals, macros and ingredient amounts', () => {
+      const scaled = scaleFoodAnalysis(bibimbap, 1.5);
+
+      expect(scaled.estimatedCalories).toBe(840);
+      expect(scaled.macros).toEqual({ protein: 27, carbs: 138, fat: 20.3 });
+      expect(scaled.ingredients).toEqual([
+        { name: '밥', color: 'teal', grams: 315, calories: 450 },
+        { name: '나물', color: 'green', grams: 120, calories: 68 },
+        { name: '고추장', color: 'teal' },
+      ]);
+    });
+
+    it('should leave the analyzed serving untouched', () => {
+      expect(scaleFoodAnalysis(bibimbap, 1)).toBe(bibimbap);
+      expect(bibimbap.estimatedCalories).toBe(560);
+    });
+
+    it('should scale analyses without a breakdown', () => {
+      const { macros, ...withoutMacros } = bibimbap;
+
+      expect(scaleFoodAnalysis(withoutMacros, 0.5)).not.toHaveProperty(
+        'macros',
+      );
+    });
+  });
+
+  it('should derive calories from macros', () => {
+    expect(getMacroCalories({ protein: 20, carbs: 50, fat: 10 })).toBe(370);
+  });
+
+  describe('toFoodEntryNutrition', () => {
+    it('should keep the breakdown of a logged meal', () => {
+      expect(toFoodEntryNutrition({ ...bibimbap, portion: 1.5 })).toEqual({
+        macros: bibimbap.macros,
+        ingredientNutrition: [
+          { name: '밥', color: 'teal', grams: 210, calories: 300 },
+          { name: '나물', color: 'green', grams: 80, calories: 45 },
+          { name: '고추장', color: 'teal' },
+        ],
+        portion: 1.5,
+      });
+    });
+
+    it('should add nothing when nothing was estimated', () => {
+      expect(toFoodEntryNutrition({ ingredients: [{ name: '김치' }] })).toEqual(
+        {},
+      );
+    });
+  });
+
+  describe('toFoodIngredients', () => {
+    it('should keep stored colors and amounts of kept ingredients', () => {
+      const { ingredientNutrition } = toFoodEntryNutrition(bibimbap);
+
+      expect(
+        toFoodIngredients(['나물', '계란', '밥'], ingredientNutrition),
+      ).toEqual([
+        { name: '나물', color: 'green', grams: 80, calories: 45 },
+        { name: '계란', color: 'teal' },
+        { name: '밥', color: 'teal', grams: 210, calories: 300 },
+      ]);
+    });
+
+    it('should default every ingredient to teal without stored details', () => {
+      expect(toFoodIngredients(['김치'])).toEqual([
+        { name: '김치', color: 'teal' },
+      ]);
+    });
+  });
+});
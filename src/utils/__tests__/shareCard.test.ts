@@ -0,0 +1,65 @@
+import type { GeminiExerciseResponse } from '../../types';
+import {
+  buildShareCardContent,
+  buildShareCardMessage,
+  formatShareCardDate,
+} from '../shareCard';
+
+const run: GeminiExerciseResponse = {
+  exerciseType: '달리기',
+  duration: 30,
+  calories: 320,
+  distance: 5.2,
+  date: '2024-01-15',
+};
+
+describe('shareCard', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should format the date in Korean', () => {
+    expect(formatShareCardDate('2024-01-05')).toBe('2024년 1월 5일');
+  });
+
+  it('should lay out the fields like the analysis screen', () => {
+    const content = buildShareCardContent(run, 'exercise', '2024-01-15', 7);
+
+    expect(content).toEqual({
+      title: '오늘의 운동 인증',
+      dateLabel: '2024년 1월 15일',
+      streakLabel: '🔥 7일째 인증',
+      fields: [
+        { key: 'exerciseType', label: '운동 종류', value: '달리기' },
+        { key: 'duration', label: '운동 시간', value: '30분' },
+        { key: 'calories', label: '소모 칼로리', value: '320kcal' },
+        { key: 'distance', label: '운동 거리', value: '5.2km' },
+      ],
+    });
+  });
+
+  it('should leave out the streak before the first certified day', () => {
+    expect(
+      buildShareCardContent(run, 'exercise', '2024-01-15', 0).streakLabel,
+    ).toBeNull();
+  });
+
+  it('should write the card as a screen reader label', () => {
+    const content = buildShareCardContent(run, 'exercise', '2024-01-15', 3);
+
+    expect(buildShareCardMessage(content)).toBe(
+      [
+        '오늘의 운동 인증 · 2024년 1월 15일',
+        '운동 종류: 달리기',
+        '운동 시간: 30분',
+        '소모 칼로리: 320kcal',
+        '운동 거리: 5.2km',
+        '🔥 3일째 인증',
+      ].join('\n'),
+    );
+  });
+});
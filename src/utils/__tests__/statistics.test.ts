@@ -0,0 +1,149 @@
+import type { AuthenticationEntry } from '../../types';
+import {
+  calculatePeriodStats,
+  calculateRangeStatistics,
+  getStatsBuckets,
+} from '../statistics';
+
+const workout = (
+  date: string,
+  exerciseType: string,
+  duration: number,
+  calories: number,
+): AuthenticationEntry => ({
+  id: `${date}-${exerciseType}`,
+  type: 'exercise',
+  date,
+  timestamp: `${date}T09:00:00.000Z`,
+  createdAt: `${date}T09:00:00.000Z`,
+  exerciseType,
+  duration,
+  calories,
+});
+
+const meal = (
+  date: string,
+  mealType: string,
+  estimatedCalories: number,
+  isHealthy: boolean,
+): AuthenticationEntry => ({
+  id: `${date}-${mealType}`,
+  type: 'food',
+  date,
+  timestamp: `${date}T12:00:00.000Z`,
+  createdAt: `${date}T12:00:00.000Z`,
+  isHealthy,
+  mainIngredients: ['밥'],
+  estimatedCalories,
+  mealType,
+});
+
+const entries: AuthenticationEntry[] = [
+  workout('2024-01-30', '달리기', 30, 300),
+  workout('2024-02-01', '걷기', 60, 200),
+  workout('2024-02-15', '달리기', 40, 400),
+  meal('2024-01-31', '아침식사', 400, true),
+  meal('2024-02-01', '점심', 700, false),
+  meal('2024-02-29', 'dinner', 600, true),
+  meal('2024-03-01', '간식', 200, true),
+];
+
+describe('statistics', () => {
+  describe('getStatsBuckets', () => {
+    it('should clip Monday-first weeks to the range', () => {
+      expect(
+        getStatsBuckets(
+          { startDate: '2024-01-31', endDate: '2024-02-12' },
+          'week',
+        ),
+      ).toEqual([
+        { startDate: '2024-01-31', endDate: '2024-02-04' },
+        { startDate: '2024-02-05', endDate: '2024-02-11' },
+        { startDate: '2024-02-12', endDate: '2024-02-12' },
+      ]);
+    });
+
+    it('should follow calendar months, including leap days', () => {
+      expect(
+        getStatsBuckets(
+          { startDate: '2024-01-15', endDate: '2024-03-10' },
+          'month',
+        ),
+      ).toEqual([
+        { startDate: '2024-01-15', endDate: '2024-01-31' },
+        { startDate: '2024-02-01', endDate: '2024-02-29' },
+        { startDate: '2024-03-01', endDate: '2024-03-10' },
+      ]);
+    });
+
+    it('should produce one bucket per day', () => {
+      expect(
+        getStatsBuckets(
+          { startDate: '2023-12-31', endDate: '2024-01-01' },
+          'day',
+        ),
+      ).toEqual([
+        { startDate: '2023-12-31', endDate: '2023-12-31' },
+        { startDate: '2024-01-01', endDate: '2024-01-01' },
+      ]);
+    });
+  });
+
+  it('should total the entries dated within a period', () => {
+    expect(
+      calculatePeriodStats(entries, {
+        startDate: '2024-02-01',
+        endDate: '2024-02-29',
+      }),
+    ).toEqual({
+      startDate: '2024-02-01',
+      endDate: '2024-02-29',
+      exerciseCount: 2,
+      foodCount: 2,
+      totalCaloriesBurned: 600,
+      totalCaloriesConsumed: 1300,
+      totalExerciseMinutes: 100,
+      healthyFoodPercentage: 50,
+    });
+  });
+
+  describe('calculateRangeStatistics', () => {
+    const statistics = calculateRangeStatistics(
+      entries,
+      { startDate: '2024-01-01', endDate: '2024-03-31' },
+      'month',
+    );
+
+    it('should return a bucket per month that adds up to the totals', () => {
+      expect(
+        statistics.buckets.map((bucket) => bucket.totalCaloriesConsumed),
+      ).toEqual([400, 1300, 200]);
+      expect(statistics.totals.totalCaloriesConsumed).toBe(1900);
+    });
+
+    it('should average over every bucket', () => {
+      expect(statistics.averages).toEqual({
+        exerciseCount: 1,
+        foodCount: 1.33,
+        caloriesBurned: 300,
+        caloriesConsumed: 633.33,
+        exerciseMinutes: 43.33,
+      });
+    });
+
+    it('should break intake down by meal and exercise by type', () => {
+      expect(
+        statistics.mealTypes.map(({ slot, calories }) => [slot, calories]),
+      ).toEqual([
+        ['breakfast', 400],
+        ['lunch', 700],
+        ['dinner', 600],
+        ['snack', 200],
+      ]);
+      expect(statistics.exerciseTypes).toEqual([
+        { exerciseType: '달리기', count: 2, minutes: 70, calories: 700 },
+        { exerciseType: '걷기', count: 1, minutes: 60, calories: 200 },
+      ]);
+    });
+  });
+});
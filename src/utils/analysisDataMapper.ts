@@ -1,4 +1,9 @@
-import type { GeminiExerciseResponse, GeminiFoodResponse } from '../types';
+import type {
+  GeminiExerciseResponse,
+  GeminiFoodResponse,
+  UserProfile,
+} from '../types';
+import { getCalorieCheck, getCalorieField } from './calorieReference';
 import type { FloatingTextData, Position } from './positionCalculation';
 
 // Data mapping configuration for different analysis types
@@ -82,6 +87,7 @@ const EXERCISE_DISPLAY_CONFIG: AnalysisDisplayConfig[] = [
 export function mapAnalysisToFloatingText(
   analysisData: GeminiFoodResponse | GeminiExerciseResponse,
   entryType: 'food' | 'exercise',
+  profile?: UserProfile,
 ): FloatingTextData[] {
   const config =
     entryType === 'food' ? FOOD_DISPLAY_CONFIG : EXERCISE_DISPLAY_CONFIG;
@@ -118,6 +124,18 @@ export function mapAnalysisToFloatingText(
     });
   }
 
+  // Show the offline reference estimate next to the analyzed calories
+  const calorieCheck = getCalorieCheck(analysisData, entryType, profile);
+  const calorieItem = items.find(
+    (item) => item.key === getCalorieField(entryType),
+  );
+  if (calorieCheck && calorieItem) {
+    calorieItem.note = calorieCheck.isPlausible
+      ? `참고값 약 ${calorieCheck.estimated}kcal`
+      : `참고값 약 ${calorieCheck.estimated}kcal과 차이가 커요`;
+    calorieItem.needsReview = !calorieCheck.isPlausible;
+  }
+
   // Sort by priority (highest first)
   return items.sort((a, b) => {
     const aPriority = config.find((c) => c.key === a.key)?.priority || 0;
@@ -0,0 +1,337 @@
+/**
+ * Runtime schema for analysis results
+ * One definition drives Gemini's structured output and every validation of
+ * GeminiExerciseListResponse / GeminiFoodResponse, whichever provider produced them
+ */
+
+import { VALID_MEAL_TYPES } from '../services/constants/gemini-api-constants';
+import type { GeminiResponseSchema } from '../types';
+
+export type SchemaNode =
+  | {
+      type: 'string';
+      description?: string;
+      nullable?: boolean;
+      enum?: readonly string[];
+      pattern?: RegExp;
+      minLength?: number;
+    }
+  | {
+      type: 'number';
+      description?: string;
+      nullable?: boolean;
+      minimum?: number;
+      maximum?: number;
+    }
+  | { type: 'boolean'; description?: string; nullable?: boolean }
+  | {
+      type: 'array';
+      description?: string;
+      nullable?: boolean;
+      items: SchemaNode;
+      minItems?: number;
+    }
+  | {
+      type: 'object';
+      description?: string;
+      nullable?: boolean;
+      properties: Record<string, SchemaNode>;
+      required: readonly string[];
+    };
+
+export interface SchemaIssue {
+  field: string; // dotted path, e.g. "ingredients.0.color"
+  message: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const confidenceScore = (description: string): SchemaNode => ({
+  type: 'number',
+  description,
+  minimum: 0,
+  maximum: 1,
+});
+
+// Overall and per-field confidence; optional so providers without it still validate
+const confidenceProperties = (
+  fields: readonly string[],
+): Record<string, SchemaNode> => ({
+  confidence: confidenceScore('전체 분석 신뢰도 (0~1)'),
+  fieldConfidence: {
+    type: 'object',
+    description: '항목별 신뢰도 (0~1)',
+    properties: Object.fromEntries(
+      fields.map((field) => [field, confidenceScore(`${field} 신뢰도`)]),
+    ),
+    required: [],
+  },
+});
+
+export const exerciseAnalysisSchema: SchemaNode = {
+  type: 'object',
+  properties: {
+    exerciseType: {
+      type: 'string',
+      description: '운동 종류 (한글)',
+      minLength: 1,
+    },
+    duration: {
+      type: 'number',
+      description: '운동 시간 (분)',
+      minimum: 1,
+    },
+    calories: {
+      type: 'number',
+      description: '소모된 칼로리 (kcal)',
+      minimum: 0,
+    },
+    distance: {
+      type: 'number',
+      description: '운동 거리 (km), 거리가 없는 운동은 null',
+      nullable: true,
+      minimum: 0,
+    },
+    date: {
+      type: 'string',
+      description: '날짜 (YYYY-MM-DD)',
+      pattern: DATE_PATTERN,
+    },
+    ...confidenceProperties([
+      'exerciseType',
+      'duration',
+      'calories',
+      'distance',
+    ]),
+  },
+  required: ['exerciseType', 'duration', 'calories', 'date'],
+};
+
+export const exerciseListAnalysisSchema: SchemaNode = {
+  type: 'object',
+  properties: {
+    workouts: {
+      type: 'array',
+      description: '화면에 보이는 운동 기록 목록',
+      minItems: 1,
+      items: exerciseAnalysisSchema,
+    },
+  },
+  required: ['workouts'],
+};
+
+export const foodAnalysisSchema: SchemaNode = {
+  type: 'object',
+  properties: {
+    isHealthy: { type: 'boolean', description: '건강한 식단 여부' },
+    ingredients: {
+      type: 'array',
+      description: '주요 재료',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          name: {
+            type: 'string',
+            description: '재료 이름 (한글)',
+            minLength: 1,
+          },
+          color: { type: 'string', enum: ['red', 'green', 'teal'] },
+          grams: {
+            type: 'number',
+            description: '사진 속 분량 기준 예상 중량 (g)',
+            nullable: true,
+            minimum: 0,
+          },
+          calories: {
+            type: 'number',
+            description: '사진 속 분량 기준 예상 칼로리 (kcal)',
+            nullable: true,
+            minimum: 0,
+          },
+        },
+        required: ['name', 'color'],
+      },
+    },
+    estimatedCalories: {
+      type: 'number',
+      description: '예상 총 칼로리 (kcal)',
+      minimum: 0,
+    },
+    macros: {
+      type: 'object',
+      description: '사진 속 분량 기준 탄단지 (g)',
+      nullable: true,
+      properties: {
+        protein: { type: 'number', description: '단백질 (g)', minimum: 0 },
+        carbs: { type: 'number', description: '탄수화물 (g)', minimum: 0 },
+        fat: { type: 'number', description: '지방 (g)', minimum: 0 },
+      },
+      required: ['protein', 'carbs', 'fat'],
+    },
+    mealType: { type: 'string', enum: VALID_MEAL_TYPES },
+    date: {
+      type: 'string',
+      description: '날짜 (YYYY-MM-DD)',
+      pattern: DATE_PATTERN,
+    },
+    ...confidenceProperties(['mealType', 'ingredients', 'estimatedCalories']),
+  },
+  required: [
+    'isHealthy',
+    'ingredients',
+    'estimatedCalories',
+    'mealType',
+    'date',
+  ],
+};
+
+const describeType = (value: unknown): string => {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+};
+
+/**
+ * Lists every field of `value` that does not match the schema
+ * Optional fields may be missing or null
+ */
+export const validateAgainstSchema = (
+  schema: SchemaNode,
+  value: unknown,
+  path = '',
+): SchemaIssue[] => {
+  const field = path || '(root)';
+
+  if (value === null && schema.nullable) {
+    return [];
+  }
+
+  const actualType = describeType(value);
+  const typeMatches =
+    schema.type === 'number'
+      ? typeof value === 'number' && Number.isFinite(value)
+      : actualType === schema.type;
+  if (!typeMatches) {
+    return [{ field, message: `expected ${schema.type}, got ${actualType}` }];
+  }
+
+  switch (schema.type) {
+    case 'string': {
+      const text = value as string;
+      if (
+        schema.minLength !== undefined &&
+        text.trim().length < schema.minLength
+      ) {
+        return [{ field, message: 'must not be empty' }];
+      }
+      if (schema.enum && !schema.enum.includes(text)) {
+        return [
+          { field, message: `must be one of: ${schema.enum.join(', ')}` },
+        ];
+      }
+      if (schema.pattern && !schema.pattern.test(text)) {
+        return [{ field, message: `must match ${schema.pattern}` }];
+      }
+      return [];
+    }
+    case 'number': {
+      const number = value as number;
+      if (schema.minimum !== undefined && number < schema.minimum) {
+        return [{ field, message: `must be at least ${schema.minimum}` }];
+      }
+      if (schema.maximum !== undefined && number > schema.maximum) {
+        return [{ field, message: `must be at most ${schema.maximum}` }];
+      }
+      return [];
+    }
+    case 'boolean':
+      return [];
+    case 'array': {
+      const items = value as unknown[];
+      if (schema.minItems !== undefined && items.length < schema.minItems) {
+        return [
+          { field, message: `must have at least ${schema.minItems} item(s)` },
+        ];
+      }
+      return items.flatMap((item, index) =>
+        validateAgainstSchema(
+          schema.items,
+          item,
+          path ? `${path}.${index}` : `${index}`,
+        ),
+      );
+    }
+    case 'object': {
+      const record = value as Record<string, unknown>;
+      return Object.entries(schema.properties).flatMap(([key, child]) => {
+        const childPath = path ? `${path}.${key}` : key;
+        const childValue = record[key];
+        if (childValue === undefined) {
+          return schema.required.includes(key)
+            ? [{ field: childPath, message: 'is required' }]
+            : [];
+        }
+        return validateAgainstSchema(child, childValue, childPath);
+      });
+    }
+  }
+};
+
+/**
+ * Drops null optional fields so the result matches the TypeScript types
+ */
+export const stripNullFields = <T>(schema: SchemaNode, value: T): T => {
+  if (schema.type === 'array' && Array.isArray(value)) {
+    return value.map((item) => stripNullFields(schema.items, item)) as T;
+  }
+  if (schema.type !== 'object' || !value || typeof value !== 'object') {
+    return value;
+  }
+
+  const record = value as Record<string, unknown>;
+  const result: Record<string, unknown> = {};
+  for (const [key, fieldValue] of Object.entries(record)) {
+    if (fieldValue === null && !schema.required.includes(key)) {
+      continue;
+    }
+    const child = schema.properties[key];
+    result[key] = child ? stripNullFields(child, fieldValue) : fieldValue;
+  }
+  return result as T;
+};
+
+/**
+ * Converts the schema into Gemini's responseSchema (OpenAPI subset)
+ * Patterns are not supported there; validation still enforces them
+ */
+export const toGeminiResponseSchema = (
+  schema: SchemaNode,
+): GeminiResponseSchema => {
+  const base: GeminiResponseSchema = {
+    type: schema.type.toUpperCase(),
+    ...(schema.description ? { description: schema.description } : {}),
+    ...(schema.nullable ? { nullable: true } : {}),
+  };
+
+  switch (schema.type) {
+    case 'string':
+      return schema.enum ? { ...base, enum: [...schema.enum] } : base;
+    case 'array':
+      return { ...base, items: toGeminiResponseSchema(schema.items) };
+    case 'object':
+      return {
+        ...base,
+        properties: Object.fromEntries(
+          Object.entries(schema.properties).map(([key, child]) => [
+            key,
+            toGeminiResponseSchema(child),
+          ]),
+        ),
+        required: [...schema.required],
+      };
+    default:
+      return base;
+  }
+};
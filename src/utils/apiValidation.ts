@@ -3,6 +3,11 @@ import type {
   GeminiExerciseResponse,
   GeminiFoodResponse,
 } from '../types';
+import {
+  exerciseAnalysisSchema,
+  foodAnalysisSchema,
+  validateAgainstSchema,
+} from './analysisSchema';
 
 export interface ApiResponse<T> {
   success: boolean;
@@ -19,134 +24,18 @@ export interface ApiResponse<T> {
  * Validates Gemini API exercise response structure
  */
 export const validateGeminiExerciseResponse = (
-  response: any,
+  response: unknown,
 ): response is GeminiExerciseResponse => {
-  if (!response || typeof response !== 'object') {
-    return false;
-  }
-
-  const requiredFields = [
-    'exerciseType',
-    'duration',
-    'calories',
-    'date',
-    'confidence',
-  ];
-
-  for (const field of requiredFields) {
-    if (!(field in response)) {
-      return false;
-    }
-  }
-
-  // Validate field types
-  if (
-    typeof response.exerciseType !== 'string' ||
-    response.exerciseType.trim() === ''
-  ) {
-    return false;
-  }
-
-  if (
-    typeof response.duration !== 'string' ||
-    !isValidDurationFormat(response.duration)
-  ) {
-    return false;
-  }
-
-  if (typeof response.calories !== 'number' || response.calories < 0) {
-    return false;
-  }
-
-  if (typeof response.date !== 'string' || !isValidDateFormat(response.date)) {
-    return false;
-  }
-
-  if (
-    typeof response.confidence !== 'number' ||
-    response.confidence < 0 ||
-    response.confidence > 1
-  ) {
-    return false;
-  }
-
-  return true;
+  return validateAgainstSchema(exerciseAnalysisSchema, response).length === 0;
 };
 
 /**
  * Validates Gemini API food response structure
  */
 export const validateGeminiFoodResponse = (
-  response: any,
+  response: unknown,
 ): response is GeminiFoodResponse => {
-  if (!response || typeof response !== 'object') {
-    return false;
-  }
-
-  const requiredFields = [
-    'isHealthy',
-    'mainIngredients',
-    'estimatedCalories',
-    'mealType',
-    'date',
-    'confidence',
-  ];
-
-  for (const field of requiredFields) {
-    if (!(field in response)) {
-      return false;
-    }
-  }
-
-  // Validate field types
-  if (typeof response.isHealthy !== 'boolean') {
-    return false;
-  }
-
-  if (
-    !Array.isArray(response.mainIngredients) ||
-    response.mainIngredients.length === 0
-  ) {
-    return false;
-  }
-
-  // Validate all ingredients are strings
-  if (
-    !response.mainIngredients.every(
-      (ingredient: any) =>
-        typeof ingredient === 'string' && ingredient.trim() !== '',
-    )
-  ) {
-    return false;
-  }
-
-  if (
-    typeof response.estimatedCalories !== 'number' ||
-    response.estimatedCalories < 0
-  ) {
-    return false;
-  }
-
-  if (
-    typeof response.mealType !== 'string' ||
-    !isValidMealType(response.mealType)
-  ) {
-    return false;
-  }
-
-  if (typeof response.date !== 'string' || !isValidDateFormat(response.date)) {
-    return false;
-  }
-
-  if (
-    typeof response.confidence !== 'number' ||
-    response.confidence < 0 ||
-    response.confidence > 1
-  ) {
-    return false;
-  }
-
-  return true;
+  return validateAgainstSchema(foodAnalysisSchema, response).length === 0;
 };
 
 /**
@@ -258,33 +147,6 @@ export const createSuccessResponse = <T>(data: T): ApiResponse<T> => {
   };
 };
 
-/**
- * Helper function to validate duration format (HH:MM:SS)
- */
-const isValidDurationFormat = (duration: string): boolean => {
-  const durationRegex = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]:[0-5][0-9]$/;
-  return durationRegex.test(duration);
-};
-
-/**
- * Helper function to validate date format (YYYY-MM-DD)
- */
-const isValidDateFormat = (date: string): boolean => {
-  const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
-  if (!dateRegex.test(date)) return false;
-
-  const parsedDate = new Date(date);
-  return parsedDate.toISOString().split('T')[0] === date;
-};
-
-/**
- * Helper function to validate meal type
- */
-const isValidMealType = (mealType: string): boolean => {
-  const validMealTypes = ['breakfast', 'lunch', 'dinner', 'snack'];
-  return validMealTypes.includes(mealType.toLowerCase());
-};
-
 /**
  * Helper function to validate base64 image format (basic validation)
  */
@@ -350,3 +212,28 @@ export const meetsConfidenceThreshold = (
 ): boolean => {
   return isValidConfidenceScore(confidence) && confidence >= threshold;
 };
+
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+/**
+ * Fields the user should double-check before saving
+ * A field's own score wins; without one, a low overall score flags every field
+ */
+export const getLowConfidenceFields = (
+  result: GeminiExerciseResponse | GeminiFoodResponse,
+  fields: string[],
+  threshold = LOW_CONFIDENCE_THRESHOLD,
+): string[] => {
+  const values: Record<string, unknown> = { ...result };
+  const fieldConfidence: Record<string, number | undefined> =
+    result.fieldConfidence ?? {};
+
+  return fields.filter((field) => {
+    // Missing values are not shown, so there is nothing to review
+    if (values[field] === undefined || values[field] === null) {
+      return false;
+    }
+    const score = fieldConfidence[field] ?? result.confidence;
+    return score !== undefined && !meetsConfidenceThreshold(score, threshold);
+  });
+};
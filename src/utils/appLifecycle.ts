@@ -11,6 +11,7 @@ export class AppLifecycleManager {
   private static isInitialized = false;
   private static appStateSubscription: any = null;
   private static cleanupTimer: NodeJS.Timeout | null = null;
+  private static foregroundListeners = new Set<() => void>();
 
   /**
    * Initialize app lifecycle management
@@ -53,6 +54,17 @@ export class AppLifecycleManager {
     }
   }
 
+  /**
+   * Register a callback for when the app returns to the foreground
+   * Returns a function that removes the listener
+   */
+  static onForeground(listener: () => void): () => void {
+    AppLifecycleManager.foregroundListeners.add(listener);
+    return () => {
+      AppLifecycleManager.foregroundListeners.delete(listener);
+    };
+  }
+
   /**
    * Handle app state changes
    */
@@ -115,6 +127,14 @@ export class AppLifecycleManager {
       clearTimeout(AppLifecycleManager.cleanupTimer);
       AppLifecycleManager.cleanupTimer = null;
     }
+
+    for (const listener of AppLifecycleManager.foregroundListeners) {
+      try {
+        listener();
+      } catch (error) {
+        console.error('Foreground listener failed:', error);
+      }
+    }
   }
 
   /**
@@ -0,0 +1,91 @@
+/**
+ * Month calendar helpers for the history screen
+ * Months are "YYYY-MM" strings and weeks start on Monday, like the reports
+ */
+
+import type { AuthenticationEntry } from '../types';
+import {
+  formatLocalDate,
+  getEntriesByDateRange,
+  groupEntriesByDate,
+  parseLocalDate,
+} from './dataTransformers';
+
+export interface DaySummary {
+  exerciseCount: number;
+  foodCount: number;
+}
+
+export const getMonthOf = (date: string | Date = new Date()): string =>
+  (typeof date === 'string' ? date : formatLocalDate(date)).slice(0, 7);
+
+/**
+ * Shifts a "YYYY-MM" month by the given number of months
+ */
+export const addMonths = (month: string, months: number): string => {
+  const date = parseLocalDate(`${month}-01`);
+  date.setMonth(date.getMonth() + months);
+  return getMonthOf(date);
+};
+
+const getDaysInMonth = (firstDay: Date): number =>
+  new Date(firstDay.getFullYear(), firstDay.getMonth() + 1, 0).getDate();
+
+export const getMonthRange = (
+  month: string,
+): { startDate: string; endDate: string } => {
+  const daysInMonth = getDaysInMonth(parseLocalDate(`${month}-01`));
+  return {
+    startDate: `${month}-01`,
+    endDate: `${month}-${String(daysInMonth).padStart(2, '0')}`,
+  };
+};
+
+/**
+ * Weeks of the month as rows of seven dates; days outside the month are null
+ */
+export const buildMonthGrid = (month: string): Array<Array<string | null>> => {
+  const firstDay = parseLocalDate(`${month}-01`);
+  const leadingBlanks = (firstDay.getDay() + 6) % 7;
+
+  const cells: Array<string | null> = [
+    ...Array<null>(leadingBlanks).fill(null),
+    ...Array.from(
+      { length: getDaysInMonth(firstDay) },
+      (_, index) => `${month}-${String(index + 1).padStart(2, '0')}`,
+    ),
+  ];
+  while (cells.length % 7 !== 0) {
+    cells.push(null);
+  }
+
+  const weeks: Array<Array<string | null>> = [];
+  for (let index = 0; index < cells.length; index += 7) {
+    weeks.push(cells.slice(index, index + 7));
+  }
+  return weeks;
+};
+
+/**
+ * Exercise and food counts per day of the month
+ */
+export const summarizeMonth = (
+  entries: AuthenticationEntry[],
+  month: string,
+): Record<string, DaySummary> => {
+  const { startDate, endDate } = getMonthRange(month);
+  const groups = groupEntriesByDate(
+    getEntriesByDateRange(entries, startDate, endDate),
+  );
+
+  return Object.fromEntries(
+    Object.entries(groups).map(([date, dayEntries]) => [
+      date,
+      {
+        exerciseCount: dayEntries.filter((entry) => entry.type === 'exercise')
+          .length,
+        foodCount: dayEntries.filter((entry) => entry.type === 'food').length,
+      },
+    ]),
+  );
+};
@@ -0,0 +1,138 @@
+/**
+ * Daily calorie budget
+ * Compares a day's intake with the user's target; calories burned by
+ * exercise are added back to the budget
+ */
+
+import type {
+  AuthenticationEntry,
+  ExerciseEntry,
+  FoodEntry,
+  UserProfile,
+} from '../types';
+import { getRestingCaloriesPerDay } from './calorieReference';
+import { formatLocalDate } from './localDate';
+
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
+export interface MealCalories {
+  slot: MealSlot;
+  label: string;
+  calories: number;
+  count: number;
+}
+
+export interface DailyBudget {
+  date: string; // YYYY-MM-DD
+  target: number;
+  consumed: number;
+  burned: number;
+  remaining: number; // target - consumed + burned; negative when over budget
+  netEnergy: number; // consumed - burned
+  meals: MealCalories[];
+}
+
+// Intake target when the profile is too incomplete to derive one
+export const DEFAULT_CALORIE_TARGET = 2000;
+
+// Sedentary multiplier on resting calories; exercise is credited separately
+const ACTIVITY_FACTOR = 1.2;
+
+const MEAL_SLOTS: Array<{ slot: MealSlot; label: string; keywords: string[] }> =
+  [
+    { slot: 'breakfast', label: '아침', keywords: ['아침', 'breakfast'] },
+    { slot: 'lunch', label: '점심', keywords: ['점심', 'lunch'] },
+    { slot: 'dinner', label: '저녁', keywords: ['저녁', 'dinner'] },
+    { slot: 'snack', label: '간식', keywords: ['간식', 'snack'] },
+  ];
+
+/**
+ * Daily intake target: the user's own, otherwise resting calories with
+ * light activity rounded to 10 kcal
+ */
+export const getDailyCalorieTarget = (
+  profile: UserProfile = {},
+  now: Date = new Date(),
+): number => {
+  if (profile.dailyCalorieTarget !== undefined) {
+    return profile.dailyCalorieTarget;
+  }
+  const restingCalories = getRestingCaloriesPerDay(profile, now);
+  return restingCalories === null
+    ? DEFAULT_CALORIE_TARGET
+    : Math.round((restingCalories * ACTIVITY_FACTOR) / 10) * 10;
+};
+
+/**
+ * Slot named by a free-form meal type ("점심식사", "lunch", "점심"), or null
+ * when it names none
+ */
+export const findMealSlot = (mealType: string): MealSlot | null => {
+  const normalized = mealType.toLowerCase();
+  return (
+    MEAL_SLOTS.find(({ keywords }) =>
+      keywords.some((keyword) => normalized.includes(keyword)),
+    )?.slot ?? null
+  );
+};
+
+/**
+ * Maps free-form meal types to a slot; anything unrecognized counts as a snack
+ */
+export const getMealSlot = (mealType: string): MealSlot =>
+  findMealSlot(mealType) ?? 'snack';
+
+/**
+ * Calories and meal count per slot, in slot order
+ */
+export const summarizeMealSlots = (foodEntries: FoodEntry[]): MealCalories[] =>
+  MEAL_SLOTS.map(({ slot, label }) => {
+    const slotEntries = foodEntries.filter(
+      (entry) => getMealSlot(entry.mealType) === slot,
+    );
+    return {
+      slot,
+      label,
+      calories: slotEntries.reduce(
+        (sum, entry) => sum + entry.estimatedCalories,
+        0,
+      ),
+      count: slotEntries.length,
+    };
+  });
+
+/**
+ * Budget for one day; the date defaults to today in the device's timezone
+ */
+export const calculateDailyBudget = (
+  entries: AuthenticationEntry[],
+  target: number,
+  date: string = formatLocalDate(new Date()),
+): DailyBudget => {
+  const dayEntries = entries.filter((entry) => entry.date === date);
+  const foodEntries = dayEntries.filter(
+    (entry): entry is FoodEntry => entry.type === 'food',
+  );
+  const exerciseEntries = dayEntries.filter(
+    (entry): entry is ExerciseEntry => entry.type === 'exercise',
+  );
+
+  const consumed = foodEntries.reduce(
+    (sum, entry) => sum + entry.estimatedCalories,
+    0,
+  );
+  const burned = exerciseEntries.reduce(
+    (sum, entry) => sum + entry.calories,
+    0,
+  );
+
+  return {
+    date,
+    target,
+    consumed,
+    burned,
+    remaining: target - consumed + burned,
+    netEnergy: consumed - burned,
+    meals: summarizeMealSlots(foodEntries),
+  };
+};
@@ -0,0 +1,229 @@
+/**
+ * Offline calorie sanity checks
+ * Recomputes calories from the bundled reference data and flags analyses
+ * that are far off, so the user sees both numbers before saving
+ */
+
+import {
+  DEFAULT_MET,
+  EXERCISE_REFERENCES,
+  type ExerciseReference,
+  FOOD_REFERENCES,
+  type FoodReference,
+  REFERENCE_WEIGHT_KG,
+} from '../services/constants/calorie-reference';
+import type {
+  GeminiExerciseResponse,
+  GeminiFoodResponse,
+  UserProfile,
+} from '../types';
+
+export interface CalorieCheck {
+  reported: number;
+  estimated: number; // reference estimate, also the suggested correction
+  isPlausible: boolean;
+}
+
+// Reported values may differ this much from the reference before they are flagged
+const MAX_RATIO = 2;
+const MIN_DIFFERENCE_KCAL = 100;
+
+const normalize = (name: string): string =>
+  name.replace(/\s+/g, '').toLowerCase();
+
+/**
+ * Finds the reference whose name or alias best matches; the longest name
+ * contained in the query wins, so "김치찌개" does not match "김치"
+ */
+const findReference = <T extends { name: string; aliases?: string[] }>(
+  references: T[],
+  query: string,
+): T | null => {
+  const normalizedQuery = normalize(query);
+  let best: { reference: T; length: number } | null = null;
+
+  for (const reference of references) {
+    for (const name of [reference.name, ...(reference.aliases ?? [])]) {
+      const normalizedName = normalize(name);
+      if (
+        normalizedQuery.includes(normalizedName) &&
+        (!best || normalizedName.length > best.length)
+      ) {
+        best = { reference, length: normalizedName.length };
+      }
+    }
+  }
+  return best?.reference ?? null;
+};
+
+export const findFoodReference = (name: string): FoodReference | null =>
+  findReference(FOOD_REFERENCES, name);
+
+export const findExerciseReference = (
+  exerciseType: string,
+): ExerciseReference | null => findReference(EXERCISE_REFERENCES, exerciseType);
+
+// Mifflin-St Jeor offset; the midpoint when gender is unknown
+const GENDER_OFFSETS: Record<
+  NonNullable<UserProfile['gender']> | 'unknown',
+  number
+> = {
+  male: 5,
+  female: -161,
+  other: -78,
+  unknown: -78,
+};
+
+/**
+ * Mifflin-St Jeor resting calories per day, or null when height or birth year
+ * is unknown; weight falls back to the reference weight
+ */
+export const getRestingCaloriesPerDay = (
+  profile: UserProfile = {},
+  now: Date = new Date(),
+): number | null => {
+  if (profile.heightCm === undefined || profile.birthYear === undefined) {
+    return null;
+  }
+  const weightKg = profile.weightKg ?? REFERENCE_WEIGHT_KG;
+  const age = now.getFullYear() - profile.birthYear;
+  return (
+    10 * weightKg +
+    6.25 * profile.heightCm -
+    5 * age +
+    GENDER_OFFSETS[profile.gender ?? 'unknown']
+  );
+};
+
+/**
+ * Calories one MET burns per hour for this user
+ * One MET is the resting rate: the Mifflin-St Jeor RMR when weight, height and
+ * birth year are known, otherwise the textbook 1 kcal per kg per hour
+ */
+export const getCaloriesPerMetHour = (
+  profile: UserProfile = {},
+  now: Date = new Date(),
+): number => {
+  const restingCaloriesPerDay = getRestingCaloriesPerDay(profile, now);
+  return restingCaloriesPerDay === null
+    ? (profile.weightKg ?? REFERENCE_WEIGHT_KG)
+    : restingCaloriesPerDay / 24;
+};
+
+/**
+ * MET of an exercise, refined by its average speed when the distance is known
+ */
+export const getExerciseMet = (
+  exerciseType: string,
+  durationMinutes: number,
+  distanceKm?: number,
+): number => {
+  const reference = findExerciseReference(exerciseType);
+  if (!reference) {
+    return DEFAULT_MET;
+  }
+  if (!reference.speedMets || !distanceKm || durationMinutes <= 0) {
+    return reference.met;
+  }
+  const speedKmh = distanceKm / (durationMinutes / 60);
+  return (
+    reference.speedMets.find((band) => speedKmh <= band.maxKmh)?.met ??
+    reference.met
+  );
+};
+
+/**
+ * Calories of a workout computed by the app: MET × kcal per MET-hour × hours
+ * Used for screenshots without a calorie figure and after duration edits
+ */
+export const estimateWorkoutCalories = (
+  workout: Pick<
+    GeminiExerciseResponse,
+    'exerciseType' | 'duration' | 'distance'
+  >,
+  profile?: UserProfile,
+  now?: Date,
+): number => {
+  const met = getExerciseMet(
+    workout.exerciseType,
+    workout.duration,
+    workout.distance,
+  );
+  return Math.round(
+    met * getCaloriesPerMetHour(profile, now) * (workout.duration / 60),
+  );
+};
+
+/**
+ * Reference calories of a meal, or null when an ingredient can be neither
+ * looked up nor taken from the analysis
+ */
+export const estimateFoodCalories = (
+  ingredients: GeminiFoodResponse['ingredients'],
+): number | null => {
+  let total = 0;
+  let matched = 0;
+
+  for (const ingredient of ingredients) {
+    const reference = findFoodReference(ingredient.name);
+    if (reference) {
+      matched++;
+      total +=
+        ingredient.grams !== undefined
+          ? (reference.servingCalories / reference.servingGrams) *
+            ingredient.grams
+          : reference.servingCalories;
+    } else if (ingredient.calories !== undefined) {
+      total += ingredient.calories;
+    } else {
+      return null;
+    }
+  }
+
+  // Without any reference match this would only echo the analysis
+  return matched > 0 ? Math.round(total) : null;
+};
+
+const compare = (reported: number, estimated: number): CalorieCheck => {
+  const isClose = Math.abs(reported - estimated) < MIN_DIFFERENCE_KCAL;
+  const isWithinRatio =
+    reported <= estimated * MAX_RATIO && reported * MAX_RATIO >= estimated;
+  return { reported, estimated, isPlausible: isClose || isWithinRatio };
+};
+
+export const checkExerciseCalories = (
+  workout: Pick<
+    GeminiExerciseResponse,
+    'exerciseType' | 'duration' | 'calories' | 'distance'
+  >,
+  profile?: UserProfile,
+): CalorieCheck | null => {
+  if (!findExerciseReference(workout.exerciseType) || workout.duration <= 0) {
+    return null;
+  }
+  return compare(workout.calories, estimateWorkoutCalories(workout, profile));
+};
+
+export const checkFoodCalories = (
+  food: Pick<GeminiFoodResponse, 'ingredients' | 'estimatedCalories'>,
+): CalorieCheck | null => {
+  const estimated = estimateFoodCalories(food.ingredients);
+  return estimated === null ? null : compare(food.estimatedCalories, estimated);
+};
+
+/**
+ * Checks the calorie field of an analysis; null when there is no reference
+ */
+export const getCalorieCheck = (
+  analysisData: GeminiFoodResponse | GeminiExerciseResponse,
+  entryType: 'food' | 'exercise',
+  profile?: UserProfile,
+): CalorieCheck | null =>
+  entryType === 'food'
+    ? checkFoodCalories(analysisData as GeminiFoodResponse)
+    : checkExerciseCalories(analysisData as GeminiExerciseResponse, profile);
+
+export const getCalorieField = (
+  entryType: 'food' | 'exercise',
+): 'estimatedCalories' | 'calories' =>
+  entryType === 'food' ? 'estimatedCalories' : 'calories';
@@ -0,0 +1,180 @@
+/**
+ * Trend series for the report charts
+ * Ranges up to 30 days are plotted per day, longer ones per Monday-first week
+ */
+
+import type { AuthenticationEntry, ExerciseEntry, FoodEntry } from '../types';
+import calculateWeeklyStats, {
+  addDaysToDate,
+  formatLocalDate,
+  getEntriesByDateRange,
+  getWeekStart,
+  parseLocalDate,
+} from './dataTransformers';
+
+export const CHART_RANGES = [7, 30, 90] as const;
+export type ChartRange = (typeof CHART_RANGES)[number];
+
+export interface ChartBucket {
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate: string; // YYYY-MM-DD, inclusive
+  label: string;
+}
+
+export interface CalorieTrendPoint extends ChartBucket {
+  consumed: number;
+  burned: number;
+}
+
+export interface ExerciseMinutesTrend {
+  // Most practiced types first; the rest are grouped as OTHER_EXERCISE_TYPE
+  types: string[];
+  buckets: Array<ChartBucket & { minutes: Record<string, number> }>;
+}
+
+export interface HealthyFoodTrendPoint extends ChartBucket {
+  healthyFoodPercentage: number;
+  foodCount: number;
+}
+
+export const OTHER_EXERCISE_TYPE = '기타';
+const MAX_EXERCISE_TYPES = 4;
+const DAILY_BUCKET_LIMIT = 30;
+
+const formatShortDate = (date: string): string => {
+  const [, month, day] = date.split('-').map(Number);
+  return `${month}/${day}`;
+};
+
+const getWeekBuckets = (startDate: string, endDate: string): ChartBucket[] => {
+  const buckets: ChartBucket[] = [];
+  for (
+    let weekStart = getWeekStart(parseLocalDate(startDate));
+    weekStart <= endDate;
+    weekStart = addDaysToDate(weekStart, 7)
+  ) {
+    buckets.push({
+      startDate: weekStart,
+      endDate: addDaysToDate(weekStart, 6),
+      label: formatShortDate(weekStart),
+    });
+  }
+  return buckets;
+};
+
+/**
+ * Buckets covering the last `days` days up to endDate; weekly buckets start
+ * on the Monday of the first day's week
+ */
+export const getChartBuckets = (
+  days: number,
+  endDate: string = formatLocalDate(new Date()),
+): ChartBucket[] => {
+  const startDate = addDaysToDate(endDate, -(days - 1));
+  if (days > DAILY_BUCKET_LIMIT) {
+    return getWeekBuckets(startDate, endDate);
+  }
+  return Array.from({ length: days }, (_, index) => {
+    const date = addDaysToDate(startDate, index);
+    return { startDate: date, endDate: date, label: formatShortDate(date) };
+  });
+};
+
+const getBucketEntries = (
+  entries: AuthenticationEntry[],
+  bucket: ChartBucket,
+): AuthenticationEntry[] =>
+  getEntriesByDateRange(entries, bucket.startDate, bucket.endDate);
+
+/**
+ * Calories eaten and burned per bucket
+ */
+export const buildCalorieTrend = (
+  entries: AuthenticationEntry[],
+  days: number,
+  endDate?: string,
+): CalorieTrendPoint[] =>
+  getChartBuckets(days, endDate).map((bucket) => {
+    const bucketEntries = getBucketEntries(entries, bucket);
+    return {
+      ...bucket,
+      consumed: bucketEntries
+        .filter((entry): entry is FoodEntry => entry.type === 'food')
+        .reduce((sum, entry) => sum + entry.estimatedCalories, 0),
+      burned: bucketEntries
+        .filter((entry): entry is ExerciseEntry => entry.type === 'exercise')
+        .reduce((sum, entry) => sum + entry.calories, 0),
+    };
+  });
+
+/**
+ * Exercise minutes per bucket, split by exercise type
+ */
+export const buildExerciseMinutesTrend = (
+  entries: AuthenticationEntry[],
+  days: number,
+  endDate?: string,
+): ExerciseMinutesTrend => {
+  const buckets = getChartBuckets(days, endDate);
+  const first = buckets[0];
+  const last = buckets[buckets.length - 1];
+  const workouts =
+    first && last
+      ? getEntriesByDateRange(entries, first.startDate, last.endDate).filter(
+          (entry): entry is ExerciseEntry => entry.type === 'exercise',
+        )
+      : [];
+
+  const totals = new Map<string, number>();
+  for (const workout of workouts) {
+    totals.set(
+      workout.exerciseType,
+      (totals.get(workout.exerciseType) ?? 0) + workout.duration,
+    );
+  }
+  const ranked = [...totals.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([type]) => type);
+  const mainTypes = ranked.slice(0, MAX_EXERCISE_TYPES);
+  const types =
+    ranked.length > MAX_EXERCISE_TYPES
+      ? [...mainTypes, OTHER_EXERCISE_TYPE]
+      : mainTypes;
+
+  return {
+    types,
+    buckets: buckets.map((bucket) => {
+      const minutes: Record<string, number> = Object.fromEntries(
+        types.map((type) => [type, 0]),
+      );
+      for (const workout of getEntriesByDateRange(
+        workouts,
+        bucket.startDate,
+        bucket.endDate,
+      ) as ExerciseEntry[]) {
+        const type = mainTypes.includes(workout.exerciseType)
+          ? workout.exerciseType
+          : OTHER_EXERCISE_TYPE;
+        minutes[type] = (minutes[type] ?? 0) + workout.duration;
+      }
+      return { ...bucket, minutes };
+    }),
+  };
+};
+
+/**
+ * Weekly healthy-meal percentage from the weekly report statistics
+ */
+export const buildHealthyFoodTrend = (
+  entries: AuthenticationEntry[],
+  days: number,
+  endDate: string = formatLocalDate(new Date()),
+): HealthyFoodTrendPoint[] =>
+  getWeekBuckets(addDaysToDate(endDate, -(days - 1)), endDate).map((bucket) => {
+    const stats = calculateWeeklyStats(entries, bucket.startDate);
+    return {
+      ...bucket,
+      healthyFoodPercentage: stats.healthyFoodPercentage,
+      foodCount: stats.foodCount,
+    };
+  });
@@ -0,0 +1,368 @@
+/**
+ * Export of the health history for users and dietitians
+ * CSV gives one sheet per entry type for spreadsheets; the versioned JSON
+ * format keeps every field and is what backups are restored from
+ */
+
+import type { AuthenticationEntry, ExerciseEntry, FoodEntry } from '../types';
+import { getCurrentTimestamp, getEntriesByDateRange } from './dataTransformers';
+import type { DateRange } from './statistics';
+
+export const EXPORT_FORMAT = 'health-tracker-export';
+// Bump when the shape of exported entries changes; importers reject newer versions
+export const EXPORT_FORMAT_VERSION = 1;
+
+// Sync state and local image paths only make sense on the exporting device
+type DeviceOnlyField = 'syncStatus' | 'originalImagePath';
+export type ExportedExerciseEntry = Omit<ExerciseEntry, DeviceOnlyField>;
+export type ExportedFoodEntry = Omit<FoodEntry, DeviceOnlyField>;
+
+export interface HealthDataExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  range: DateRange | null; // null when the whole history was exported
+  exercise: ExportedExerciseEntry[];
+  food: ExportedFoodEntry[];
+}
+
+export type ExportFormat = 'csv' | 'json';
+
+export interface ExportFile {
+  label: string;
+  fileName: string;
+  mimeType: string;
+  content: string;
+}
+
+const toExportedEntry = <T extends AuthenticationEntry>(
+  entry: T,
+): Omit<T, DeviceOnlyField> => {
+  const { syncStatus, originalImagePath, ...exported } = entry;
+  return exported;
+};
+
+// Oldest first, the order people read a log in
+const sortChronologically = <T extends AuthenticationEntry>(
+  entries: T[],
+): T[] =>
+  [...entries].sort(
+    (a, b) =>
+      a.date.localeCompare(b.date) || a.timestamp.localeCompare(b.timestamp),
+  );
+
+/**
+ * Collects the entries of a date range, or of the whole history when the
+ * range is null, into the versioned export format
+ */
+export const buildHealthDataExport = (
+  entries: AuthenticationEntry[],
+  range: DateRange | null,
+  exportedAt: string = getCurrentTimestamp(),
+): HealthDataExport => {
+  const selected = sortChronologically(
+    range
+      ? getEntriesByDateRange(entries, range.startDate, range.endDate)
+      : entries,
+  );
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_FORMAT_VERSION,
+    exportedAt,
+    range,
+    exercise: selected
+      .filter((entry): entry is ExerciseEntry => entry.type === 'exercise')
+      .map(toExportedEntry),
+    food: selected
+      .filter((entry): entry is FoodEntry => entry.type === 'food')
+      .map(toExportedEntry),
+  };
+};
+
+export const serializeJsonExport = (data: HealthDataExport): string =>
+  JSON.stringify(data, null, 2);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Reads a JSON export back; throws when the text is not an export this
+ * version of the app understands. Entries are not validated here
+ */
+export const parseJsonExport = (text: string): HealthDataExport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Export is not valid JSON');
+  }
+  if (!isRecord(data) || data.format !== EXPORT_FORMAT) {
+    throw new Error('Not a health tracker export');
+  }
+  if (
+    typeof data.version !== 'number' ||
+    data.version > EXPORT_FORMAT_VERSION
+  ) {
+    throw new Error(`Unsupported export version: ${String(data.version)}`);
+  }
+  if (!Array.isArray(data.exercise) || !Array.isArray(data.food)) {
+    throw new Error('Export is missing its entries');
+  }
+  return data as unknown as HealthDataExport;
+};
+
+// CSV (RFC 4180): fields with commas, quotes or line breaks are quoted
+
+// Spreadsheets run cells starting with these as formulas; a leading ' makes
+// them text. Fields already starting with ' get one more so reading is exact
+const FORMULA_TRIGGER = /^'*[=+\-@\t\r]/;
+
+const neutralizeFormula = (value: string): string =>
+  FORMULA_TRIGGER.test(value) ? `'${value}` : value;
+
+const restoreFormula = (value: string): string =>
+  value.startsWith("'") && FORMULA_TRIGGER.test(value) ? value.slice(1) : value;
+
+const escapeCsvField = (rawValue: string): string => {
+  const value = neutralizeFormula(rawValue);
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+const toCsv = (header: readonly string[], rows: string[][]): string =>
+  [header, ...rows]
+    .map((row) => row.map(escapeCsvField).join(','))
+    .join('\r\n');
+
+/**
+ * Splits CSV text into rows of fields; accepts CRLF or LF line endings
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+/**
+ * Rows of a CSV sheet keyed by its header, so columns may come in any order
+ */
+export const parseCsvRecords = (text: string): Record<string, string>[] => {
+  const [header = [], ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  return rows
+    .filter((row) => row.some((field) => field.trim() !== ''))
+    .map((row) =>
+      Object.fromEntries(
+        header.map((column, index) => [
+          column.trim(),
+          restoreFormula(row[index] ?? ''),
+        ]),
+      ),
+    );
+};
+
+const formatOptionalNumber = (value?: number): string =>
+  value === undefined ? '' : String(value);
+
+const parseOptionalNumber = (value?: string): number | undefined =>
+  value === undefined || value.trim() === '' ? undefined : Number(value);
+
+// Ingredient names are joined into one cell; names never contain this
+const INGREDIENT_SEPARATOR = ';';
+
+export const EXERCISE_CSV_COLUMNS = [
+  'id',
+  'date',
+  'timestamp',
+  'createdAt',
+  'exerciseType',
+  'duration',
+  'calories',
+  'distance',
+] as const;
+
+// Per-ingredient amounts are left out of the sheet; the JSON export keeps them
+export const FOOD_CSV_COLUMNS = [
+  'id',
+  'date',
+  'timestamp',
+  'createdAt',
+  'mealType',
+  'isHealthy',
+  'mainIngredients',
+  'estimatedCalories',
+  'portion',
+  'protein',
+  'carbs',
+  'fat',
+] as const;
+
+export const exerciseEntriesToCsv = (
+  entries: ExportedExerciseEntry[],
+): string =>
+  toCsv(
+    EXERCISE_CSV_COLUMNS,
+    entries.map((entry) => [
+      entry.id,
+      entry.date,
+      entry.timestamp,
+      entry.createdAt,
+      entry.exerciseType,
+      String(entry.duration),
+      String(entry.calories),
+      formatOptionalNumber(entry.distance),
+    ]),
+  );
+
+export const foodEntriesToCsv = (entries: ExportedFoodEntry[]): string =>
+  toCsv(
+    FOOD_CSV_COLUMNS,
+    entries.map((entry) => [
+      entry.id,
+      entry.date,
+      entry.timestamp,
+      entry.createdAt,
+      entry.mealType,
+      String(entry.isHealthy),
+      entry.mainIngredients.join(INGREDIENT_SEPARATOR),
+      String(entry.estimatedCalories),
+      formatOptionalNumber(entry.portion),
+      formatOptionalNumber(entry.macros?.protein),
+      formatOptionalNumber(entry.macros?.carbs),
+      formatOptionalNumber(entry.macros?.fat),
+    ]),
+  );
+
+const assertColumns = (
+  records: Record<string, string>[],
+  columns: readonly string[],
+): void => {
+  const [first] = records;
+  const missing = first ? columns.filter((column) => !(column in first)) : [];
+  if (missing.length > 0) {
+    throw new Error(`CSV is missing columns: ${missing.join(', ')}`);
+  }
+};
+
+/**
+ * Reads an exercise sheet written by exerciseEntriesToCsv
+ */
+export const parseExerciseCsv = (text: string): ExportedExerciseEntry[] => {
+  const records = parseCsvRecords(text);
+  assertColumns(records, EXERCISE_CSV_COLUMNS);
+  return records.map((record) => {
+    const distance = parseOptionalNumber(record.distance);
+    return {
+      id: record.id ?? '',
+      type: 'exercise',
+      date: record.date ?? '',
+      timestamp: record.timestamp ?? '',
+      createdAt: record.createdAt ?? '',
+      exerciseType: record.exerciseType ?? '',
+      duration: Number(record.duration),
+      calories: Number(record.calories),
+      ...(distance !== undefined ? { distance } : {}),
+    };
+  });
+};
+
+/**
+ * Reads a food sheet written by foodEntriesToCsv
+ */
+export const parseFoodCsv = (text: string): ExportedFoodEntry[] => {
+  const records = parseCsvRecords(text);
+  assertColumns(records, FOOD_CSV_COLUMNS);
+  return records.map((record) => {
+    const portion = parseOptionalNumber(record.portion);
+    const protein = parseOptionalNumber(record.protein);
+    const carbs = parseOptionalNumber(record.carbs);
+    const fat = parseOptionalNumber(record.fat);
+    return {
+      id: record.id ?? '',
+      type: 'food',
+      date: record.date ?? '',
+      timestamp: record.timestamp ?? '',
+      createdAt: record.createdAt ?? '',
+      mealType: record.mealType ?? '',
+      isHealthy: record.isHealthy === 'true',
+      mainIngredients: (record.mainIngredients ?? '')
+        .split(INGREDIENT_SEPARATOR)
+        .filter((name) => name !== ''),
+      estimatedCalories: Number(record.estimatedCalories),
+      ...(portion !== undefined ? { portion } : {}),
+      ...(protein !== undefined && carbs !== undefined && fat !== undefined
+        ? { macros: { protein, carbs, fat } }
+        : {}),
+    };
+  });
+};
+
+const getFileSuffix = (range: DateRange | null): string =>
+  range ? `${range.startDate}_${range.endDate}` : 'all';
+
+/**
+ * Files for an export: one sheet per entry type for CSV, a single file for JSON
+ */
+export const buildExportFiles = (
+  data: HealthDataExport,
+  format: ExportFormat,
+): ExportFile[] => {
+  const suffix = getFileSuffix(data.range);
+  if (format === 'json') {
+    return [
+      {
+        label: '전체 기록',
+        fileName: `health-history_${suffix}.json`,
+        mimeType: 'application/json',
+        content: serializeJsonExport(data),
+      },
+    ];
+  }
+  return [
+    {
+      label: '운동 기록',
+      fileName: `health-exercise_${suffix}.csv`,
+      mimeType: 'text/csv',
+      content: exerciseEntriesToCsv(data.exercise),
+    },
+    {
+      label: '식단 기록',
+      fileName: `health-food_${suffix}.csv`,
+      mimeType: 'text/csv',
+      content: foodEntriesToCsv(data.food),
+    },
+  ];
+};
@@ -0,0 +1,417 @@
+/**
+ * Import of health history from backups and other fitness apps
+ * Accepts the app's own JSON export and CSV sheets, Samsung Health exercise
+ * CSV exports and Apple Health export.xml workouts. Third-party food logs
+ * are not read: they carry no healthy/unhealthy classification
+ * The text arrives by clipboard paste, so partial copies (e.g. only the
+ * Workout elements of export.xml) are read as well
+ */
+
+import type { AuthenticationEntry, ExerciseEntry, FoodEntry } from '../types';
+import { estimateWorkoutCalories } from './calorieReference';
+import {
+  EXERCISE_CSV_COLUMNS,
+  type ExportedExerciseEntry,
+  type ExportedFoodEntry,
+  FOOD_CSV_COLUMNS,
+  parseCsv,
+  parseExerciseCsv,
+  parseFoodCsv,
+  parseJsonExport,
+} from './dataExport';
+import {
+  getEntryFingerprint,
+  validateExerciseEntry,
+  validateFoodEntry,
+} from './dataTransformers';
+
+export type ImportSource =
+  | 'app-json'
+  | 'app-csv'
+  | 'samsung-health'
+  | 'apple-health';
+
+export type ImportedEntry = ExportedExerciseEntry | ExportedFoodEntry;
+
+export interface SkippedImportRow {
+  location: string; // e.g. "exercise[2]", "line 5", "Workout 3"
+  reason: string;
+}
+
+export interface ImportResult {
+  source: ImportSource;
+  entries: ImportedEntry[];
+  skipped: SkippedImportRow[];
+}
+
+// A source row mapped to an entry, or the reason it could not be
+interface ImportRow {
+  location: string;
+  entry: Partial<ImportedEntry> | null;
+  reason?: string;
+}
+
+const SAMSUNG_EXERCISE_PREFIX = 'com.samsung.health.exercise.';
+
+// Activities without a counterpart are kept under this name
+const OTHER_EXERCISE = '기타 운동';
+
+const stripBom = (text: string): string => text.replace(/^\uFEFF/, '');
+
+/**
+ * Guesses where the text came from; null when it is no supported format
+ */
+export const detectImportSource = (text: string): ImportSource | null => {
+  const trimmed = stripBom(text).trimStart();
+  if (trimmed.startsWith('{')) {
+    return 'app-json';
+  }
+  if (trimmed.startsWith('<') && /<Workout[\s>]/.test(trimmed)) {
+    return 'apple-health';
+  }
+  const firstLines = trimmed.split(/\r?\n/, 2).join('\n');
+  if (firstLines.includes(SAMSUNG_EXERCISE_PREFIX)) {
+    return 'samsung-health';
+  }
+  const header = firstLines.split(/\r?\n/, 1)[0] ?? '';
+  if (
+    header === EXERCISE_CSV_COLUMNS.join(',') ||
+    header === FOOD_CSV_COLUMNS.join(',')
+  ) {
+    return 'app-csv';
+  }
+  return null;
+};
+
+// App backups
+
+const readAppJson = (text: string): ImportRow[] => {
+  const data = parseJsonExport(text);
+  return [
+    ...data.exercise.map((entry, index) => ({
+      location: `exercise[${index}]`,
+      entry: { ...entry, type: 'exercise' as const },
+    })),
+    ...data.food.map((entry, index) => ({
+      location: `food[${index}]`,
+      entry: { ...entry, type: 'food' as const },
+    })),
+  ];
+};
+
+const readAppCsv = (text: string): ImportRow[] => {
+  const isExerciseSheet = stripBom(text).startsWith(
+    EXERCISE_CSV_COLUMNS.join(','),
+  );
+  const entries: Partial<ImportedEntry>[] = isExerciseSheet
+    ? parseExerciseCsv(text)
+    : parseFoodCsv(text);
+  // Data rows start on line 2, below the header
+  return entries.map((entry, index) => ({
+    location: `line ${index + 2}`,
+    entry,
+  }));
+};
+
+// Samsung Health
+
+// Samsung Health exercise_type codes
+const SAMSUNG_EXERCISE_TYPES: Record<string, string> = {
+  '1001': '걷기',
+  '1002': '달리기',
+  '11007': '사이클링',
+  '13001': '등산',
+  '14001': '수영',
+};
+
+const parseNumber = (value?: string): number | undefined => {
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+// "UTC+0900" -> milliseconds east of UTC
+const parseUtcOffset = (offset?: string): number => {
+  const match = offset?.match(/([+-])(\d{2}):?(\d{2})/);
+  if (!match) {
+    return 0;
+  }
+  const [, sign, hours, minutes] = match;
+  const offsetMs = (Number(hours) * 60 + Number(minutes)) * 60 * 1000;
+  return sign === '-' ? -offsetMs : offsetMs;
+};
+
+const toSamsungEntry = (
+  record: Record<string, string>,
+): Partial<ExportedExerciseEntry> | null => {
+  // Start times are UTC; the offset gives the day the workout happened locally
+  const startMs = Date.parse(`${record.start_time?.replace(' ', 'T')}Z`);
+  if (Number.isNaN(startMs)) {
+    return null;
+  }
+  const localDate = new Date(startMs + parseUtcOffset(record.time_offset))
+    .toISOString()
+    .slice(0, 10);
+  const timestamp = new Date(startMs).toISOString();
+  const durationMs = parseNumber(record.duration);
+  const distanceMeters = parseNumber(record.distance);
+  const calories = parseNumber(record.calorie);
+
+  return {
+    id: `samsung-${record.datauuid || timestamp}`,
+    type: 'exercise',
+    date: localDate,
+    timestamp,
+    createdAt: timestamp,
+    exerciseType:
+      SAMSUNG_EXERCISE_TYPES[record.exercise_type ?? ''] ?? OTHER_EXERCISE,
+    ...(durationMs !== undefined
+      ? { duration: Math.round(durationMs / 60000) }
+      : {}),
+    ...(calories !== undefined ? { calories: Math.round(calories) } : {}),
+    ...(distanceMeters
+      ? { distance: Math.round(distanceMeters / 10) / 100 }
+      : {}),
+  };
+};
+
+const readSamsungHealth = (text: string): ImportRow[] => {
+  const rows = parseCsv(stripBom(text));
+  // The export starts with a "com.samsung.shealth.exercise,<id>,<version>" line
+  const headerIndex = rows.findIndex((row) =>
+    row.some((column) => column.startsWith(SAMSUNG_EXERCISE_PREFIX)),
+  );
+  const header = (rows[headerIndex] ?? []).map((column) =>
+    column.trim().replace(SAMSUNG_EXERCISE_PREFIX, ''),
+  );
+
+  return rows.slice(headerIndex + 1).flatMap((row, index) => {
+    if (row.every((field) => field.trim() === '')) {
+      return [];
+    }
+    const record = Object.fromEntries(
+      header.map((column, position) => [column, row[position] ?? '']),
+    );
+    const entry = toSamsungEntry(record);
+    return [
+      {
+        location: `line ${headerIndex + index + 2}`,
+        entry,
+        ...(entry ? {} : { reason: 'Missing or invalid start time' }),
+      },
+    ];
+  });
+};
+
+// Apple Health
+
+const APPLE_WORKOUT_TYPES: Record<string, string> = {
+  Walking: '걷기',
+  Running: '달리기',
+  Cycling: '사이클링',
+  Swimming: '수영',
+  Hiking: '등산',
+  Yoga: '요가',
+  Pilates: '필라테스',
+  TraditionalStrengthTraining: '웨이트 트레이닝',
+  FunctionalStrengthTraining: '웨이트 트레이닝',
+  Tennis: '테니스',
+  Badminton: '배드민턴',
+  Soccer: '축구',
+  Basketball: '농구',
+  Golf: '골프',
+  StairClimbing: '계단 오르기',
+  JumpRope: '줄넘기',
+  Dance: '댄스',
+};
+
+const DURATION_UNITS_IN_MINUTES: Record<string, number> = {
+  min: 1,
+  s: 1 / 60,
+  hr: 60,
+};
+
+const DISTANCE_UNITS_IN_KM: Record<string, number> = {
+  km: 1,
+  m: 0.001,
+  mi: 1.609344,
+};
+
+const ENERGY_UNITS_IN_KCAL: Record<string, number> = {
+  kcal: 1,
+  Cal: 1,
+  kJ: 1 / 4.184,
+};
+
+const readXmlAttributes = (source: string): Record<string, string> =>
+  Object.fromEntries(
+    Array.from(source.matchAll(/([\w:]+)="([^"]*)"/g), ([, name, value]) => [
+      name,
+      value,
+    ]),
+  );
+
+const convert = (
+  value: string | undefined,
+  unit: string | undefined,
+  factors: Record<string, number>,
+): number | undefined => {
+  const amount = parseNumber(value);
+  const factor = factors[unit ?? ''];
+  return amount !== undefined && factor !== undefined
+    ? amount * factor
+    : undefined;
+};
+
+// Since iOS 16 totals are in WorkoutStatistics children instead of attributes
+const readWorkoutStatistic = (
+  body: string,
+  typeName: string,
+): Record<string, string> | undefined =>
+  Array.from(body.matchAll(/<WorkoutStatistics\s([^>]*)>/g), ([, attributes]) =>
+    readXmlAttributes(attributes ?? ''),
+  ).find((statistic) => statistic.type?.includes(typeName));
+
+const toAppleEntry = (
+  attributes: Record<string, string>,
+  body: string,
+): Partial<ExportedExerciseEntry> | null => {
+  // "2024-01-15 07:30:00 +0900": the date is already in the recorded offset
+  const startDate = attributes.startDate ?? '';
+  const startMs = Date.parse(
+    startDate.replace(/^(\S+) (\S+) ([+-]\d{2})(\d{2})$/, '$1T$2$3:$4'),
+  );
+  if (Number.isNaN(startMs)) {
+    return null;
+  }
+  const timestamp = new Date(startMs).toISOString();
+  const activity = (attributes.workoutActivityType ?? '').replace(
+    'HKWorkoutActivityType',
+    '',
+  );
+  const exerciseType = APPLE_WORKOUT_TYPES[activity] ?? OTHER_EXERCISE;
+
+  const energy = readWorkoutStatistic(body, 'ActiveEnergyBurned');
+  const distance = readWorkoutStatistic(body, 'Distance');
+  const duration = convert(
+    attributes.duration,
+    attributes.durationUnit ?? 'min',
+    DURATION_UNITS_IN_MINUTES,
+  );
+  const distanceKm =
+    convert(
+      attributes.totalDistance,
+      attributes.totalDistanceUnit,
+      DISTANCE_UNITS_IN_KM,
+    ) ?? convert(distance?.sum, distance?.unit, DISTANCE_UNITS_IN_KM);
+  const reportedCalories =
+    convert(
+      attributes.totalEnergyBurned,
+      attributes.totalEnergyBurnedUnit,
+      ENERGY_UNITS_IN_KCAL,
+    ) ?? convert(energy?.sum, energy?.unit, ENERGY_UNITS_IN_KCAL);
+
+  const durationMinutes =
+    duration !== undefined ? Math.round(duration) : undefined;
+  const roundedDistance =
+    distanceKm !== undefined ? Math.round(distanceKm * 100) / 100 : undefined;
+  // Workouts logged without an energy reading get the app's own estimate
+  const calories =
+    reportedCalories ??
+    (durationMinutes !== undefined
+      ? estimateWorkoutCalories({
+          exerciseType,
+          duration: durationMinutes,
+          distance: roundedDistance,
+        })
+      : undefined);
+
+  return {
+    id: `apple-${timestamp}`,
+    type: 'exercise',
+    date: startDate.slice(0, 10),
+    timestamp,
+    createdAt: timestamp,
+    exerciseType,
+    ...(durationMinutes !== undefined ? { duration: durationMinutes } : {}),
+    ...(calories !== undefined ? { calories: Math.round(calories) } : {}),
+    ...(roundedDistance ? { distance: roundedDistance } : {}),
+  };
+};
+
+const readAppleHealth = (text: string): ImportRow[] =>
+  Array.from(
+    text.matchAll(/<Workout\s([^>]*?)(?:\/>|>([\s\S]*?)<\/Workout>)/g),
+    ([, attributes, body], index) => {
+      const entry = toAppleEntry(
+        readXmlAttributes(attributes ?? ''),
+        body ?? '',
+      );
+      return {
+        location: `Workout ${index + 1}`,
+        entry,
+        ...(entry ? {} : { reason: 'Missing or invalid start date' }),
+      };
+    },
+  );
+
+const ROW_READERS: Record<ImportSource, (text: string) => ImportRow[]> = {
+  'app-json': readAppJson,
+  'app-csv': readAppCsv,
+  'samsung-health': readSamsungHealth,
+  'apple-health': readAppleHealth,
+};
+
+const validateEntry = (entry: Partial<ImportedEntry>): string[] => {
+  if (entry.type === 'exercise') {
+    return validateExerciseEntry(entry as Partial<ExerciseEntry>);
+  }
+  if (entry.type === 'food') {
+    return validateFoodEntry(entry as Partial<FoodEntry>);
+  }
+  return ['Unknown entry type'];
+};
+
+/**
+ * Maps an import file to entries, skipping rows that fail validation or are
+ * already recorded; throws when the format is not recognized
+ */
+export const parseHistoryImport = (
+  text: string,
+  existingEntries: AuthenticationEntry[],
+): ImportResult => {
+  const source = detectImportSource(text);
+  if (!source) {
+    throw new Error('Unsupported import file');
+  }
+
+  const knownIds = new Set(existingEntries.map((entry) => entry.id));
+  const knownFingerprints = new Set(existingEntries.map(getEntryFingerprint));
+  const entries: ImportedEntry[] = [];
+  const skipped: SkippedImportRow[] = [];
+
+  for (const { location, entry, reason } of ROW_READERS[source](text)) {
+    if (!entry) {
+      skipped.push({ location, reason: reason ?? 'Unreadable row' });
+      continue;
+    }
+    const errors = validateEntry(entry);
+    if (errors.length > 0) {
+      skipped.push({ location, reason: errors.join('; ') });
+      continue;
+    }
+    const imported = entry as ImportedEntry;
+    const fingerprint = getEntryFingerprint(imported);
+    if (knownIds.has(imported.id) || knownFingerprints.has(fingerprint)) {
+      skipped.push({ location, reason: 'Already recorded' });
+      continue;
+    }
+    knownIds.add(imported.id);
+    knownFingerprints.add(fingerprint);
+    entries.push(imported);
+  }
+
+  return { source, entries, skipped };
+};
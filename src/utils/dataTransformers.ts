@@ -5,7 +5,19 @@ import type {
   GeminiExerciseResponse,
   GeminiFoodResponse,
   WeeklyStats,
+  WeeklyStatsComparison,
 } from '../types';
+import { findMealSlot } from './calorieBudget';
+import { addDaysToDate, formatLocalDate } from './localDate';
+import { toFoodEntryNutrition } from './nutrition';
+import { calculatePeriodStats } from './statistics';
+
+export {
+  addDaysToDate,
+  formatLocalDate,
+  getWeekStart,
+  parseLocalDate,
+} from './localDate';
 
 /**
  * Generates a unique ID for entries
@@ -18,7 +30,7 @@ export const generateEntryId = (): string => {
  * Gets current date in YYYY-MM-DD format
  */
 export const getCurrentDate = (): string => {
-  return new Date().toISOString().split('T')[0]!;
+  return formatLocalDate(new Date());
 };
 
 /**
@@ -63,8 +75,9 @@ export const transformGeminiFoodResponse = (
     id: generateEntryId(),
     type: 'food',
     isHealthy: response.isHealthy,
-    mainIngredients: response.mainIngredients,
+    mainIngredients: response.ingredients.map((ingredient) => ingredient.name),
     estimatedCalories: response.estimatedCalories,
+    ...toFoodEntryNutrition(response),
     mealType: response.mealType,
     date: response.date,
     timestamp: now,
@@ -88,49 +101,36 @@ const calculateWeeklyStats = (
   entries: AuthenticationEntry[],
   weekStart: string,
 ): WeeklyStats => {
-  const weekStartDate = new Date(weekStart);
-  const weekEndDate = new Date(weekStartDate);
-  weekEndDate.setDate(weekEndDate.getDate() + 6);
-
-  const weekEnd = weekEndDate.toISOString().split('T')[0]!;
-
-  const weekEntries = entries.filter((entry) => {
-    return entry.date >= weekStart && entry.date <= weekEnd;
-  });
-
-  const exerciseEntries = weekEntries.filter(
-    (entry) => entry.type === 'exercise',
-  ) as ExerciseEntry[];
-  const foodEntries = weekEntries.filter(
-    (entry) => entry.type === 'food',
-  ) as FoodEntry[];
-
-  const totalCaloriesBurned = exerciseEntries.reduce(
-    (sum, entry) => sum + entry.calories,
-    0,
-  );
-  const totalCaloriesConsumed = foodEntries.reduce(
-    (sum, entry) => sum + entry.estimatedCalories,
-    0,
-  );
-
-  const healthyFoodCount = foodEntries.filter(
-    (entry) => entry.isHealthy,
-  ).length;
-  const healthyFoodPercentage =
-    foodEntries.length > 0 ? (healthyFoodCount / foodEntries.length) * 100 : 0;
+  const { totalExerciseMinutes, startDate, endDate, ...stats } =
+    calculatePeriodStats(entries, {
+      startDate: weekStart,
+      endDate: addDaysToDate(weekStart, 6),
+    });
+  return { weekStart: startDate, weekEnd: endDate, ...stats };
+};
+export default calculateWeeklyStats
 
+/**
+ * Compares a week's statistics with the previous week's
+ */
+export const compareWeeklyStats = (
+  current: WeeklyStats,
+  previous: WeeklyStats,
+): WeeklyStatsComparison => {
   return {
-    weekStart,
-    weekEnd: weekEnd,
-    exerciseCount: exerciseEntries.length,
-    foodCount: foodEntries.length,
-    totalCaloriesBurned,
-    totalCaloriesConsumed,
-    healthyFoodPercentage: Math.round(healthyFoodPercentage * 100) / 100, // Round to 2 decimal places
+    current,
+    previous,
+    exerciseCountChange: current.exerciseCount - previous.exerciseCount,
+    caloriesBurnedChange:
+      current.totalCaloriesBurned - previous.totalCaloriesBurned,
+    caloriesConsumedChange:
+      current.totalCaloriesConsumed - previous.totalCaloriesConsumed,
+    healthyFoodPercentageChange:
+      Math.round(
+        (current.healthyFoodPercentage - previous.healthyFoodPercentage) * 100,
+      ) / 100,
   };
 };
-export default calculateWeeklyStats
 
 /**
  * Gets entries within a specific date range
@@ -145,6 +145,39 @@ export const getEntriesByDateRange = (
   });
 };
 
+/**
+ * Identifies the same log written twice (e.g. a replay whose response was lost
+ * or a backup imported over the entries it was made from)
+ */
+export const getEntryFingerprint = (
+  entry:
+    | Pick<
+        ExerciseEntry,
+        'type' | 'date' | 'exerciseType' | 'duration' | 'calories'
+      >
+    | Pick<
+        FoodEntry,
+        'type' | 'date' | 'mealType' | 'estimatedCalories' | 'mainIngredients'
+      >,
+): string => {
+  if (entry.type === 'exercise') {
+    return [
+      entry.type,
+      entry.date,
+      entry.exerciseType,
+      entry.duration,
+      entry.calories,
+    ].join('|');
+  }
+  return [
+    entry.type,
+    entry.date,
+    entry.mealType,
+    entry.estimatedCalories,
+    [...entry.mainIngredients].sort().join(','),
+  ].join('|');
+};
+
 /**
  * Validates exercise entry data
  */
@@ -157,11 +190,11 @@ export const validateExerciseEntry = (
     errors.push('Exercise type is required');
   }
 
-  if (!entry.duration || !isValidDuration(entry.duration)) {
-    errors.push('Valid duration in HH:MM:SS format is required');
+  if (typeof entry.duration !== 'number' || !(entry.duration > 0)) {
+    errors.push('Duration must be a positive number of minutes');
   }
 
-  if (typeof entry.calories !== 'number' || entry.calories < 0) {
+  if (typeof entry.calories !== 'number' || !(entry.calories >= 0)) {
     errors.push('Calories must be a positive number');
   }
 
@@ -192,7 +225,7 @@ export const validateFoodEntry = (entry: Partial<FoodEntry>): string[] => {
 
   if (
     typeof entry.estimatedCalories !== 'number' ||
-    entry.estimatedCalories < 0
+    !(entry.estimatedCalories >= 0)
   ) {
     errors.push('Estimated calories must be a positive number');
   }
@@ -210,14 +243,6 @@ export const validateFoodEntry = (entry: Partial<FoodEntry>): string[] => {
   return errors;
 };
 
-/**
- * Helper function to validate duration format (HH:MM:SS)
- */
-const isValidDuration = (duration: string): boolean => {
-  const durationRegex = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]:[0-5][0-9]$/;
-  return durationRegex.test(duration);
-};
-
 /**
  * Helper function to validate date format (YYYY-MM-DD)
  */
@@ -226,15 +251,15 @@ const isValidDate = (date: string): boolean => {
   if (!dateRegex.test(date)) return false;
 
   const parsedDate = new Date(date);
+  if (Number.isNaN(parsedDate.getTime())) return false;
   return parsedDate.toISOString().split('T')[0] === date;
 };
 
 /**
- * Helper function to validate meal type
+ * Helper function to validate meal type ("lunch", "점심식사", ...)
  */
 const isValidMealType = (mealType: string): boolean => {
-  const validMealTypes = ['breakfast', 'lunch', 'dinner', 'snack'];
-  return validMealTypes.includes(mealType.toLowerCase());
+  return findMealSlot(mealType) !== null;
 };
 
 /**
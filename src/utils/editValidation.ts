@@ -1,5 +1,12 @@
 // Validation utilities for edit functionality
 
+import type {
+  EntryEdit,
+  ExerciseEntryChanges,
+  FoodEntryChanges,
+  WeeklyGoals,
+} from '../types';
+
 export interface ValidationResult {
   isValid: boolean;
   error?: string;
@@ -34,6 +41,9 @@ export const validateEditedField = (
     case 'duration':
       return validateDuration(trimmedValue);
 
+    case 'distance':
+      return validateDistance(trimmedValue);
+
     case 'mainIngredients':
       return validateIngredients(trimmedValue);
 
@@ -147,6 +157,32 @@ const validateDuration = (value: string): ValidationResult => {
   };
 };
 
+/**
+ * Validates distance input (km)
+ */
+const validateDistance = (value: string): ValidationResult => {
+  const numValue = Number(value.replace(/km$/i, '').trim());
+
+  if (Number.isNaN(numValue) || numValue < 0) {
+    return {
+      isValid: false,
+      error: '0 이상의 숫자를 입력해주세요.',
+    };
+  }
+
+  if (numValue > 1000) {
+    return {
+      isValid: false,
+      error: '1,000km 이하로 입력해주세요.',
+    };
+  }
+
+  return {
+    isValid: true,
+    sanitizedValue: (Math.round(numValue * 100) / 100).toString(),
+  };
+};
+
 /**
  * Validates ingredients input
  */
@@ -261,7 +297,7 @@ const parseDurationToMinutes = (duration: string): number | null => {
 
   // Try different patterns
   const patterns = [
-    /^(\d+)분$/, // "30분"
+    /^(\d+)(?:분)?$/, // "30분" or "30" (the overlay strips the unit)
     /^(\d+)시간$/, // "1시간"
     /^(\d+)시간\s*(\d+)분$/, // "1시간 30분"
     /^(\d+):\s*(\d+)$/, // "1:30"
@@ -365,6 +401,7 @@ export const getFieldType = (
   switch (fieldKey) {
     case 'estimatedCalories':
     case 'calories':
+    case 'distance':
       return 'number';
 
     case 'mealType':
@@ -386,6 +423,7 @@ export const getFieldLabel = (fieldKey: string): string => {
     calories: '소모 칼로리',
     exerciseType: '운동 종류',
     duration: '운동 시간',
+    distance: '운동 거리',
     mainIngredients: '주요 재료',
     mealType: '식사 종류',
     isHealthy: '건강 상태',
@@ -393,3 +431,153 @@ export const getFieldLabel = (fieldKey: string): string => {
 
   return labels[fieldKey] || fieldKey;
 };
+
+/**
+ * Fields that can be corrected on an entry that is already saved
+ */
+export const getSavedEntryEditableFields = (
+  entryType: 'food' | 'exercise',
+): string[] => {
+  return entryType === 'exercise'
+    ? ['exerciseType', 'duration', 'calories', 'distance']
+    : ['mealType', 'mainIngredients', 'estimatedCalories', 'isHealthy'];
+};
+
+/**
+ * Converts a validated value back into entry fields, tagged with the entry type
+ * Returns null for fields that cannot be edited on a saved entry
+ */
+export const toEntryChanges = (
+  fieldKey: string,
+  sanitizedValue: string,
+  entryType: 'food' | 'exercise',
+): EntryEdit | null => {
+  if (entryType === 'exercise') {
+    const changes: ExerciseEntryChanges = {};
+    switch (fieldKey) {
+      case 'exerciseType':
+        changes.exerciseType = sanitizedValue;
+        break;
+      case 'duration': {
+        const minutes = parseDurationToMinutes(sanitizedValue);
+        if (minutes === null) {
+          return null;
+        }
+        changes.duration = minutes;
+        break;
+      }
+      case 'calories':
+        changes.calories = Number(sanitizedValue);
+        break;
+      case 'distance':
+        changes.distance = Number(sanitizedValue);
+        break;
+      default:
+        return null;
+    }
+    return { type: 'exercise', changes };
+  }
+
+  const changes: FoodEntryChanges = {};
+  switch (fieldKey) {
+    case 'mealType':
+      changes.mealType = sanitizedValue;
+      break;
+    case 'mainIngredients':
+      changes.mainIngredients = sanitizedValue
+        .split(',')
+        .map((item) => item.trim())
+        .filter((item) => item.length > 0);
+      break;
+    case 'estimatedCalories':
+      changes.estimatedCalories = Number(sanitizedValue);
+      break;
+    case 'isHealthy':
+      changes.isHealthy = ['건강함', 'healthy', 'true', '예'].includes(
+        sanitizedValue.toLowerCase(),
+      );
+      break;
+    default:
+      return null;
+  }
+  return { type: 'food', changes };
+};
+
+type ProfileNumberField =
+  | 'weightKg'
+  | 'heightCm'
+  | 'birthYear'
+  | 'dailyCalorieTarget';
+
+/**
+ * Validates a body profile value; an empty value clears the field
+ */
+export const validateProfileField = (
+  fieldKey: ProfileNumberField,
+  value: string,
+  now: Date = new Date(),
+): ValidationResult => {
+  const trimmedValue = value.trim();
+  if (!trimmedValue) {
+    return { isValid: true, sanitizedValue: '' };
+  }
+
+  const numValue = Number(trimmedValue);
+  const ranges: Record<ProfileNumberField, [number, number, string]> = {
+    weightKg: [20, 300, '체중은 20~300kg 사이로 입력해주세요.'],
+    heightCm: [100, 250, '키는 100~250cm 사이로 입력해주세요.'],
+    birthYear: [
+      now.getFullYear() - 100,
+      now.getFullYear() - 10,
+      '출생연도를 다시 확인해주세요.',
+    ],
+    dailyCalorieTarget: [
+      800,
+      6000,
+      '목표 섭취 칼로리는 800~6,000kcal 사이로 입력해주세요.',
+    ],
+  };
+  const [min, max, error] = ranges[fieldKey];
+
+  if (Number.isNaN(numValue) || numValue < min || numValue > max) {
+    return { isValid: false, error };
+  }
+
+  return {
+    isValid: true,
+    sanitizedValue:
+      fieldKey === 'birthYear' || fieldKey === 'dailyCalorieTarget'
+        ? Math.round(numValue).toString()
+        : (Math.round(numValue * 10) / 10).toString(),
+  };
+};
+
+/**
+ * Validates a weekly goal; goals are required whole numbers
+ */
+export const validateWeeklyGoalField = (
+  fieldKey: keyof WeeklyGoals,
+  value: string,
+): ValidationResult => {
+  const numValue = Number(value.trim());
+  const ranges: Record<keyof WeeklyGoals, [number, number, string]> = {
+    exerciseMinutes: [
+      10,
+      3000,
+      '운동 시간 목표는 10~3,000분 사이로 입력해주세요.',
+    ],
+    healthyMeals: [1, 35, '건강한 식단 목표는 1~35회 사이로 입력해주세요.'],
+  };
+  const [min, max, error] = ranges[fieldKey];
+
+  if (
+    !value.trim() ||
+    Number.isNaN(numValue) ||
+    numValue < min ||
+    numValue > max
+  ) {
+    return { isValid: false, error };
+  }
+
+  return { isValid: true, sanitizedValue: Math.round(numValue).toString() };
+};
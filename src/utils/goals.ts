@@ -0,0 +1,189 @@
+/**
+ * Streaks, weekly goal progress and achievements
+ * Everything is derived from entry dates, so it works offline and follows edits
+ */
+
+import type {
+  AuthenticationEntry,
+  ExerciseEntry,
+  FoodEntry,
+  StreakStats,
+  WeeklyGoals,
+} from '../types';
+import {
+  addDaysToDate,
+  formatLocalDate,
+  getWeekStart,
+} from './dataTransformers';
+
+export interface GoalProgress {
+  value: number;
+  target: number;
+  ratio: number; // 0–1
+  isMet: boolean;
+}
+
+export interface WeeklyGoalProgress {
+  weekStart: string;
+  exerciseMinutes: GoalProgress;
+  healthyMeals: GoalProgress;
+}
+
+type AchievementMetric =
+  | 'entries'
+  | 'workouts'
+  | 'healthyMeals'
+  | 'longestStreak';
+
+export interface Achievement {
+  id: string;
+  title: string;
+  description: string;
+  emoji: string;
+  metric: AchievementMetric;
+  target: number;
+}
+
+export interface AchievementProgress extends Achievement {
+  progress: number; // capped at the target
+  isUnlocked: boolean;
+  unlockedAt?: string;
+}
+
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: 'first-entry',
+    title: '첫 인증',
+    description: '처음으로 인증을 남겼어요',
+    emoji: '🌱',
+    metric: 'entries',
+    target: 1,
+  },
+  {
+    id: 'workouts-10',
+    title: '운동 10회',
+    description: '운동 인증 10회 달성',
+    emoji: '💪',
+    metric: 'workouts',
+    target: 10,
+  },
+  {
+    id: 'healthy-meals-20',
+    title: '건강한 식단 20회',
+    description: '건강한 식단 인증 20회 달성',
+    emoji: '🥗',
+    metric: 'healthyMeals',
+    target: 20,
+  },
+  {
+    id: 'streak-7',
+    title: '7일 연속',
+    description: '7일 동안 하루도 빠짐없이 인증했어요',
+    emoji: '🔥',
+    metric: 'longestStreak',
+    target: 7,
+  },
+  {
+    id: 'streak-30',
+    title: '30일 연속',
+    description: '30일 동안 하루도 빠짐없이 인증했어요',
+    emoji: '🏆',
+    metric: 'longestStreak',
+    target: 30,
+  },
+];
+
+/**
+ * Current and longest streaks of days with at least one entry
+ */
+export const calculateStreaks = (
+  entries: AuthenticationEntry[],
+  today: string = formatLocalDate(new Date()),
+): StreakStats => {
+  const dates = new Set(entries.map((entry) => entry.date));
+
+  let longest = 0;
+  for (const date of dates) {
+    // Only count forward from the first day of each run
+    if (dates.has(addDaysToDate(date, -1))) {
+      continue;
+    }
+    let length = 1;
+    while (dates.has(addDaysToDate(date, length))) {
+      length++;
+    }
+    longest = Math.max(longest, length);
+  }
+
+  let current = 0;
+  let day = dates.has(today) ? today : addDaysToDate(today, -1);
+  while (dates.has(day)) {
+    current++;
+    day = addDaysToDate(day, -1);
+  }
+
+  return { current, longest };
+};
+
+const toProgress = (value: number, target: number): GoalProgress => ({
+  value,
+  target,
+  ratio: target > 0 ? Math.min(value / target, 1) : 1,
+  isMet: value >= target,
+});
+
+/**
+ * Progress towards the weekly goals for the week starting on weekStart (Monday)
+ */
+export const calculateWeeklyGoalProgress = (
+  entries: AuthenticationEntry[],
+  goals: WeeklyGoals,
+  weekStart: string = getWeekStart(),
+): WeeklyGoalProgress => {
+  const weekEnd = addDaysToDate(weekStart, 6);
+  const weekEntries = entries.filter(
+    (entry) => entry.date >= weekStart && entry.date <= weekEnd,
+  );
+
+  const exerciseMinutes = weekEntries
+    .filter((entry): entry is ExerciseEntry => entry.type === 'exercise')
+    .reduce((sum, entry) => sum + entry.duration, 0);
+  const healthyMeals = weekEntries.filter(
+    (entry) => entry.type === 'food' && (entry as FoodEntry).isHealthy,
+  ).length;
+
+  return {
+    weekStart,
+    exerciseMinutes: toProgress(exerciseMinutes, goals.exerciseMinutes),
+    healthyMeals: toProgress(healthyMeals, goals.healthyMeals),
+  };
+};
+
+/**
+ * Progress of every achievement; ones unlocked before stay unlocked
+ */
+export const getAchievementProgress = (
+  entries: AuthenticationEntry[],
+  unlockedAchievements: Record<string, string>,
+  streaks: StreakStats = calculateStreaks(entries),
+): AchievementProgress[] => {
+  const metrics: Record<AchievementMetric, number> = {
+    entries: entries.length,
+    workouts: entries.filter((entry) => entry.type === 'exercise').length,
+    healthyMeals: entries.filter(
+      (entry) => entry.type === 'food' && (entry as FoodEntry).isHealthy,
+    ).length,
+    longestStreak: streaks.longest,
+  };
+
+  return ACHIEVEMENTS.map((achievement) => {
+    const unlockedAt = unlockedAchievements[achievement.id];
+    const value = metrics[achievement.metric];
+    return {
+      ...achievement,
+      progress: Math.min(value, achievement.target),
+      isUnlocked: unlockedAt !== undefined || value >= achievement.target,
+      ...(unlockedAt !== undefined ? { unlockedAt } : {}),
+    };
+  });
+};
@@ -0,0 +1,56 @@
+/**
+ * Calendar date math in the device's timezone
+ * Dates are YYYY-MM-DD strings; never round-trip them through toISOString(),
+ * which shifts the day for users ahead of UTC
+ */
+
+/**
+ * Formats a Date as YYYY-MM-DD using the device's local calendar
+ */
+export const formatLocalDate = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+/**
+ * Parses a YYYY-MM-DD date string as midnight in the device's timezone
+ */
+export const parseLocalDate = (dateString: string): Date => {
+  const [year = 1970, month = 1, day = 1] = dateString.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * Shifts a YYYY-MM-DD date string by the given number of days
+ */
+export const addDaysToDate = (dateString: string, days: number): string => {
+  const date = parseLocalDate(dateString);
+  date.setDate(date.getDate() + days);
+  return formatLocalDate(date);
+};
+
+/**
+ * Gets the Monday of the week containing the given date (YYYY-MM-DD)
+ */
+export const getWeekStart = (date: Date = new Date()): string => {
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const daysSinceMonday = (monday.getDay() + 6) % 7;
+  monday.setDate(monday.getDate() - daysSinceMonday);
+  return formatLocalDate(monday);
+};
+
+/**
+ * First day of the month containing the given YYYY-MM-DD date
+ */
+export const getMonthStart = (dateString: string): string =>
+  `${dateString.slice(0, 7)}-01`;
+
+/**
+ * Last day of the month containing the given YYYY-MM-DD date
+ */
+export const getMonthEnd = (dateString: string): string => {
+  const date = parseLocalDate(dateString);
+  return formatLocalDate(new Date(date.getFullYear(), date.getMonth() + 1, 0));
+};
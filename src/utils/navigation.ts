@@ -2,6 +2,8 @@
 
 import { useCallback } from 'react';
 import { Linking } from 'react-native';
+import { getSessionUserKey } from '../services/session';
+import { useAuthRedirectStore } from '../store/authRedirect';
 
 // Health Tracker App Routes
 export const HEALTH_TRACKER_ROUTES = {
@@ -58,28 +60,51 @@ export const parseRoute = (url: string): string | null => {
   return route || '/';
 };
 
+/**
+ * Split a route into its path and query parameters
+ */
+export const parseRouteParams = (
+  route: string,
+): { path: string; params: Record<string, string> } => {
+  const [path = '/', query = ''] = route.split('?');
+  const params: Record<string, string> = {};
+
+  for (const pair of query.split('&')) {
+    if (!pair) {
+      continue;
+    }
+    const [key = '', value = ''] = pair.split('=');
+    params[decodeURIComponent(key)] = decodeURIComponent(value);
+  }
+
+  return { path: path || '/', params };
+};
+
 /**
  * Handle deep link navigation
+ * Deep links to protected routes opened while signed out are reopened after login
  */
 export const handleDeepLink = (url: string): boolean => {
-  if (!isHealthTrackerURL(url)) {
+  const route = parseRoute(url);
+  if (!route) {
     return false;
   }
 
-  const route = parseRoute(url);
+  const { path, params } = parseRouteParams(route);
 
-  switch (route) {
+  switch (path) {
     case '/':
-      // Already on main screen
-      return true;
     case '/exercise-upload':
-      // Handle exercise upload navigation
-      return true;
     case '/food-upload':
-      // Handle food upload navigation
-      return true;
     case '/reports':
-      // Handle reports navigation
+    case '/history':
+    case '/profile':
+      if (!getSessionUserKey()) {
+        useAuthRedirectStore.getState().setPendingRoute({
+          path,
+          params: Object.keys(params).length > 0 ? params : undefined,
+        });
+      }
       return true;
     default:
       return false;
@@ -95,6 +120,7 @@ export const useGraniteNavigation = () => {
     navigateToReports: useCallback(navigateToReports, []),
     isHealthTrackerURL: useCallback(isHealthTrackerURL, []),
     parseRoute: useCallback(parseRoute, []),
+    parseRouteParams: useCallback(parseRouteParams, []),
     handleDeepLink: useCallback(handleDeepLink, []),
   };
 };
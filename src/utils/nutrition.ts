@@ -0,0 +1,149 @@
+/**
+ * Portion-aware nutrition helpers
+ * Analyses estimate the serving in the photo; the portion multiplier scales
+ * calories, macronutrients and ingredient amounts from there
+ */
+
+import type {
+  FoodEntry,
+  GeminiFoodResponse,
+  Ingredient,
+  IngredientNutrition,
+  Macronutrients,
+} from '../types';
+
+export const MIN_PORTION = 0.25;
+export const MAX_PORTION = 5;
+export const PORTION_STEP = 0.25;
+
+/**
+ * Keeps a portion within the supported range, on a PORTION_STEP boundary
+ */
+export const clampPortion = (portion: number): number => {
+  if (!Number.isFinite(portion)) {
+    return 1;
+  }
+  const stepped = Math.round(portion / PORTION_STEP) * PORTION_STEP;
+  return Math.min(MAX_PORTION, Math.max(MIN_PORTION, stepped));
+};
+
+const roundTo = (value: number, digits: number): number => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+export const scaleMacros = (
+  macros: Macronutrients,
+  portion: number,
+): Macronutrients => ({
+  protein: roundTo(macros.protein * portion, 1),
+  carbs: roundTo(macros.carbs * portion, 1),
+  fat: roundTo(macros.fat * portion, 1),
+});
+
+const scaleIngredient = (
+  ingredient: Ingredient,
+  portion: number,
+): Ingredient => ({
+  ...ingredient,
+  ...(ingredient.grams !== undefined
+    ? { grams: Math.round(ingredient.grams * portion) }
+    : {}),
+  ...(ingredient.calories !== undefined
+    ? { calories: Math.round(ingredient.calories * portion) }
+    : {}),
+});
+
+/**
+ * The analysis as it would be logged at the given portion
+ */
+export const scaleFoodAnalysis = (
+  food: GeminiFoodResponse,
+  portion: number,
+): GeminiFoodResponse => {
+  if (portion === 1) {
+    return food;
+  }
+  return {
+    ...food,
+    estimatedCalories: Math.round(food.estimatedCalories * portion),
+    ingredients: food.ingredients.map((ingredient) =>
+      scaleIngredient(ingredient, portion),
+    ),
+    ...(food.macros ? { macros: scaleMacros(food.macros, portion) } : {}),
+  };
+};
+
+/**
+ * Calories supplied by the macronutrients (4/4/9 kcal per gram)
+ */
+export const getMacroCalories = (macros: Macronutrients): number =>
+  Math.round(macros.protein * 4 + macros.carbs * 4 + macros.fat * 9);
+
+type IngredientAmounts = Pick<Ingredient, 'name' | 'grams' | 'calories'> &
+  Partial<Pick<Ingredient, 'color'>>;
+
+// Per-ingredient colors and amounts worth storing; undefined when none were given
+const toIngredientNutrition = (
+  ingredients: IngredientAmounts[],
+): IngredientNutrition[] | undefined => {
+  const withDetails = ingredients.filter(
+    (ingredient) =>
+      ingredient.color !== undefined ||
+      ingredient.grams !== undefined ||
+      ingredient.calories !== undefined,
+  );
+  if (withDetails.length === 0) {
+    return undefined;
+  }
+  return ingredients.map(({ name, color, grams, calories }) => ({
+    name,
+    ...(color !== undefined ? { color } : {}),
+    ...(grams !== undefined ? { grams } : {}),
+    ...(calories !== undefined ? { calories } : {}),
+  }));
+};
+
+/**
+ * Nutrition fields of a FoodEntry built from a logged meal
+ * Fields the analysis did not estimate are left out
+ */
+export const toFoodEntryNutrition = (log: {
+  ingredients: IngredientAmounts[];
+  macros?: Macronutrients;
+  portion?: number;
+}): Pick<FoodEntry, 'macros' | 'ingredientNutrition' | 'portion'> => {
+  const ingredientNutrition = toIngredientNutrition(log.ingredients);
+  return {
+    ...(log.macros ? { macros: log.macros } : {}),
+    ...(ingredientNutrition ? { ingredientNutrition } : {}),
+    ...(log.portion !== undefined ? { portion: log.portion } : {}),
+  };
+};
+
+const INGREDIENT_COLORS: readonly string[] = ['red', 'green', 'teal'];
+
+export const isIngredientColor = (
+  color: string | undefined,
+): color is Ingredient['color'] =>
+  color !== undefined && INGREDIENT_COLORS.includes(color);
+
+/**
+ * Ingredients to send for a stored meal, merged with its stored details by name
+ * Names without stored details (renamed or added) get the neutral color
+ */
+export const toFoodIngredients = (
+  names: string[],
+  stored: IngredientNutrition[] = [],
+): Ingredient[] =>
+  names.map((name) => {
+    const details = stored.find((ingredient) => ingredient.name === name);
+    return {
+      name,
+      color: details?.color ?? 'teal',
+      ...(details?.grams !== undefined ? { grams: details.grams } : {}),
+      ...(details?.calories !== undefined
+        ? { calories: details.calories }
+        : {}),
+    };
+  });
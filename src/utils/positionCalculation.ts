@@ -19,6 +19,9 @@ export interface FloatingTextData {
   label: string;
   value: string;
   preferredPosition?: Position;
+  // Secondary line, e.g. the reference calorie estimate
+  note?: string;
+  needsReview?: boolean;
 }
 
 // Calculate text bounds based on content
@@ -0,0 +1,57 @@
+/**
+ * Content of the daily certification share card
+ * Fields are laid out by mapAnalysisToFloatingText, so the card reads the same
+ * as the analysis screen the user just confirmed
+ */
+
+import type { GeminiExerciseResponse, GeminiFoodResponse } from '../types';
+import { mapAnalysisToFloatingText } from './analysisDataMapper';
+import { parseLocalDate } from './localDate';
+
+export interface ShareCardField {
+  key: string;
+  label: string;
+  value: string;
+}
+
+export interface ShareCardContent {
+  title: string;
+  dateLabel: string;
+  streakLabel: string | null; // null before the first certified day
+  fields: ShareCardField[];
+}
+
+const TITLES: Record<'food' | 'exercise', string> = {
+  food: '오늘의 식단 인증',
+  exercise: '오늘의 운동 인증',
+};
+
+export const formatShareCardDate = (date: string): string => {
+  const parsed = parseLocalDate(date);
+  return `${parsed.getFullYear()}년 ${parsed.getMonth() + 1}월 ${parsed.getDate()}일`;
+};
+
+export const buildShareCardContent = (
+  analysisData: GeminiFoodResponse | GeminiExerciseResponse,
+  entryType: 'food' | 'exercise',
+  date: string,
+  streak: number,
+): ShareCardContent => ({
+  title: TITLES[entryType],
+  dateLabel: formatShareCardDate(date),
+  streakLabel: streak > 0 ? `🔥 ${streak}일째 인증` : null,
+  // Reference-calorie notes are review hints, not part of the certification
+  fields: mapAnalysisToFloatingText(analysisData, entryType).map(
+    ({ key, label, value }) => ({ key, label, value }),
+  ),
+});
+
+/**
+ * Text version of the card, read out by screen readers in place of the image
+ */
+export const buildShareCardMessage = (content: ShareCardContent): string =>
+  [
+    `${content.title} · ${content.dateLabel}`,
+    ...content.fields.map((field) => `${field.label}: ${field.value}`),
+    ...(content.streakLabel ? [content.streakLabel] : []),
+  ].join('\n');
@@ -0,0 +1,200 @@
+/**
+ * Statistics over arbitrary date ranges
+ * Ranges are split into day, week (Monday-first) or calendar-month buckets
+ * using local dates only, so entries never move to a neighbouring day
+ */
+
+import type { AuthenticationEntry, ExerciseEntry, FoodEntry } from '../types';
+import { type MealCalories, summarizeMealSlots } from './calorieBudget';
+import {
+  addDaysToDate,
+  getMonthEnd,
+  getWeekStart,
+  parseLocalDate,
+} from './localDate';
+
+export type StatsGranularity = 'day' | 'week' | 'month';
+
+export interface DateRange {
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate: string; // YYYY-MM-DD, inclusive
+}
+
+export interface PeriodStats extends DateRange {
+  exerciseCount: number;
+  foodCount: number;
+  totalCaloriesBurned: number;
+  totalCaloriesConsumed: number;
+  totalExerciseMinutes: number;
+  healthyFoodPercentage: number; // 0–100, two decimals
+}
+
+export interface ExerciseTypeStats {
+  exerciseType: string;
+  count: number;
+  minutes: number;
+  calories: number;
+}
+
+// Averages per bucket, empty buckets included
+export interface StatsAverages {
+  exerciseCount: number;
+  foodCount: number;
+  caloriesBurned: number;
+  caloriesConsumed: number;
+  exerciseMinutes: number;
+}
+
+export interface RangeStatistics {
+  range: DateRange;
+  granularity: StatsGranularity;
+  totals: PeriodStats;
+  buckets: PeriodStats[];
+  averages: StatsAverages;
+  mealTypes: MealCalories[];
+  exerciseTypes: ExerciseTypeStats[]; // most minutes first
+}
+
+const roundTo2 = (value: number): number => Math.round(value * 100) / 100;
+
+const getBucketEnd = (
+  startDate: string,
+  granularity: StatsGranularity,
+): string => {
+  switch (granularity) {
+    case 'day':
+      return startDate;
+    case 'week':
+      return addDaysToDate(getWeekStart(parseLocalDate(startDate)), 6);
+    case 'month':
+      return getMonthEnd(startDate);
+  }
+};
+
+/**
+ * Splits a range into buckets; the first and last are clipped to the range
+ */
+export const getStatsBuckets = (
+  range: DateRange,
+  granularity: StatsGranularity,
+): DateRange[] => {
+  const buckets: DateRange[] = [];
+  let startDate = range.startDate;
+  while (startDate <= range.endDate) {
+    const bucketEnd = getBucketEnd(startDate, granularity);
+    const endDate = bucketEnd < range.endDate ? bucketEnd : range.endDate;
+    buckets.push({ startDate, endDate });
+    startDate = addDaysToDate(endDate, 1);
+  }
+  return buckets;
+};
+
+const getRangeEntries = (
+  entries: AuthenticationEntry[],
+  range: DateRange,
+): AuthenticationEntry[] =>
+  entries.filter(
+    (entry) => entry.date >= range.startDate && entry.date <= range.endDate,
+  );
+
+const splitEntries = (entries: AuthenticationEntry[]) => ({
+  exerciseEntries: entries.filter(
+    (entry): entry is ExerciseEntry => entry.type === 'exercise',
+  ),
+  foodEntries: entries.filter(
+    (entry): entry is FoodEntry => entry.type === 'food',
+  ),
+});
+
+/**
+ * Totals for the entries dated within the range
+ */
+export const calculatePeriodStats = (
+  entries: AuthenticationEntry[],
+  range: DateRange,
+): PeriodStats => {
+  const { exerciseEntries, foodEntries } = splitEntries(
+    getRangeEntries(entries, range),
+  );
+  const healthyFoodCount = foodEntries.filter(
+    (entry) => entry.isHealthy,
+  ).length;
+
+  return {
+    startDate: range.startDate,
+    endDate: range.endDate,
+    exerciseCount: exerciseEntries.length,
+    foodCount: foodEntries.length,
+    totalCaloriesBurned: exerciseEntries.reduce(
+      (sum, entry) => sum + entry.calories,
+      0,
+    ),
+    totalCaloriesConsumed: foodEntries.reduce(
+      (sum, entry) => sum + entry.estimatedCalories,
+      0,
+    ),
+    totalExerciseMinutes: exerciseEntries.reduce(
+      (sum, entry) => sum + entry.duration,
+      0,
+    ),
+    healthyFoodPercentage:
+      foodEntries.length > 0
+        ? roundTo2((healthyFoodCount / foodEntries.length) * 100)
+        : 0,
+  };
+};
+
+const summarizeExerciseTypes = (
+  exerciseEntries: ExerciseEntry[],
+): ExerciseTypeStats[] => {
+  const byType = new Map<string, ExerciseTypeStats>();
+  for (const entry of exerciseEntries) {
+    const stats = byType.get(entry.exerciseType) ?? {
+      exerciseType: entry.exerciseType,
+      count: 0,
+      minutes: 0,
+      calories: 0,
+    };
+    byType.set(entry.exerciseType, {
+      ...stats,
+      count: stats.count + 1,
+      minutes: stats.minutes + entry.duration,
+      calories: stats.calories + entry.calories,
+    });
+  }
+  return [...byType.values()].sort((a, b) => b.minutes - a.minutes);
+};
+
+/**
+ * Per-bucket series, per-bucket averages and meal/exercise breakdowns
+ */
+export const calculateRangeStatistics = (
+  entries: AuthenticationEntry[],
+  range: DateRange,
+  granularity: StatsGranularity = 'day',
+): RangeStatistics => {
+  const rangeEntries = getRangeEntries(entries, range);
+  const buckets = getStatsBuckets(range, granularity).map((bucket) =>
+    calculatePeriodStats(rangeEntries, bucket),
+  );
+  const totals = calculatePeriodStats(rangeEntries, range);
+  const { exerciseEntries, foodEntries } = splitEntries(rangeEntries);
+  const average = (total: number): number =>
+    buckets.length > 0 ? roundTo2(total / buckets.length) : 0;
+
+  return {
+    range,
+    granularity,
+    totals,
+    buckets,
+    averages: {
+      exerciseCount: average(totals.exerciseCount),
+      foodCount: average(totals.foodCount),
+      caloriesBurned: average(totals.totalCaloriesBurned),
+      caloriesConsumed: average(totals.totalCaloriesConsumed),
+      exerciseMinutes: average(totals.totalExerciseMinutes),
+    },
+    mealTypes: summarizeMealSlots(foodEntries),
+    exerciseTypes: summarizeExerciseTypes(exerciseEntries),
+  };
+};